@@ -0,0 +1,146 @@
+/**
+ * API keys
+ *   API_AUTH=on|off (default: on)
+ *
+ * Keys are random tokens shown once when created; only their SHA-256 hash is
+ * stored, so a lost key is revoked and replaced rather than recovered. Each
+ * key holds one or more scopes, and an admin key passes every scope check.
+ * A key may act for a user, whose sessions and workspace it then sees.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { findUserByName, getStorage } from '../db/index.js'
+import { API_KEY_SCOPES, isValidApiKeyScope } from '../utils/constants.js'
+import { isValidUUID } from '../utils/validation.js'
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  formatErrorMessage
+} from '../utils/errors.js'
+import type { ApiKey, ApiKeyScope, Viewer } from '../types/index.js'
+
+const KEY_PREFIX = 'ttk_'
+
+// Enough of the key to tell keys apart in listings without weakening it
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8
+
+// last_used_at is written at most this often per key, not on every request
+const TOUCH_INTERVAL_MS = 60 * 1000
+
+const lastTouched = new Map<string, number>()
+
+export function isAuthEnabled(): boolean {
+  const value = process.env.API_AUTH || 'on'
+  if (value === 'on') return true
+  if (value === 'off') return false
+  throw new Error(`Unknown API_AUTH '${value}'. Must be: on, off`)
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Creates a key and returns it alongside its stored record. The key itself
+ * cannot be retrieved again.
+ */
+export async function createApiKey(
+  name: string,
+  scopes: string[],
+  userId: string | null = null
+): Promise<{ key: string; api_key: ApiKey }> {
+  const trimmed = name.trim()
+  if (!trimmed || trimmed.length > 255) {
+    throw new ValidationError('Key name must be between 1 and 255 characters')
+  }
+  if (scopes.length === 0) {
+    throw new ValidationError(`At least one scope is required: ${API_KEY_SCOPES.join(', ')}`)
+  }
+  const invalid = scopes.find((scope) => !isValidApiKeyScope(scope))
+  if (invalid) {
+    throw new ValidationError(
+      `Unknown scope '${invalid}'. Must be: ${API_KEY_SCOPES.join(', ')}`
+    )
+  }
+
+  const key = KEY_PREFIX + randomBytes(32).toString('base64url')
+  const storage = await getStorage()
+  const apiKey = await storage.createApiKey({
+    name: trimmed,
+    user_id: userId,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    key_hash: hashApiKey(key),
+    scopes: [...new Set(scopes as ApiKeyScope[])]
+  })
+  return { key, api_key: apiKey }
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  return (await getStorage()).listApiKeys()
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKey> {
+  if (!isValidUUID(id)) throw new ValidationError('Invalid API key id format')
+  const apiKey = await (await getStorage()).revokeApiKey(id)
+  if (!apiKey) throw new NotFoundError('API key', id)
+  return apiKey
+}
+
+/**
+ * The active key matching a presented token; throws UnauthorizedError for
+ * unknown and revoked keys
+ */
+export async function authenticate(token: string): Promise<ApiKey> {
+  const storage = await getStorage()
+  const apiKey = await storage.findApiKeyByHash(hashApiKey(token))
+  if (!apiKey) throw new UnauthorizedError('Invalid API key')
+  if (apiKey.revoked_at) throw new UnauthorizedError('API key has been revoked')
+
+  const now = Date.now()
+  if (now - (lastTouched.get(apiKey.id) ?? 0) >= TOUCH_INTERVAL_MS) {
+    lastTouched.set(apiKey.id, now)
+    // Best effort: a failed timestamp update should not fail the request
+    storage
+      .touchApiKey(apiKey.id, new Date(now))
+      .catch((error) => console.error('Failed to record API key use:', formatErrorMessage(error)))
+  }
+  return apiKey
+}
+
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope) || apiKey.scopes.includes('admin')
+}
+
+export function requireScope(apiKey: ApiKey, scope: ApiKeyScope): void {
+  if (!hasScope(apiKey, scope)) {
+    throw new ForbiddenError(`API key '${apiKey.name}' does not have the '${scope}' scope`)
+  }
+}
+
+/**
+ * Who a key acts for. A user's key sees what that user may see; a key
+ * without a user sees public sessions only, unless it is an admin key,
+ * which sees everything.
+ */
+export async function resolveViewer(apiKey: ApiKey): Promise<Viewer | undefined> {
+  if (!apiKey.user_id) {
+    return apiKey.scopes.includes('admin') ? undefined : { user_id: null, workspace_id: null }
+  }
+  const user = await (await getStorage()).getUser(apiKey.user_id)
+  if (!user) throw new UnauthorizedError('API key belongs to a deleted user')
+  return { user_id: user.id, workspace_id: user.workspace_id }
+}
+
+/**
+ * The viewer for local entry points (stdio MCP server, CLI imports): the user
+ * named by TRACKER_USER, or unrestricted when it is unset
+ */
+export async function resolveLocalViewer(): Promise<Viewer | undefined> {
+  const name = process.env.TRACKER_USER
+  if (!name) return undefined
+  const user = await findUserByName(name)
+  if (!user) throw new NotFoundError('User', name)
+  return { user_id: user.id, workspace_id: user.workspace_id }
+}
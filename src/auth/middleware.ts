@@ -0,0 +1,86 @@
+/**
+ * Express middleware enforcing API keys. Clients send the key as
+ * `Authorization: Bearer <key>` or in an `X-API-Key` header. Browsers cannot
+ * set headers on an EventSource, so event streams also take an `api_key`
+ * query parameter.
+ */
+
+import type { Request, RequestHandler } from 'express'
+import { authenticate, isAuthEnabled, requireScope, resolveViewer } from './index.js'
+import { sendError } from '../utils/api-response.js'
+import { UnauthorizedError, isAppError } from '../utils/errors.js'
+import type { ApiKey, ApiKeyScope, Viewer } from '../types/index.js'
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The authenticated key; unset when API_AUTH=off */
+      apiKey?: ApiKey
+      /** Who the key acts for; unset for unrestricted callers */
+      viewer?: Viewer
+    }
+  }
+}
+
+/**
+ * Picks the scopes a request needs; an empty list accepts any valid key
+ */
+export type ScopeResolver = (req: Request) => ApiKeyScope | ApiKeyScope[]
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS'])
+
+/**
+ * Reads need read and writes need capture, including removing the tags,
+ * notes and bookmarks capture keys add. Routes that delete sessions and
+ * their data stack requireApiKey('admin') on top.
+ */
+export function methodScope(req: Request): ApiKeyScope {
+  return SAFE_METHODS.has(req.method) ? 'read' : 'capture'
+}
+
+/**
+ * Only GETs asking for an event stream read the key from the URL, so keys do
+ * not end up in the logged URLs of ordinary requests
+ */
+function isEventStreamRequest(req: Request): boolean {
+  return req.method === 'GET' && (req.get('accept') ?? '').includes('text/event-stream')
+}
+
+function readToken(req: Request): string | undefined {
+  const header = req.get('authorization')
+  if (header) {
+    const [scheme, token] = header.split(/\s+/, 2)
+    return scheme.toLowerCase() === 'bearer' ? token : undefined
+  }
+  const apiKeyHeader = req.get('x-api-key')
+  if (apiKeyHeader) return apiKeyHeader
+  const queryKey = req.query.api_key
+  return isEventStreamRequest(req) && typeof queryKey === 'string' ? queryKey : undefined
+}
+
+/**
+ * Rejects requests without a valid key (401) or without the scope the
+ * request needs (403). A key authenticated by an earlier instance of this
+ * middleware is reused, so routers can stack stricter scopes.
+ */
+export function requireApiKey(scope: ApiKeyScope | ScopeResolver = methodScope): RequestHandler {
+  return async (req, res, next) => {
+    if (!isAuthEnabled()) return next()
+    try {
+      if (!req.apiKey) {
+        const token = readToken(req)
+        if (!token) throw new UnauthorizedError()
+        req.apiKey = await authenticate(token)
+        req.viewer = await resolveViewer(req.apiKey)
+      }
+      const required = typeof scope === 'function' ? scope(req) : scope
+      for (const each of [required].flat()) requireScope(req.apiKey, each)
+      next()
+    } catch (error) {
+      if (isAppError(error) && error.statusCode === 401) {
+        res.set('WWW-Authenticate', 'Bearer')
+      }
+      sendError(res, error, isAppError(error) ? undefined : 'authenticating request')
+    }
+  }
+}
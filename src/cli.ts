@@ -0,0 +1,369 @@
+import { parseArgs } from 'util'
+import { importTranscripts, isImportSource, IMPORT_SOURCES } from './importers/index.js'
+import {
+  closeStorage,
+  getStorageBackend,
+  createWorkspace,
+  listWorkspaces,
+  findWorkspaceByName,
+  createUser,
+  listUsers,
+  findUserByName
+} from './db/index.js'
+import { backupDatabase, restoreDatabase } from './db/backup.js'
+import { rescanMessages } from './redaction/rescan.js'
+import { applyRetention, getRetentionPolicy, hasRetentionRules } from './retention/index.js'
+import { getMigrationStatus, migrateUp, migrateDown } from './db/migrate.js'
+import { createApiKey, listApiKeys, revokeApiKey, resolveLocalViewer } from './auth/index.js'
+import { API_KEY_SCOPES } from './utils/constants.js'
+
+const USAGE = `Usage: think-tracker <command> [options]
+
+Commands:
+  import [path]    Import transcripts (default: the source's standard location)
+    --source <name>  Transcript source: ${IMPORT_SOURCES.join(', ')} (default: claude-code)
+    --force          Re-import files that have not changed since the last import
+                     New sessions belong to the user named by TRACKER_USER, if set
+  backup <file>    Write all sessions and messages to an NDJSON archive (.gz to compress)
+  restore <file>   Restore an archive written by backup
+    --mode <mode>    merge (skip rows that already exist, default) or replace (wipe first)
+  redact           Re-scan stored messages and scrub secrets the current rules find
+    --dry-run        Report what would be redacted without changing anything
+  retention        Apply the RETENTION_* policy now (the server also runs it on a schedule)
+    --dry-run        Report what would be removed without changing anything
+  migrate status   List migrations and whether each is applied
+  migrate up       Apply pending migrations
+    --to <version>   Stop after this version
+  migrate down     Revert the latest applied migration
+    --steps <n>      Number of migrations to revert (default: 1)
+  keys create <name>  Create an API key and print it once
+    --scope <scope>  ${API_KEY_SCOPES.join(', ')} (repeatable, default: read)
+    --user <name>    Act for this user (default: no user, public sessions only unless admin)
+  keys list        List API keys with their scopes and when each was last used
+  keys revoke <id> Revoke an API key
+  workspaces create <name>  Create a workspace
+  workspaces list  List workspaces
+  users create <name>  Create a user
+    --workspace <name>  Workspace the user belongs to (required)
+  users list       List users with their workspaces`
+
+type Command = (args: string[]) => Promise<void>
+
+/**
+ * Backup, restore and migrations operate on the Postgres schema directly;
+ * the SQLite backend manages its own schema when the file is opened
+ */
+function requirePostgres(command: string): void {
+  if (getStorageBackend() !== 'postgres') {
+    throw new Error(`${command} is only available for the postgres storage backend`)
+  }
+}
+
+async function importCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      source: { type: 'string', default: 'claude-code' },
+      force: { type: 'boolean', default: false }
+    }
+  })
+
+  const source = values.source as string
+  if (!isImportSource(source)) {
+    throw new Error(`Unknown source '${source}'. Must be: ${IMPORT_SOURCES.join(', ')}`)
+  }
+
+  const result = await importTranscripts({
+    source,
+    path: positionals[0],
+    force: values.force,
+    owner: await resolveLocalViewer()
+  })
+  console.log(`Scanned ${result.files_scanned} file(s)`)
+  console.log(`  created: ${result.sessions_created} session(s)`)
+  console.log(`  updated: ${result.sessions_updated} session(s)`)
+  console.log(`  skipped: ${result.sessions_skipped} session(s)`)
+  console.log(`  messages imported: ${result.messages_imported}`)
+  for (const { file, error } of result.errors) {
+    console.error(`  failed: ${file}: ${error}`)
+  }
+  if (result.errors.length > 0) process.exitCode = 1
+}
+
+async function backupCommand(args: string[]): Promise<void> {
+  const { positionals } = parseArgs({ args, allowPositionals: true, options: {} })
+  requirePostgres('backup')
+  const file = positionals[0]
+  if (!file) throw new Error('backup requires an output file')
+
+  const result = await backupDatabase(file)
+  console.log(`Wrote ${result.file}`)
+  for (const [table, count] of Object.entries(result.rows)) {
+    console.log(`  ${table}: ${count} row(s)`)
+  }
+}
+
+async function restoreCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      mode: { type: 'string', default: 'merge' }
+    }
+  })
+
+  requirePostgres('restore')
+  const file = positionals[0]
+  if (!file) throw new Error('restore requires an archive file')
+  const mode = values.mode
+  if (mode !== 'merge' && mode !== 'replace') {
+    throw new Error(`Unknown mode '${mode}'. Must be: merge, replace`)
+  }
+
+  const result = await restoreDatabase(file, mode)
+  console.log(`Restored ${result.file} (${result.mode})`)
+  for (const table of Object.keys(result.inserted)) {
+    console.log(
+      `  ${table}: ${result.inserted[table]} inserted, ${result.skipped[table]} skipped`
+    )
+  }
+}
+
+async function redactCommand(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'dry-run': { type: 'boolean', default: false }
+    }
+  })
+
+  const result = await rescanMessages({ dryRun: values['dry-run'] })
+  const verb = result.dry_run ? 'would redact' : 'redacted'
+  console.log(`Scanned ${result.messages_scanned} message(s)`)
+  console.log(`  ${verb}: ${result.messages_redacted} message(s)`)
+  for (const [rule, count] of Object.entries(result.redactions)) {
+    console.log(`  ${rule}: ${count} match(es)`)
+  }
+}
+
+async function retentionCommand(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'dry-run': { type: 'boolean', default: false }
+    }
+  })
+
+  const policy = getRetentionPolicy()
+  if (!hasRetentionRules(policy)) {
+    console.log('No retention rules; set RETENTION_THINKING_DAYS or RETENTION_SESSION_DAYS')
+    return
+  }
+
+  const result = await applyRetention({ dryRun: values['dry-run'], policy })
+  const verb = result.dry_run ? 'would ' : ''
+  const date = (value: Date) => value.toISOString().slice(0, 10)
+  if (result.thinking) {
+    const { messages, thinking_blocks, before } = result.thinking
+    console.log(`Thinking captured before ${date(before)}:`)
+    console.log(`  ${verb}clear: ${messages} message(s), ${thinking_blocks} thinking block(s)`)
+  }
+  if (result.sessions) {
+    const { sessions, messages, before } = result.sessions
+    console.log(`Sessions inactive since before ${date(before)}:`)
+    console.log(`  ${verb}delete: ${sessions} session(s), ${messages} message(s)`)
+  }
+  const { tags, bookmarked } = policy.exemptions
+  const exempt = [
+    ...(tags.length > 0 ? [`sessions tagged ${tags.join(', ')}`] : []),
+    ...(bookmarked ? ['bookmarked sessions'] : [])
+  ]
+  if (exempt.length > 0) console.log(`Exempt: ${exempt.join('; ')}`)
+}
+
+async function migrateCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      to: { type: 'string' },
+      steps: { type: 'string', default: '1' }
+    }
+  })
+
+  requirePostgres('migrate')
+  const action = positionals[0] ?? 'status'
+
+  if (action === 'status') {
+    for (const migration of await getMigrationStatus()) {
+      const state = migration.applied
+        ? `applied ${migration.applied_at?.toISOString() ?? ''}`
+        : 'pending'
+      console.log(`  ${String(migration.version).padStart(3, '0')}_${migration.name}  ${state}`)
+    }
+    return
+  }
+
+  if (action === 'up') {
+    const target = values.to !== undefined ? parseInt(values.to, 10) : undefined
+    if (target !== undefined && isNaN(target)) throw new Error('--to must be a version number')
+    const applied = await migrateUp(target)
+    if (applied.length === 0) console.log('No pending migrations')
+    for (const migration of applied) {
+      console.log(`Applied ${migration.version}_${migration.name}`)
+    }
+    return
+  }
+
+  if (action === 'down') {
+    const steps = parseInt(values.steps as string, 10)
+    if (isNaN(steps) || steps < 1) throw new Error('--steps must be a positive number')
+    const reverted = await migrateDown(steps)
+    if (reverted.length === 0) console.log('No applied migrations')
+    for (const migration of reverted) {
+      console.log(`Reverted ${migration.version}_${migration.name}`)
+    }
+    return
+  }
+
+  throw new Error(`Unknown migrate action '${action}'. Must be: status, up, down`)
+}
+
+async function keysCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      scope: { type: 'string', multiple: true, default: ['read'] },
+      user: { type: 'string' }
+    }
+  })
+
+  const [action = 'list', target] = positionals
+
+  if (action === 'create') {
+    if (!target) throw new Error('keys create requires a name')
+    const user = values.user !== undefined ? await findUserByName(values.user) : null
+    if (values.user !== undefined && !user) throw new Error(`Unknown user '${values.user}'`)
+    const { key, api_key } = await createApiKey(target, values.scope as string[], user?.id)
+    const owner = user ? ` for ${user.name}` : ''
+    console.log(`Created key ${api_key.id}${owner} (${api_key.scopes.join(', ')})`)
+    console.log(`  ${key}`)
+    console.log('Store it now: the key cannot be shown again.')
+    return
+  }
+
+  if (action === 'list') {
+    const keys = await listApiKeys()
+    const users = new Map((await listUsers()).map((user) => [user.id, user.name]))
+    if (keys.length === 0) console.log('No API keys')
+    for (const key of keys) {
+      const used = key.last_used_at ? `last used ${key.last_used_at.toISOString()}` : 'never used'
+      const state = key.revoked_at ? `revoked ${key.revoked_at.toISOString()}` : used
+      const scopes = key.scopes.join(', ')
+      const owner = key.user_id ? `  user ${users.get(key.user_id) ?? key.user_id}` : ''
+      console.log(`  ${key.id}  ${key.prefix}…  ${key.name}  [${scopes}]${owner}  ${state}`)
+    }
+    return
+  }
+
+  if (action === 'revoke') {
+    if (!target) throw new Error('keys revoke requires a key id')
+    const key = await revokeApiKey(target)
+    console.log(`Revoked ${key.id} (${key.name})`)
+    return
+  }
+
+  throw new Error(`Unknown keys action '${action}'. Must be: create, list, revoke`)
+}
+
+async function workspacesCommand(args: string[]): Promise<void> {
+  const { positionals } = parseArgs({ args, allowPositionals: true, options: {} })
+  const [action = 'list', target] = positionals
+
+  if (action === 'create') {
+    if (!target) throw new Error('workspaces create requires a name')
+    const workspace = await createWorkspace(target)
+    console.log(`Created workspace ${workspace.id} (${workspace.name})`)
+    return
+  }
+
+  if (action === 'list') {
+    const workspaces = await listWorkspaces()
+    if (workspaces.length === 0) console.log('No workspaces')
+    for (const workspace of workspaces) {
+      console.log(`  ${workspace.id}  ${workspace.name}`)
+    }
+    return
+  }
+
+  throw new Error(`Unknown workspaces action '${action}'. Must be: create, list`)
+}
+
+async function usersCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      workspace: { type: 'string' }
+    }
+  })
+
+  const [action = 'list', target] = positionals
+
+  if (action === 'create') {
+    if (!target) throw new Error('users create requires a name')
+    if (!values.workspace) throw new Error('users create requires --workspace')
+    const workspace = await findWorkspaceByName(values.workspace)
+    if (!workspace) throw new Error(`Unknown workspace '${values.workspace}'`)
+    const user = await createUser({ name: target, workspace_id: workspace.id })
+    console.log(`Created user ${user.id} (${user.name}) in ${workspace.name}`)
+    return
+  }
+
+  if (action === 'list') {
+    const users = await listUsers()
+    const workspaces = new Map((await listWorkspaces()).map((each) => [each.id, each.name]))
+    if (users.length === 0) console.log('No users')
+    for (const user of users) {
+      console.log(`  ${user.id}  ${user.name}  ${workspaces.get(user.workspace_id) ?? ''}`)
+    }
+    return
+  }
+
+  throw new Error(`Unknown users action '${action}'. Must be: create, list`)
+}
+
+const COMMANDS: Record<string, Command> = {
+  import: importCommand,
+  backup: backupCommand,
+  restore: restoreCommand,
+  redact: redactCommand,
+  retention: retentionCommand,
+  migrate: migrateCommand,
+  keys: keysCommand,
+  workspaces: workspacesCommand,
+  users: usersCommand
+}
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2)
+  const command = name ? COMMANDS[name] : undefined
+
+  if (!command) {
+    console.error(USAGE)
+    process.exit(name ? 1 : 0)
+  }
+
+  try {
+    await command(args)
+  } catch (error) {
+    console.error(`Failed to run '${name}':`, error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  } finally {
+    await closeStorage()
+  }
+}
+
+main()
@@ -0,0 +1,161 @@
+/**
+ * Backup and restore
+ * Archives are Postgres-only, so the suite runs only when TEST_DATABASE_URL
+ * names a scratch database, which it empties before each test.
+ */
+
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, before, beforeEach, describe, it } from 'node:test'
+
+const skip = process.env.TEST_DATABASE_URL ? false : 'set TEST_DATABASE_URL to run'
+
+describe('backup and restore', { skip }, () => {
+  let postgres: typeof import('./postgres.js')
+  let backup: typeof import('./backup.js')
+  let dir: string
+  let file: string
+
+  before(async () => {
+    // postgres.js reads DATABASE_URL when it is first loaded
+    process.env.DATABASE_URL = process.env.TEST_DATABASE_URL
+    const { migrateUp } = await import('./migrate.js')
+    await migrateUp()
+    postgres = await import('./postgres.js')
+    backup = await import('./backup.js')
+    dir = mkdtempSync(join(tmpdir(), 'think-tracker-backup-'))
+  })
+
+  beforeEach(async () => {
+    await postgres.pool.query(
+      'TRUNCATE sessions, events, api_keys, users, workspaces, daily_stats_rollup CASCADE'
+    )
+    file = join(dir, `${Date.now()}.ndjson.gz`)
+  })
+
+  after(async () => {
+    rmSync(dir, { recursive: true, force: true })
+    await postgres?.pool.end()
+  })
+
+  async function count(table: string): Promise<number> {
+    const result = await postgres.pool.query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM ${table}`
+    )
+    return Number(result.rows[0].count)
+  }
+
+  it('replaces the archived tables with the archive', async () => {
+    const session = await postgres.createSession({ name: 'Kept' })
+    await postgres.captureMessage({
+      session_id: session.id,
+      role: 'assistant',
+      content: 'answer',
+      thinking: 'reasoning'
+    })
+    await postgres.addTags({ session_id: session.id, message_id: null }, ['saved'])
+    const result = await backup.backupDatabase(file)
+    assert.equal(result.rows.messages, 1)
+
+    await postgres.deleteSession(session.id)
+    await postgres.createSession({ name: 'Added later' })
+
+    const restored = await backup.restoreDatabase(file, 'replace')
+    assert.equal(restored.inserted.sessions, 1)
+    const { sessions } = await postgres.listSessions()
+    assert.deepEqual(
+      sessions.map((s) => s.name),
+      ['Kept']
+    )
+    assert.equal(await count('thinking_blocks'), 1)
+    assert.equal(await count('tags'), 1)
+  })
+
+  it('merges workspaces and users into existing ones with the same name', async () => {
+    const workspace = await postgres.createWorkspace('Team')
+    const user = await postgres.createUser({ name: 'Ada', workspace_id: workspace.id })
+    const session = await postgres.createSession({
+      name: 'Owned',
+      user_id: user.id,
+      workspace_id: workspace.id,
+      visibility: 'workspace'
+    })
+    await backup.backupDatabase(file)
+
+    // Another machine with its own Team and Ada
+    await postgres.pool.query('TRUNCATE sessions, users, workspaces CASCADE')
+    const otherWorkspace = await postgres.createWorkspace('Team')
+    const otherUser = await postgres.createUser({ name: 'Ada', workspace_id: otherWorkspace.id })
+
+    const restored = await backup.restoreDatabase(file, 'merge')
+    assert.equal(restored.skipped.users, 1)
+    assert.equal(restored.skipped.workspaces, 1)
+    const stored = await postgres.getSession(session.id)
+    assert.equal(stored?.user_id, otherUser.id)
+    assert.equal(stored?.workspace_id, otherWorkspace.id)
+  })
+
+  it('skips archived rows that collide on unique keys other than the id', async () => {
+    const session = await postgres.createSession({ name: 'Source' })
+    const target = { session_id: session.id, message_id: null }
+    await postgres.addTags(target, ['retagged'])
+    await postgres.captureMessage({
+      session_id: session.id,
+      role: 'assistant',
+      content: 'first copy',
+      thinking: 'first thought',
+      external_id: 'msg-1'
+    })
+    await backup.backupDatabase(file)
+
+    // The tag and the message are stored again under new ids
+    await postgres.removeTags(target, ['retagged'])
+    await postgres.addTags(target, ['retagged'])
+    await postgres.deleteSessionMessages(session.id)
+    const { message } = await postgres.captureMessage({
+      session_id: session.id,
+      role: 'assistant',
+      content: 'second copy',
+      thinking: 'second thought',
+      external_id: 'msg-1'
+    })
+
+    const restored = await backup.restoreDatabase(file, 'merge')
+    assert.equal(restored.inserted.tags, 0)
+    assert.equal(restored.inserted.messages, 0)
+    assert.equal(restored.inserted.thinking_blocks, 0)
+    assert.equal(await count('tags'), 1)
+    const { messages } = await postgres.getSessionMessages(session.id)
+    assert.deepEqual(
+      messages.map((m) => m.id),
+      [message.id]
+    )
+  })
+
+  it('keeps the larger daily totals when merging the rollup', async () => {
+    await postgres.pool.query(
+      `INSERT INTO daily_stats_rollup (date, sessions, messages) VALUES
+         ('2025-01-01', 2, 10), ('2025-01-02', 1, 4)`
+    )
+    await backup.backupDatabase(file)
+    await postgres.pool.query(
+      `UPDATE daily_stats_rollup SET sessions = 5, messages = 3 WHERE date = '2025-01-01'`
+    )
+
+    await backup.restoreDatabase(file, 'merge')
+    await backup.restoreDatabase(file, 'merge')
+    const result = await postgres.pool.query<{ date: string; sessions: string; messages: string }>(
+      `SELECT to_char(date, 'YYYY-MM-DD') as date, sessions, messages
+       FROM daily_stats_rollup ORDER BY date`
+    )
+    assert.deepEqual(
+      result.rows.map((row) => [row.date, Number(row.sessions), Number(row.messages)]),
+      [
+        ['2025-01-01', 5, 10],
+        ['2025-01-02', 1, 4]
+      ]
+    )
+  })
+})
@@ -0,0 +1,316 @@
+/**
+ * Portable backup and restore
+ *
+ * Archives are NDJSON (gzip-compressed when the file name ends in .gz): a
+ * header line followed by one `{ "table", "row" }` line per row, parents
+ * before children. Rows are serialized with to_jsonb and restored with
+ * jsonb_populate_recordset, so ids, timestamps and JSONB columns round-trip
+ * unchanged and new columns are picked up without touching this file.
+ */
+
+import { createReadStream, createWriteStream } from 'fs'
+import { createGzip, createGunzip } from 'zlib'
+import { createInterface } from 'readline'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { PoolClient } from 'pg'
+import { pool } from './postgres.js'
+import { ValidationError } from '../utils/errors.js'
+import type {
+  BackupHeader,
+  BackupResult,
+  RestoreMode,
+  RestoreResult
+} from '../types/index.js'
+
+export const BACKUP_FORMAT_VERSION = 1
+
+/**
+ * Tables in dependency order; restore inserts in this order
+ */
+const BACKUP_TABLES = [
+  'workspaces',
+  'users',
+  'sessions',
+  'messages',
+  'thinking_blocks',
+  'tool_calls',
+  'tags',
+  'notes',
+  'bookmarks',
+  'daily_stats_rollup'
+] as const
+
+/**
+ * Tables a replace restore empties first, including the daily totals of
+ * purged sessions. Workspaces and users are only merged, since API keys
+ * (which are not backed up) belong to users.
+ */
+const REPLACED_TABLES = BACKUP_TABLES.filter((table) => table !== 'workspaces' && table !== 'users')
+
+/**
+ * Tables keyed by date rather than id. A merge keeps the larger of the
+ * existing and archived totals for a day, so restoring an archive into the
+ * database it came from does not count that day twice.
+ */
+const KEYED_BY_DATE = new Set<string>(['daily_stats_rollup'])
+
+/**
+ * Keys besides the id that identify a row. An archived row matching an
+ * existing one on these, under another id, is not inserted; rows that refer
+ * to it are pointed at the existing row instead (see REFERENCES).
+ */
+const NATURAL_KEYS: Record<string, string[]> = {
+  workspaces: ['name'],
+  users: ['name'],
+  messages: ['session_id', 'external_id']
+}
+
+/**
+ * Columns holding the id of a row in a table with natural keys
+ */
+const REFERENCES: Record<string, string> = {
+  workspace_id: 'workspaces',
+  user_id: 'users',
+  message_id: 'messages',
+  parent_message_id: 'messages'
+}
+
+const INSERT_BATCH_SIZE = 500
+const FETCH_BATCH_SIZE = 500
+
+function isGzip(file: string): boolean {
+  return file.endsWith('.gz')
+}
+
+function archiveOrder(table: string): string {
+  return KEYED_BY_DATE.has(table) ? 'date ASC' : 'created_at ASC, id ASC'
+}
+
+/**
+ * What a merge does with an archived row whose id, or any other unique key,
+ * already exists
+ */
+function conflictClause(table: string, columns: string[]): string {
+  if (!KEYED_BY_DATE.has(table)) return 'ON CONFLICT DO NOTHING'
+  const updates = columns
+    .filter((column) => column !== 'date')
+    .map((column) => `"${column}" = GREATEST(${table}."${column}", EXCLUDED."${column}")`)
+  return `ON CONFLICT (date) DO UPDATE SET ${updates.join(', ')}`
+}
+
+/**
+ * Writable (non-generated) columns of a table, which is what restore may insert
+ */
+async function getInsertableColumns(client: PoolClient, table: string): Promise<string[]> {
+  const result = await client.query<{ column_name: string }>(
+    `SELECT column_name FROM information_schema.columns
+     WHERE table_schema = current_schema() AND table_name = $1 AND is_generated = 'NEVER'
+     ORDER BY ordinal_position`,
+    [table]
+  )
+  return result.rows.map((row) => row.column_name)
+}
+
+/**
+ * Write every row of every backed-up table to an archive file. All tables are
+ * read in one repeatable-read transaction so the archive is a consistent snapshot.
+ */
+export async function backupDatabase(file: string): Promise<BackupResult> {
+  const rows: Record<string, number> = {}
+  const client = await pool.connect()
+
+  async function* lines(): AsyncGenerator<string> {
+    const header: BackupHeader = {
+      type: 'header',
+      format: 'think-tracker-backup',
+      version: BACKUP_FORMAT_VERSION,
+      created_at: new Date().toISOString(),
+      tables: [...BACKUP_TABLES]
+    }
+    yield JSON.stringify(header) + '\n'
+
+    for (const table of BACKUP_TABLES) {
+      rows[table] = 0
+      await client.query(
+        `DECLARE backup_${table} NO SCROLL CURSOR FOR
+         SELECT to_jsonb(t) - 'search_vector' as row FROM ${table} t ORDER BY ${archiveOrder(table)}`
+      )
+      while (true) {
+        const result = await client.query<{ row: Record<string, unknown> }>(
+          `FETCH ${FETCH_BATCH_SIZE} FROM backup_${table}`
+        )
+        for (const { row } of result.rows) {
+          yield JSON.stringify({ table, row }) + '\n'
+        }
+        rows[table] += result.rows.length
+        if (result.rows.length < FETCH_BATCH_SIZE) break
+      }
+    }
+  }
+
+  try {
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY')
+    const output = createWriteStream(file)
+    if (isGzip(file)) {
+      await pipeline(Readable.from(lines()), createGzip(), output)
+    } else {
+      await pipeline(Readable.from(lines()), output)
+    }
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+
+  return { file, rows }
+}
+
+async function* readArchive(file: string): AsyncGenerator<Record<string, unknown>> {
+  const input = isGzip(file) ? createReadStream(file).pipe(createGunzip()) : createReadStream(file)
+  const lines = createInterface({ input, crlfDelay: Infinity })
+  let lineNumber = 0
+  for await (const line of lines) {
+    lineNumber++
+    if (!line.trim()) continue
+    try {
+      yield JSON.parse(line)
+    } catch {
+      throw new ValidationError(`Invalid JSON on line ${lineNumber} of ${file}`)
+    }
+  }
+}
+
+function validateHeader(value: Record<string, unknown> | undefined): BackupHeader {
+  const header = value as BackupHeader | undefined
+  if (!header || header.type !== 'header' || header.format !== 'think-tracker-backup') {
+    throw new ValidationError('Not a think-tracker backup archive')
+  }
+  if (typeof header.version !== 'number' || header.version > BACKUP_FORMAT_VERSION) {
+    throw new ValidationError(
+      `Unsupported backup version ${header.version} (this build reads up to ${BACKUP_FORMAT_VERSION})`
+    )
+  }
+  return header
+}
+
+/**
+ * Existing rows that archived rows match on their natural keys, as a map
+ * from archived id to existing id
+ */
+async function matchExisting(
+  client: PoolClient,
+  table: string,
+  rows: Record<string, unknown>[]
+): Promise<Map<string, string>> {
+  const keys = NATURAL_KEYS[table]
+  if (!keys) return new Map()
+  const result = await client.query<{ archived_id: string; id: string }>(
+    `SELECT a.id as archived_id, t.id
+     FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb) a
+     JOIN ${table} t ON ${keys.map((key) => `t."${key}" = a."${key}"`).join(' AND ')}
+     WHERE t.id <> a.id`,
+    [JSON.stringify(rows)]
+  )
+  return new Map(result.rows.map((row) => [row.archived_id, row.id]))
+}
+
+/**
+ * Restore an archive in a single transaction.
+ * merge keeps existing rows and skips archived rows that collide with one on
+ * their id or another unique key; workspaces, users and messages matching an
+ * existing one by name or external id are merged into it (see NATURAL_KEYS),
+ * and daily totals are combined (see KEYED_BY_DATE). replace first empties
+ * the tables the archive holds, other than workspaces and users.
+ */
+export async function restoreDatabase(file: string, mode: RestoreMode): Promise<RestoreResult> {
+  const inserted: Record<string, number> = {}
+  const skipped: Record<string, number> = {}
+  const columns: Record<string, string[]> = {}
+  const batch: { table: string; rows: Record<string, unknown>[] } = { table: '', rows: [] }
+  // Archived ids of merged rows, by table, and the existing ids they map to
+  const merged: Record<string, Map<string, string>> = {}
+
+  const client = await pool.connect()
+
+  async function flush(): Promise<void> {
+    if (batch.rows.length === 0) return
+    const { table } = batch
+    const matches = await matchExisting(client, table, batch.rows)
+    merged[table] = new Map([...(merged[table] ?? []), ...matches])
+    const rows = batch.rows
+      .filter((row) => !matches.has(row.id as string))
+      .map((row) => {
+        const mapped = { ...row }
+        for (const [column, target] of Object.entries(REFERENCES)) {
+          const id = merged[target]?.get(mapped[column] as string)
+          if (id) mapped[column] = id
+        }
+        return mapped
+      })
+    skipped[table] = (skipped[table] ?? 0) + matches.size
+    batch.rows = []
+    if (rows.length === 0) return
+
+    const columnList = columns[table].map((column) => `"${column}"`).join(', ')
+    const result = await client.query(
+      `INSERT INTO ${table} (${columnList})
+       SELECT ${columnList} FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb)
+       ${conflictClause(table, columns[table])}`,
+      [JSON.stringify(rows)]
+    )
+    const count = result.rowCount ?? 0
+    inserted[table] = (inserted[table] ?? 0) + count
+    skipped[table] = (skipped[table] ?? 0) + rows.length - count
+  }
+
+  try {
+    await client.query('BEGIN')
+
+    for (const table of BACKUP_TABLES) {
+      columns[table] = await getInsertableColumns(client, table)
+      inserted[table] = 0
+      skipped[table] = 0
+    }
+
+    let header: BackupHeader | null = null
+    for await (const line of readArchive(file)) {
+      if (!header) {
+        header = validateHeader(line)
+        if (mode === 'replace') {
+          // Archives written before a table was backed up leave it untouched
+          const archived = new Set<string>(header.tables)
+          const tables = REPLACED_TABLES.filter((table) => archived.has(table))
+          if (tables.length > 0) {
+            await client.query(`TRUNCATE ${tables.reverse().join(', ')} CASCADE`)
+          }
+        }
+        continue
+      }
+
+      const table = line.table as string
+      if (!(BACKUP_TABLES as readonly string[]).includes(table)) {
+        throw new ValidationError(`Unknown table '${table}' in backup archive`)
+      }
+      if (table !== batch.table || batch.rows.length >= INSERT_BATCH_SIZE) {
+        await flush()
+        batch.table = table
+      }
+      batch.rows.push(line.row as Record<string, unknown>)
+    }
+    await flush()
+
+    if (!header) throw new ValidationError('Backup archive is empty')
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+
+  return { file, mode, inserted, skipped }
+}
@@ -0,0 +1,14 @@
+/**
+ * Storage change events
+ * The facade emits these after a write commits, so background work can react
+ * without adding latency to the write itself. Listeners must not throw.
+ */
+
+import { EventEmitter } from 'events'
+import type { Message } from '../types/index.js'
+
+interface StorageEventMap {
+  'message-captured': [message: Message]
+}
+
+export const storageEvents = new EventEmitter<StorageEventMap>()
@@ -1,49 +1,154 @@
-import pg from 'pg'
-import { readFileSync } from 'fs'
-import { fileURLToPath } from 'url'
-import { dirname, join } from 'path'
+/**
+ * Storage facade
+ * Selects the backend from the environment and re-exports its operations:
+ *   STORAGE_BACKEND=postgres|sqlite (default: sqlite when SQLITE_PATH is set, else postgres)
+ *   DATABASE_URL   Postgres connection string
+ *   SQLITE_PATH    SQLite database file
+ */
+
+import { postgresStorage } from './postgres.js'
+import { summarizeCost, withMessageCost } from '../pricing/index.js'
+import { redactCaptureInput } from '../redaction/index.js'
+import {
+  SESSION_VISIBILITIES,
+  VALIDATION,
+  isValidSessionVisibility,
+  type CostGroupBy
+} from '../utils/constants.js'
+import {
+  AppError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  formatErrorMessage
+} from '../utils/errors.js'
+import {
+  isValidUUID,
+  parseTimestamp,
+  validateMessageInput,
+  validateNoteContent,
+  validateSessionName,
+  validateTags,
+  validateTimeRange
+} from '../utils/validation.js'
+import { parseSearchQuery } from '../search/query.js'
+import { storageEvents } from './events.js'
+import { canEdit, canView } from './visibility.js'
+import { buildMessageTree, findBranchLeaf } from './tree.js'
+import type { Storage, StorageBackend } from './storage.js'
 import type {
-  Session,
-  Message,
-  SearchResult,
-  SessionStats,
-  DailyStats,
-  ToolUsageStats,
+  BatchCaptureItem,
+  BatchCaptureResult,
   CaptureMessageInput,
-  CreateSessionInput
+  CapturedMessage,
+  CreateSessionInput,
+  UpdateSessionInput,
+  MessageSearchOptions,
+  ThinkingBlockSearchOptions,
+  ToolCallFilter,
+  ToolTrendFilter,
+  SessionListFilter,
+  AnnotationRef,
+  AnnotationTarget,
+  Message,
+  MessageBranchSelector,
+  StreamEventInput,
+  CostSummary,
+  Session,
+  Viewer,
+  CreateUserInput,
+  TranscriptMessage
 } from '../types/index.js'
 
-const { Pool } = pg
+export type { Storage, StorageBackend } from './storage.js'
+export { storageEvents } from './events.js'
 
-const __filename = fileURLToPath(import.meta.url)
-const __dirname = dirname(__filename)
+const DEFAULT_SQLITE_PATH = 'think-tracker.db'
 
-// Database connection pool
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL || '',
-  max: 20,
-  idleTimeoutMillis: 30000,
-  connectionTimeoutMillis: 2000
-})
+let storagePromise: Promise<Storage> | null = null
 
-// Test connection
-pool.on('error', (err: Error) => {
-  console.error('Unexpected error on idle client', err)
-})
+export function getStorageBackend(): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND
+  if (backend === 'postgres' || backend === 'sqlite') return backend
+  if (backend) {
+    throw new Error(`Unknown STORAGE_BACKEND '${backend}'. Must be: postgres, sqlite`)
+  }
+  return process.env.SQLITE_PATH ? 'sqlite' : 'postgres'
+}
 
 /**
- * Initialize database schema
+ * Resolves the configured backend, opening it on first use. The SQLite
+ * module is loaded lazily so Postgres deployments do not need it installed.
  */
-export async function initializeDatabase(): Promise<void> {
-  const schemaPath = join(__dirname, 'schema.sql')
-  const schema = readFileSync(schemaPath, 'utf-8')
+export function getStorage(): Promise<Storage> {
+  if (!storagePromise) {
+    storagePromise = (async () => {
+      if (getStorageBackend() === 'postgres') return postgresStorage
+      const { openSqliteStorage } = await import('./sqlite.js')
+      return openSqliteStorage(process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH)
+    })()
+  }
+  return storagePromise
+}
+
+export async function closeStorage(): Promise<void> {
+  const storage = await getStorage()
+  storagePromise = null
+  await storage.close()
+}
 
-  const client = await pool.connect()
+/**
+ * Appends a stream event after a write has committed. Streams are best
+ * effort, so a failure is logged rather than failing the write.
+ */
+async function recordEvent(storage: Storage, input: StreamEventInput): Promise<void> {
   try {
-    await client.query(schema)
-    console.log('Database schema initialized successfully')
-  } finally {
-    client.release()
+    await storage.appendEvent(input)
+  } catch (error) {
+    console.error(`Failed to record ${input.type} event:`, formatErrorMessage(error))
+  }
+}
+
+// =============================================================================
+// Visibility
+// =============================================================================
+
+/**
+ * The session when it exists and the viewer may see it. Sessions a viewer
+ * cannot see are reported as missing rather than forbidden, so their ids
+ * reveal nothing.
+ */
+async function visibleSession(
+  storage: Storage,
+  id: string,
+  viewer?: Viewer
+): Promise<Session | null> {
+  const session = await storage.getSession(id)
+  return session && canView(session, viewer) ? session : null
+}
+
+/**
+ * Like visibleSession, but throws ForbiddenError when the viewer can see the
+ * session without owning it
+ */
+async function editableSession(
+  storage: Storage,
+  id: string,
+  viewer?: Viewer
+): Promise<Session | null> {
+  const session = await visibleSession(storage, id, viewer)
+  if (session && !canEdit(session, viewer)) {
+    throw new ForbiddenError('Only the owner of this session can change it')
+  }
+  return session
+}
+
+function checkVisibility(visibility: string, owned: boolean): void {
+  if (!isValidSessionVisibility(visibility)) {
+    throw new ValidationError(`Invalid visibility. Must be: ${SESSION_VISIBILITIES.join(', ')}`)
+  }
+  if (visibility !== 'public' && !owned) {
+    throw new ValidationError(`Only sessions with an owner can be ${visibility}`)
   }
 }
 
@@ -51,317 +156,602 @@ export async function initializeDatabase(): Promise<void> {
 // Session Operations
 // =============================================================================
 
-export async function createSession(input: CreateSessionInput): Promise<Session> {
-  const { name, project_path, metadata } = input
+/**
+ * Creates a session owned by the viewer. Unrestricted callers may set the
+ * owner on the input instead. Owned sessions default to workspace
+ * visibility, unowned ones to public. A sub-session's parent must be a
+ * session the viewer may change.
+ */
+export async function createSession(input: CreateSessionInput, viewer?: Viewer) {
+  const owner = viewer ?? {
+    user_id: input.user_id ?? null,
+    workspace_id: input.workspace_id ?? null
+  }
+  const visibility = input.visibility ?? (owner.user_id ? 'workspace' : 'public')
+  checkVisibility(visibility, !!owner.user_id)
+  validateTimeRange(input.started_at, input.ended_at)
+
+  const storage = await getStorage()
+  const parentId = input.parent_session_id
+  if (parentId && !(await editableSession(storage, parentId, viewer))) {
+    throw new NotFoundError('Session', parentId)
+  }
+  const session = await storage.createSession({ ...input, ...owner, visibility })
+  await recordEvent(storage, { type: 'session-created', session_id: session.id, message_id: null })
+  return session
+}
 
-  const result = await pool.query<Session>(
-    `INSERT INTO sessions (name, project_path, metadata)
-     VALUES ($1, $2, $3)
-     RETURNING *`,
-    [name, project_path || null, JSON.stringify(metadata || {})]
-  )
+export async function getSession(id: string, viewer?: Viewer) {
+  return visibleSession(await getStorage(), id, viewer)
+}
+
+export async function listSessions(limit?: number, offset?: number, filter?: SessionListFilter) {
+  return (await getStorage()).listSessions(limit, offset, filter)
+}
 
-  return result.rows[0]
+/**
+ * The session imported from the source for the owner; sessions of other
+ * users are never matched
+ */
+export async function findSessionBySource(source: string, externalId: string, owner?: Viewer) {
+  return (await getStorage()).findSessionBySource(source, externalId, owner?.user_id ?? null)
 }
 
-export async function getSession(id: string): Promise<Session | null> {
-  const result = await pool.query<Session>('SELECT * FROM sessions WHERE id = $1', [id])
-  return result.rows[0] || null
+/**
+ * Changes the given fields; metadata is applied as a JSON merge patch, so
+ * keys set to null are removed and other stored keys are kept
+ */
+export async function updateSession(id: string, input: UpdateSessionInput, viewer?: Viewer) {
+  if (input.name !== undefined) validateSessionName(input.name)
+  const storage = await getStorage()
+  const session = await editableSession(storage, id, viewer)
+  if (!session) return null
+  if (input.visibility !== undefined) checkVisibility(input.visibility, !!session.user_id)
+  validateTimeRange(input.started_at ?? session.started_at, input.ended_at ?? session.ended_at)
+  return storage.updateSession(id, input)
 }
 
-export async function listSessions(
-  limit: number = 50,
-  offset: number = 0
-): Promise<{ sessions: Session[]; total: number }> {
-  const countResult = await pool.query<{ count: string }>(
-    'SELECT COUNT(*) as count FROM sessions'
-  )
-  const total = parseInt(countResult.rows[0].count, 10)
+/**
+ * Moves every message of the source sessions, with their thinking, tool
+ * calls and annotations, into the target and deletes the sources. The target
+ * spans all of them and records their ids in metadata.merged_from.
+ */
+export async function mergeSessions(targetId: string, sourceIds: unknown, viewer?: Viewer) {
+  if (
+    !Array.isArray(sourceIds) ||
+    sourceIds.length === 0 ||
+    !sourceIds.every((id) => typeof id === 'string' && isValidUUID(id))
+  ) {
+    throw new ValidationError('source_ids must be a non-empty array of session ids')
+  }
+  const sources = [...new Set(sourceIds as string[])]
+  if (sources.includes(targetId)) {
+    throw new ValidationError('A session cannot be merged into itself')
+  }
 
-  const result = await pool.query<Session>(
-    `SELECT * FROM session_stats
-     ORDER BY started_at DESC
-     LIMIT $1 OFFSET $2`,
-    [limit, offset]
-  )
+  const storage = await getStorage()
+  for (const id of [targetId, ...sources]) {
+    if (!(await editableSession(storage, id, viewer))) throw new NotFoundError('Session', id)
+  }
 
-  return { sessions: result.rows, total }
+  // Sub-sessions of the sources move to the target, which must not be one of them
+  let ancestor = (await storage.getSession(targetId))?.parent_session_id
+  while (ancestor) {
+    if (sources.includes(ancestor)) {
+      throw new ValidationError('A session cannot be merged into one of its sub-sessions')
+    }
+    ancestor = (await storage.getSession(ancestor))?.parent_session_id
+  }
+  return storage.mergeSessions(targetId, sources)
 }
 
-export async function endSession(id: string): Promise<Session | null> {
-  const result = await pool.query<Session>(
-    `UPDATE sessions
-     SET ended_at = NOW()
-     WHERE id = $1
-     RETURNING *`,
-    [id]
-  )
-  return result.rows[0] || null
+/**
+ * Moves the given message and every later one into a new session, which
+ * takes over the original's end time; the original then ends at its last
+ * remaining message. Returns the new session.
+ */
+export async function splitSession(
+  id: string,
+  messageId: string,
+  options: { name?: string } = {},
+  viewer?: Viewer
+) {
+  if (options.name !== undefined) validateSessionName(options.name)
+  const storage = await getStorage()
+  const session = await editableSession(storage, id, viewer)
+  if (!session) return null
+
+  const message = await storage.getMessage(messageId)
+  if (!message || message.session_id !== id) throw new NotFoundError('Message', messageId)
+  const { messages } = await storage.getSessionMessages(id, 1, 0)
+  if (messages[0]?.id === messageId) {
+    throw new ValidationError('Cannot split a session at its first message')
+  }
+
+  const split = await storage.splitSession(id, messageId, {
+    name: options.name ?? `${session.name} (split)`.slice(0, VALIDATION.SESSION_NAME_MAX_LENGTH),
+    project_path: session.project_path ?? undefined,
+    metadata: { split_from: id },
+    ended_at: session.ended_at ?? undefined,
+    user_id: session.user_id,
+    workspace_id: session.workspace_id,
+    visibility: session.visibility,
+    parent_session_id: session.parent_session_id
+  })
+  if (split) {
+    await recordEvent(storage, { type: 'session-created', session_id: split.id, message_id: null })
+  }
+  return split
 }
 
-export async function deleteSession(id: string): Promise<boolean> {
-  const result = await pool.query('DELETE FROM sessions WHERE id = $1', [id])
-  return (result.rowCount ?? 0) > 0
+/**
+ * Ends a session now, or at endedAt for a client reporting it late
+ */
+export async function endSession(id: string, viewer?: Viewer, endedAt?: Date) {
+  const storage = await getStorage()
+  if (viewer || endedAt) {
+    const existing = await editableSession(storage, id, viewer)
+    if (!existing) return null
+    validateTimeRange(existing.started_at, endedAt)
+  }
+  const session = await storage.endSession(id, endedAt)
+  if (session) {
+    await recordEvent(storage, { type: 'session-ended', session_id: session.id, message_id: null })
+  }
+  return session
+}
+
+export async function deleteSession(id: string, viewer?: Viewer) {
+  const storage = await getStorage()
+  if (viewer && !(await editableSession(storage, id, viewer))) return false
+  return storage.deleteSession(id)
 }
 
 // =============================================================================
 // Message Operations
 // =============================================================================
 
-export async function captureMessage(input: CaptureMessageInput): Promise<Message> {
-  const {
-    session_id,
-    role,
-    content,
-    thinking_content,
-    thinking_text,
-    thinking,
-    thoughts,
-    thinking_tokens,
-    thinking_token_count,
-    thoughts_token_count,
-    model,
-    input_tokens,
-    output_tokens,
-    tool_calls
-  } = input
-  const normalizeThinkingContent = (
-    value: string | string[] | null | undefined
-  ): string | null => {
-    if (!value) return null
-    return Array.isArray(value) ? value.filter(Boolean).join('\n') : value
-  }
-  const normalizedThinkingContent = normalizeThinkingContent(
-    thinking_content ?? thinking_text ?? thinking ?? thoughts ?? null
-  )
-  const normalizedThinkingTokens =
-    thinking_tokens ?? thinking_token_count ?? thoughts_token_count ?? 0
-
-  const result = await pool.query<Message>(
-    `INSERT INTO messages (
-      session_id, role, content, thinking_content, thinking_tokens,
-      model, input_tokens, output_tokens, tool_calls
-    )
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-     RETURNING *`,
-    [
-      session_id,
-      role,
-      content,
-      normalizedThinkingContent,
-      normalizedThinkingTokens,
-      model || null,
-      input_tokens || 0,
-      output_tokens || 0,
-      JSON.stringify(tool_calls || [])
-    ]
+/**
+ * Throws unless the viewer may add the message to its session and an explicit
+ * parent is in that same session
+ */
+async function checkCaptureTarget(
+  storage: Storage,
+  input: CaptureMessageInput,
+  viewer?: Viewer
+): Promise<void> {
+  if (!(await editableSession(storage, input.session_id, viewer))) {
+    throw new NotFoundError('Session', input.session_id)
+  }
+  if (input.parent_message_id) {
+    const parent = await storage.getMessage(input.parent_message_id)
+    if (!parent || parent.session_id !== input.session_id) {
+      throw new ValidationError('parent_message_id must be a message in the same session')
+    }
+  }
+}
+
+/**
+ * The input with its event time resolved from the client's timestamp. A
+ * created_at is only kept from trusted callers, such as importers, which pass
+ * a Date that a JSON body cannot.
+ */
+function withEventTime(input: CaptureMessageInput): CaptureMessageInput {
+  const { timestamp, ...rest } = input
+  return {
+    ...rest,
+    created_at:
+      parseTimestamp(timestamp, 'timestamp') ??
+      (input.created_at instanceof Date ? input.created_at : undefined)
+  }
+}
+
+async function announceCapture(storage: Storage, message: Message): Promise<void> {
+  storageEvents.emit('message-captured', message)
+  await recordEvent(storage, {
+    type: 'message-captured',
+    session_id: message.session_id,
+    message_id: message.id
+  })
+}
+
+/**
+ * Captures a message. When its external_id is already stored in the session,
+ * the stored message is returned with created false and nothing is written.
+ */
+export async function captureMessage(
+  input: CaptureMessageInput,
+  viewer?: Viewer
+): Promise<CapturedMessage> {
+  const storage = await getStorage()
+  await checkCaptureTarget(storage, input, viewer)
+  const captured = await storage.captureMessage(redactCaptureInput(withEventTime(input)))
+  if (captured.created) await announceCapture(storage, captured.message)
+  return captured
+}
+
+/**
+ * Captures many messages, in order, in one transaction. Items that fail
+ * validation are reported by their index and the rest are still stored.
+ */
+export async function captureMessages(
+  items: unknown,
+  viewer?: Viewer
+): Promise<BatchCaptureResult> {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ValidationError('messages must be a non-empty array')
+  }
+  if (items.length > VALIDATION.MAX_CAPTURE_BATCH) {
+    throw new ValidationError(`At most ${VALIDATION.MAX_CAPTURE_BATCH} messages per batch`)
+  }
+
+  const storage = await getStorage()
+  const results: BatchCaptureItem[] = []
+  const accepted: { index: number; input: CaptureMessageInput }[] = []
+  for (const [index, item] of items.entries()) {
+    try {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        throw new ValidationError('message must be an object')
+      }
+      const input = withEventTime(item as CaptureMessageInput)
+      validateMessageInput(input)
+      await checkCaptureTarget(storage, input, viewer)
+      accepted.push({ index, input })
+    } catch (error) {
+      if (!(error instanceof AppError)) throw error
+      results[index] = { index, status: 'invalid', error: error.message }
+    }
+  }
+
+  const captured = await storage.captureMessages(
+    accepted.map(({ input }) => redactCaptureInput(input))
   )
+  for (const [position, { message, created }] of captured.entries()) {
+    const { index } = accepted[position]
+    results[index] = { index, status: created ? 'created' : 'existing', message_id: message.id }
+    if (created) await announceCapture(storage, message)
+  }
 
-  return result.rows[0]
+  const count = (status: BatchCaptureItem['status']) =>
+    results.filter((item) => item.status === status).length
+  return {
+    created: count('created'),
+    existing: count('existing'),
+    invalid: count('invalid'),
+    items: results
+  }
+}
+
+export async function deleteSessionMessages(sessionId: string) {
+  return (await getStorage()).deleteSessionMessages(sessionId)
+}
+
+/**
+ * Replaces every message of a session in one transaction, as a re-import
+ * does, so a failure part way leaves the old messages in place
+ */
+export async function replaceSessionMessages(sessionId: string, messages: TranscriptMessage[]) {
+  const storage = await getStorage()
+  const stored = await storage.replaceSessionMessages(
+    sessionId,
+    messages.map(({ parent, ...message }) => ({
+      ...redactCaptureInput(withEventTime({ ...message, session_id: sessionId })),
+      parent
+    }))
+  )
+  for (const message of stored) await announceCapture(storage, message)
+  return stored
 }
 
-export async function getMessage(id: string): Promise<Message | null> {
-  const result = await pool.query<Message>('SELECT * FROM messages WHERE id = $1', [id])
-  return result.rows[0] || null
+export async function getMessage(id: string, viewer?: Viewer) {
+  const storage = await getStorage()
+  const message = await storage.getMessage(id)
+  if (!message) return null
+  if (viewer && !(await visibleSession(storage, message.session_id, viewer))) return null
+  return withMessageCost(message)
 }
 
+/**
+ * Messages of a session, oldest first, or of one branch when selected; a
+ * session the viewer cannot see has none, as with an unknown id
+ */
 export async function getSessionMessages(
   sessionId: string,
-  limit: number = 100,
-  offset: number = 0
-): Promise<{ messages: Message[]; total: number }> {
-  const countResult = await pool.query<{ count: string }>(
-    'SELECT COUNT(*) as count FROM messages WHERE session_id = $1',
-    [sessionId]
-  )
-  const total = parseInt(countResult.rows[0].count, 10)
-
-  const result = await pool.query<Message>(
-    `SELECT * FROM messages
-     WHERE session_id = $1
-     ORDER BY created_at ASC
-     LIMIT $2 OFFSET $3`,
-    [sessionId, limit, offset]
-  )
+  limit?: number,
+  offset?: number,
+  viewer?: Viewer,
+  branch: MessageBranchSelector = {}
+) {
+  const storage = await getStorage()
+  if (viewer && !(await visibleSession(storage, sessionId, viewer))) {
+    return { messages: [], total: 0 }
+  }
+
+  let leafId = branch.leaf_message_id
+  if (leafId) {
+    const leaf = await storage.getMessage(leafId)
+    if (!leaf || leaf.session_id !== sessionId) throw new NotFoundError('Message', leafId)
+  } else if (branch.branch_id) {
+    leafId = findBranchLeaf(await storage.getMessageLinks(sessionId), branch.branch_id) ?? undefined
+    if (!leafId) throw new NotFoundError('Branch', branch.branch_id)
+  }
 
-  return { messages: result.rows, total }
+  const result = await storage.getSessionMessages(sessionId, limit, offset, leafId)
+  return { ...result, messages: result.messages.map(withMessageCost) }
+}
+
+/**
+ * How the session's messages branch; null when the viewer cannot see it
+ */
+export async function getMessageTree(sessionId: string, viewer?: Viewer) {
+  const storage = await getStorage()
+  if (!(await visibleSession(storage, sessionId, viewer))) return null
+  return buildMessageTree(sessionId, await storage.getMessageLinks(sessionId))
+}
+
+export async function* streamSessionMessages(sessionId: string): AsyncGenerator<Message> {
+  for await (const message of (await getStorage()).streamSessionMessages(sessionId)) {
+    yield withMessageCost(message)
+  }
 }
 
 // =============================================================================
-// Search Operations (Full-Text Search)
+// Search Operations
 // =============================================================================
 
-export async function searchMessages(
-  query: string,
-  options: {
-    sessionId?: string
-    role?: string
-    limit?: number
-    offset?: number
-    searchThinking?: boolean
-  } = {}
-): Promise<{ results: SearchResult[]; total: number }> {
-  const { sessionId, role, limit = 50, offset = 0, searchThinking = true } = options
-
-  // Build the search query
-  const conditions: string[] = ["search_vector @@ plainto_tsquery('english', $1)"]
-  const params: (string | number)[] = [query]
-  let paramIndex = 2
-
-  if (sessionId) {
-    conditions.push(`m.session_id = $${paramIndex}`)
-    params.push(sessionId)
-    paramIndex++
-  }
-
-  if (role) {
-    conditions.push(`m.role = $${paramIndex}`)
-    params.push(role)
-    paramIndex++
-  }
-
-  const whereClause = conditions.join(' AND ')
-
-  // Count total results
-  const countResult = await pool.query<{ count: string }>(
-    `SELECT COUNT(*) as count
-     FROM messages m
-     JOIN sessions s ON m.session_id = s.id
-     WHERE ${whereClause}`,
-    params
-  )
-  const total = parseInt(countResult.rows[0].count, 10)
-
-  // Get results with ranking
-  params.push(limit, offset)
-  const result = await pool.query<SearchResult>(
-    `SELECT
-       m.id,
-       m.session_id,
-       s.name as session_name,
-       m.role,
-       ts_headline('english', m.content, plainto_tsquery('english', $1),
-         'MaxWords=50, MinWords=20, StartSel=<mark>, StopSel=</mark>') as content_snippet,
-       ${
-         searchThinking
-           ? `ts_headline('english', COALESCE(m.thinking_content, ''), plainto_tsquery('english', $1),
-         'MaxWords=50, MinWords=20, StartSel=<mark>, StopSel=</mark>') as thinking_snippet,`
-           : 'NULL as thinking_snippet,'
-       }
-       m.created_at,
-       ts_rank(m.search_vector, plainto_tsquery('english', $1)) as rank
-     FROM messages m
-     JOIN sessions s ON m.session_id = s.id
-     WHERE ${whereClause}
-     ORDER BY rank DESC, m.created_at DESC
-     LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-    params
-  )
+/**
+ * Full-text search using the query language in search/query.ts; throws
+ * ValidationError for malformed queries
+ */
+export async function searchMessages(query: string, options?: MessageSearchOptions) {
+  const parsed = parseSearchQuery(query)
+  return (await getStorage()).searchMessages(parsed, options)
+}
 
-  return { results: result.rows, total }
+// =============================================================================
+// Thinking Block Operations
+// =============================================================================
+
+export async function getThinkingBlocks(messageId: string, viewer?: Viewer) {
+  if (viewer && !(await getMessage(messageId, viewer))) return []
+  return (await getStorage()).getThinkingBlocks(messageId)
+}
+
+export async function getThinkingBlock(id: string, viewer?: Viewer) {
+  const storage = await getStorage()
+  const block = await storage.getThinkingBlock(id)
+  if (!block) return null
+  if (viewer && !(await visibleSession(storage, block.session_id, viewer))) return null
+  return block
+}
+
+export async function searchThinkingBlocks(query: string, options?: ThinkingBlockSearchOptions) {
+  return (await getStorage()).searchThinkingBlocks(query, options)
 }
 
 // =============================================================================
-// Analytics Operations
+// Tool Call Operations
 // =============================================================================
 
-export async function getOverallStats(): Promise<SessionStats> {
-  const result = await pool.query<{
-    total_sessions: string
-    total_messages: string
-    total_thinking_tokens: string
-    total_input_tokens: string
-    total_output_tokens: string
-    avg_thinking_tokens_per_message: string
-  }>(`
-    SELECT
-      (SELECT COUNT(*) FROM sessions) as total_sessions,
-      (SELECT COUNT(*) FROM messages) as total_messages,
-      COALESCE(SUM(thinking_tokens), 0) as total_thinking_tokens,
-      COALESCE(SUM(input_tokens), 0) as total_input_tokens,
-      COALESCE(SUM(output_tokens), 0) as total_output_tokens,
-      COALESCE(AVG(thinking_tokens) FILTER (WHERE thinking_tokens > 0), 0) as avg_thinking_tokens_per_message
-    FROM messages
-  `)
-
-  const row = result.rows[0]
-  return {
-    total_sessions: parseInt(row.total_sessions, 10),
-    total_messages: parseInt(row.total_messages, 10),
-    total_thinking_tokens: parseInt(row.total_thinking_tokens, 10),
-    total_input_tokens: parseInt(row.total_input_tokens, 10),
-    total_output_tokens: parseInt(row.total_output_tokens, 10),
-    avg_thinking_tokens_per_message: parseFloat(row.avg_thinking_tokens_per_message)
+export async function listToolCalls(filter?: ToolCallFilter) {
+  return (await getStorage()).listToolCalls(filter)
+}
+
+export async function getToolCall(id: string, viewer?: Viewer) {
+  const storage = await getStorage()
+  const toolCall = await storage.getToolCall(id)
+  if (!toolCall) return null
+  if (viewer && !(await visibleSession(storage, toolCall.session_id, viewer))) return null
+  return toolCall
+}
+
+// =============================================================================
+// Annotation Operations
+// =============================================================================
+
+/**
+ * Resolves a session or message reference, checking that it exists, that
+ * the viewer can see it and that a message belongs to the session when both
+ * are given. Anyone who can see a session may annotate it.
+ */
+async function resolveTarget(ref: AnnotationRef, viewer?: Viewer): Promise<AnnotationTarget> {
+  const storage = await getStorage()
+
+  if (ref.message_id) {
+    const message = await storage.getMessage(ref.message_id)
+    if (!message || !(await visibleSession(storage, message.session_id, viewer))) {
+      throw new NotFoundError('Message', ref.message_id)
+    }
+    if (ref.session_id && ref.session_id !== message.session_id) {
+      throw new ValidationError('Message does not belong to the given session')
+    }
+    return { session_id: message.session_id, message_id: message.id }
+  }
+
+  if (ref.session_id) {
+    const session = await visibleSession(storage, ref.session_id, viewer)
+    if (!session) throw new NotFoundError('Session', ref.session_id)
+    return { session_id: session.id, message_id: null }
   }
+
+  throw new ValidationError('session_id or message_id is required')
 }
 
-export async function getDailyStats(days: number = 30): Promise<DailyStats[]> {
-  const result = await pool.query<DailyStats>(
-    `SELECT * FROM daily_stats
-     WHERE date >= CURRENT_DATE - $1::interval
-     ORDER BY date DESC`,
-    [`${days} days`]
-  )
-  return result.rows
-}
-
-export async function getToolUsageStats(): Promise<ToolUsageStats[]> {
-  const result = await pool.query<ToolUsageStats>(`
-    SELECT
-      tool_call->>'name' as tool_name,
-      COUNT(*) as call_count,
-      AVG((tool_call->>'duration_ms')::numeric) as avg_duration_ms,
-      COUNT(*) FILTER (WHERE tool_call->>'error' IS NOT NULL) as error_count
-    FROM messages,
-         jsonb_array_elements(tool_calls) as tool_call
-    GROUP BY tool_call->>'name'
-    ORDER BY call_count DESC
-  `)
-  return result.rows
-}
-
-export async function getSessionStats(sessionId: string): Promise<{
-  message_count: number
-  thinking_tokens: number
-  input_tokens: number
-  output_tokens: number
-  tool_calls: number
-  duration_minutes: number
-} | null> {
-  const result = await pool.query<{
-    message_count: string
-    thinking_tokens: string
-    input_tokens: string
-    output_tokens: string
-    tool_calls: string
-    duration_minutes: string
-  }>(
-    `
-    SELECT
-      COUNT(*) as message_count,
-      COALESCE(SUM(thinking_tokens), 0) as thinking_tokens,
-      COALESCE(SUM(input_tokens), 0) as input_tokens,
-      COALESCE(SUM(output_tokens), 0) as output_tokens,
-      COALESCE(SUM(jsonb_array_length(tool_calls)), 0) as tool_calls,
-      EXTRACT(EPOCH FROM (MAX(created_at) - MIN(created_at))) / 60 as duration_minutes
-    FROM messages
-    WHERE session_id = $1
-  `,
-    [sessionId]
-  )
+export async function getAnnotations(ref: AnnotationRef, viewer?: Viewer) {
+  const target = await resolveTarget(ref, viewer)
+  return (await getStorage()).getAnnotations(target, viewer?.user_id ?? null)
+}
+
+export async function addTags(ref: AnnotationRef, tags: unknown, viewer?: Viewer) {
+  const valid = validateTags(tags)
+  return (await getStorage()).addTags(await resolveTarget(ref, viewer), valid)
+}
+
+export async function removeTags(ref: AnnotationRef, tags: unknown, viewer?: Viewer) {
+  const valid = validateTags(tags)
+  return (await getStorage()).removeTags(await resolveTarget(ref, viewer), valid)
+}
+
+export async function addNote(ref: AnnotationRef, content: unknown, viewer?: Viewer) {
+  const valid = validateNoteContent(content)
+  const target = await resolveTarget(ref, viewer)
+  return (await getStorage()).addNote(target, valid, viewer?.user_id ?? null)
+}
 
-  if (result.rows.length === 0) return null
+/**
+ * Whether a note exists on a session the viewer can see. Throws
+ * ForbiddenError when it has an author other than the viewer; notes without
+ * one can be changed by anyone who sees them, as sessions without an owner can.
+ */
+async function isNoteEditable(storage: Storage, id: string, viewer?: Viewer): Promise<boolean> {
+  if (!viewer) return true
+  const note = await storage.getNote(id)
+  if (!note || !(await visibleSession(storage, note.session_id, viewer))) return false
+  if (note.user_id && note.user_id !== viewer.user_id) {
+    throw new ForbiddenError('Only the author of this note can change it')
+  }
+  return true
+}
+
+export async function updateNote(id: string, content: unknown, viewer?: Viewer) {
+  const valid = validateNoteContent(content)
+  const storage = await getStorage()
+  if (!(await isNoteEditable(storage, id, viewer))) return null
+  return storage.updateNote(id, valid)
+}
 
-  const row = result.rows[0]
+export async function deleteNote(id: string, viewer?: Viewer) {
+  const storage = await getStorage()
+  if (!(await isNoteEditable(storage, id, viewer))) return false
+  return storage.deleteNote(id)
+}
+
+/**
+ * Bookmarks are the viewer's own, so bookmarking a shared session affects
+ * no one else
+ */
+export async function setBookmark(ref: AnnotationRef, bookmarked: boolean, viewer?: Viewer) {
+  const target = await resolveTarget(ref, viewer)
+  return (await getStorage()).setBookmark(target, bookmarked, viewer?.user_id ?? null)
+}
+
+export async function listBookmarks(limit?: number, offset?: number, viewer?: Viewer) {
+  return (await getStorage()).listBookmarks(limit, offset, viewer)
+}
+
+// =============================================================================
+// Workspace and User Operations
+// =============================================================================
+
+function validateName(kind: string, name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : ''
+  if (!trimmed || trimmed.length > 255) {
+    throw new ValidationError(`${kind} name must be between 1 and 255 characters`)
+  }
+  return trimmed
+}
+
+export async function createWorkspace(name: unknown) {
+  return (await getStorage()).createWorkspace(validateName('Workspace', name))
+}
+
+export async function listWorkspaces() {
+  return (await getStorage()).listWorkspaces()
+}
+
+export async function findWorkspaceByName(name: string) {
+  const workspaces = await listWorkspaces()
+  return workspaces.find((workspace) => workspace.name === name) ?? null
+}
+
+export async function createUser(input: CreateUserInput) {
+  const name = validateName('User', input.name)
+  return (await getStorage()).createUser({ ...input, name })
+}
+
+export async function getUser(id: string) {
+  return (await getStorage()).getUser(id)
+}
+
+export async function listUsers() {
+  return (await getStorage()).listUsers()
+}
+
+export async function findUserByName(name: string) {
+  const users = await listUsers()
+  return users.find((user) => user.name === name) ?? null
+}
+
+// =============================================================================
+// Analytics Operations
+// =============================================================================
+
+export async function getOverallStats(viewer?: Viewer) {
+  const storage = await getStorage()
+  const [stats, usage] = await Promise.all([
+    storage.getOverallStats(viewer),
+    storage.getTokenUsage({ viewer })
+  ])
+  return { ...stats, total_cost_usd: summarizeCost(usage, 'model').total_cost_usd }
+}
+
+export async function getDailyStats(days?: number, viewer?: Viewer) {
+  return (await getStorage()).getDailyStats(days, viewer)
+}
+
+export async function getToolUsageStats(viewer?: Viewer) {
+  return (await getStorage()).getToolUsageStats(viewer)
+}
+
+export async function getToolTrends(filter?: ToolTrendFilter) {
+  return (await getStorage()).getToolTrends(filter)
+}
+
+export async function getTagCloud(limit?: number, viewer?: Viewer) {
+  return (await getStorage()).getTagCloud(limit, viewer)
+}
+
+export async function getClientStats(viewer?: Viewer) {
+  return (await getStorage()).getClientStats(viewer)
+}
+
+export async function getUserStats(viewer?: Viewer) {
+  return (await getStorage()).getUserStats(viewer)
+}
+
+/**
+ * Usage of the session alone, with the same totals over the session and all
+ * of its sub-sessions under with_descendants
+ */
+export async function getSessionStats(sessionId: string, viewer?: Viewer) {
+  const storage = await getStorage()
+  if (viewer && !(await visibleSession(storage, sessionId, viewer))) return null
+  const [stats, usage, treeStats, treeUsage] = await Promise.all([
+    storage.getSessionStats(sessionId),
+    storage.getTokenUsage({ sessionId }),
+    storage.getSessionStats(sessionId, true),
+    storage.getTokenUsage({ sessionId, withDescendants: true })
+  ])
+  if (!stats || !treeStats) return null
   return {
-    message_count: parseInt(row.message_count, 10),
-    thinking_tokens: parseInt(row.thinking_tokens, 10),
-    input_tokens: parseInt(row.input_tokens, 10),
-    output_tokens: parseInt(row.output_tokens, 10),
-    tool_calls: parseInt(row.tool_calls, 10),
-    duration_minutes: parseFloat(row.duration_minutes) || 0
+    ...stats,
+    cost_usd: summarizeCost(usage, 'model').total_cost_usd,
+    with_descendants: {
+      ...treeStats,
+      cost_usd: summarizeCost(treeUsage, 'model').total_cost_usd
+    }
   }
 }
 
-// Export pool for raw queries if needed
-export { pool }
+/**
+ * Token cost over the last `days` days (all time when omitted), grouped by
+ * day, model, project or user
+ */
+export async function getCostSummary(
+  groupBy: CostGroupBy,
+  days?: number,
+  viewer?: Viewer
+): Promise<CostSummary> {
+  const usage = await (await getStorage()).getTokenUsage({ days, viewer })
+  return summarizeCost(usage, groupBy)
+}
@@ -1,10 +1,15 @@
-import { initializeDatabase } from './index.js'
+import { migrateUp } from './migrate.js'
+import { pool } from './postgres.js'
 
 async function main() {
   try {
     console.log('Initializing database...')
-    await initializeDatabase()
+    const applied = await migrateUp()
+    for (const migration of applied) {
+      console.log(`Applied migration ${migration.version}_${migration.name}`)
+    }
     console.log('Database initialization complete!')
+    await pool.end()
     process.exit(0)
   } catch (error) {
     console.error('Failed to initialize database:', error)
@@ -0,0 +1,126 @@
+/**
+ * Schema migration runner
+ * Applied versions are recorded in schema_migrations; each migration runs in
+ * its own transaction under an advisory lock so concurrent starts cannot race.
+ */
+
+import type { PoolClient } from 'pg'
+import { pool } from './postgres.js'
+import { MIGRATIONS, type Migration } from './migrations/index.js'
+import type { MigrationStatus } from '../types/index.js'
+
+// Arbitrary application-wide key for pg_advisory_lock
+const MIGRATION_LOCK_ID = 727_846_301
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )
+  `)
+}
+
+async function getAppliedVersions(client: PoolClient): Promise<Map<number, Date>> {
+  const result = await client.query<{ version: number; applied_at: Date }>(
+    'SELECT version, applied_at FROM schema_migrations ORDER BY version'
+  )
+  return new Map(result.rows.map((row) => [row.version, row.applied_at]))
+}
+
+/**
+ * Runs a callback on a dedicated client holding the migration lock
+ */
+async function withMigrationLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect()
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID])
+    await ensureMigrationsTable(client)
+    return await fn(client)
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined)
+    client.release()
+  }
+}
+
+async function runMigration(
+  client: PoolClient,
+  migration: Migration,
+  direction: 'up' | 'down'
+): Promise<void> {
+  try {
+    await client.query('BEGIN')
+    await client.query(migration[direction])
+    if (direction === 'up') {
+      await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+        migration.version,
+        migration.name
+      ])
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version])
+    }
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw new Error(
+      `Migration ${migration.version}_${migration.name} (${direction}) failed: ${
+        error instanceof Error ? error.message : error
+      }`
+    )
+  }
+}
+
+/**
+ * Lists every known migration and whether it has been applied
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedVersions(client)
+    return MIGRATIONS.map(({ version, name }) => ({
+      version,
+      name,
+      applied: applied.has(version),
+      applied_at: applied.get(version)
+    }))
+  })
+}
+
+export async function getPendingMigrations(): Promise<MigrationStatus[]> {
+  const status = await getMigrationStatus()
+  return status.filter((migration) => !migration.applied)
+}
+
+/**
+ * Applies pending migrations in order, optionally stopping at a target version
+ */
+export async function migrateUp(targetVersion?: number): Promise<Migration[]> {
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedVersions(client)
+    const pending = MIGRATIONS.filter(
+      (migration) =>
+        !applied.has(migration.version) &&
+        (targetVersion === undefined || migration.version <= targetVersion)
+    )
+    for (const migration of pending) {
+      await runMigration(client, migration, 'up')
+    }
+    return pending
+  })
+}
+
+/**
+ * Reverts the most recently applied migrations, newest first
+ */
+export async function migrateDown(steps: number = 1): Promise<Migration[]> {
+  return withMigrationLock(async (client) => {
+    const applied = await getAppliedVersions(client)
+    const toRevert = MIGRATIONS.filter((migration) => applied.has(migration.version))
+      .reverse()
+      .slice(0, steps)
+    for (const migration of toRevert) {
+      await runMigration(client, migration, 'down')
+    }
+    return toRevert
+  })
+}
@@ -1,3 +1,9 @@
+/**
+ * Initial schema: sessions, messages, full-text search and stats views.
+ * Uses IF NOT EXISTS so databases created before migrations existed are adopted as-is.
+ */
+
+export const up = `
 CREATE TABLE IF NOT EXISTS sessions (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     name VARCHAR(255) NOT NULL,
@@ -84,3 +90,12 @@ SELECT
 FROM messages
 GROUP BY DATE(created_at)
 ORDER BY date DESC;
+`
+
+export const down = `
+DROP VIEW IF EXISTS daily_stats;
+DROP VIEW IF EXISTS session_stats;
+DROP TABLE IF EXISTS messages;
+DROP TABLE IF EXISTS sessions;
+DROP FUNCTION IF EXISTS update_updated_at_column();
+`
@@ -0,0 +1,15 @@
+/**
+ * Prompt-cache token counts, needed to price cached input correctly
+ */
+
+export const up = `
+ALTER TABLE messages
+    ADD COLUMN cache_creation_input_tokens INTEGER DEFAULT 0,
+    ADD COLUMN cache_read_input_tokens INTEGER DEFAULT 0;
+`
+
+export const down = `
+ALTER TABLE messages
+    DROP COLUMN cache_creation_input_tokens,
+    DROP COLUMN cache_read_input_tokens;
+`
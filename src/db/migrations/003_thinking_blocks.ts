@@ -0,0 +1,37 @@
+/**
+ * Individual thinking blocks with order, type, signature and token count.
+ * Existing messages are backfilled with one block holding their thinking_content.
+ */
+
+export const up = `
+CREATE TABLE thinking_blocks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    type VARCHAR(20) NOT NULL DEFAULT 'thinking' CHECK (type IN ('thinking', 'redacted')),
+    content TEXT,
+    data TEXT,
+    signature TEXT,
+    token_count INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    search_vector tsvector GENERATED ALWAYS AS (
+        to_tsvector('english', coalesce(content, ''))
+    ) STORED,
+
+    UNIQUE (message_id, position)
+);
+
+CREATE INDEX idx_thinking_blocks_session_id ON thinking_blocks(session_id);
+CREATE INDEX idx_thinking_blocks_search ON thinking_blocks USING GIN(search_vector);
+
+INSERT INTO thinking_blocks (message_id, session_id, position, type, content, token_count, created_at)
+SELECT id, session_id, 0, 'thinking', thinking_content, COALESCE(thinking_tokens, 0), created_at
+FROM messages
+WHERE thinking_content IS NOT NULL AND thinking_content <> '';
+`
+
+export const down = `
+DROP TABLE IF EXISTS thinking_blocks;
+`
@@ -0,0 +1,50 @@
+/**
+ * Tool calls as rows, so they can be filtered, linked to and aggregated
+ * without unnesting messages.tool_calls. The JSONB column stays as the
+ * message's own copy; existing calls are backfilled from it.
+ */
+
+export const up = `
+CREATE TABLE tool_calls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    call_id VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    input JSONB NOT NULL DEFAULT '{}',
+    output TEXT,
+    error TEXT,
+    duration_ms INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (message_id, position)
+);
+
+CREATE INDEX idx_tool_calls_session_id ON tool_calls(session_id);
+CREATE INDEX idx_tool_calls_name ON tool_calls(name, created_at DESC);
+CREATE INDEX idx_tool_calls_created_at ON tool_calls(created_at DESC);
+CREATE INDEX idx_tool_calls_errors ON tool_calls(created_at DESC) WHERE error IS NOT NULL;
+
+INSERT INTO tool_calls (
+    message_id, session_id, position, call_id, name, input, output, error, duration_ms, created_at
+)
+SELECT
+    m.id,
+    m.session_id,
+    (c.ordinality - 1)::int,
+    COALESCE(c.call->>'id', ''),
+    c.call->>'name',
+    COALESCE(c.call->'input', '{}'),
+    c.call->>'output',
+    c.call->>'error',
+    ROUND((c.call->>'duration_ms')::numeric)::int,
+    m.created_at
+FROM messages m,
+     jsonb_array_elements(m.tool_calls) WITH ORDINALITY AS c(call, ordinality)
+WHERE c.call->>'name' IS NOT NULL;
+`
+
+export const down = `
+DROP TABLE IF EXISTS tool_calls;
+`
@@ -0,0 +1,52 @@
+/**
+ * Tags, notes and bookmarks. Each row belongs to a session and, when
+ * message_id is set, to a single message within it.
+ */
+
+export const up = `
+CREATE TABLE tags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+    tag VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_tags_session_tag ON tags(session_id, tag) WHERE message_id IS NULL;
+CREATE UNIQUE INDEX idx_tags_message_tag ON tags(message_id, tag) WHERE message_id IS NOT NULL;
+CREATE INDEX idx_tags_tag ON tags(tag);
+
+CREATE TABLE notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_notes_session_id ON notes(session_id, created_at);
+CREATE INDEX idx_notes_message_id ON notes(message_id) WHERE message_id IS NOT NULL;
+
+CREATE TRIGGER update_notes_updated_at
+    BEFORE UPDATE ON notes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE bookmarks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_bookmarks_session ON bookmarks(session_id) WHERE message_id IS NULL;
+CREATE UNIQUE INDEX idx_bookmarks_message ON bookmarks(message_id) WHERE message_id IS NOT NULL;
+CREATE INDEX idx_bookmarks_created_at ON bookmarks(created_at DESC);
+`
+
+export const down = `
+DROP TABLE IF EXISTS bookmarks;
+DROP TABLE IF EXISTS notes;
+DROP TABLE IF EXISTS tags;
+`
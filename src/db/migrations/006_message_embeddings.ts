@@ -0,0 +1,21 @@
+/**
+ * One embedding per message for similarity search. Vectors are float32
+ * arrays stored as bytes and compared in the application, so no database
+ * extension is needed; rows from another provider are re-indexed.
+ */
+
+export const up = `
+CREATE TABLE message_embeddings (
+    message_id UUID PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    provider VARCHAR(100) NOT NULL,
+    vector BYTEA NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_message_embeddings_provider ON message_embeddings(provider, session_id);
+`
+
+export const down = `
+DROP TABLE IF EXISTS message_embeddings;
+`
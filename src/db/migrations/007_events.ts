@@ -0,0 +1,22 @@
+/**
+ * Append-only log of session and message events for live streams. Ids give
+ * clients a resume point; rows are pruned once they are older than any
+ * client would reasonably resume from.
+ */
+
+export const up = `
+CREATE TABLE events (
+    id BIGSERIAL PRIMARY KEY,
+    type VARCHAR(50) NOT NULL,
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_events_session_id ON events(session_id, id);
+CREATE INDEX idx_events_created_at ON events(created_at);
+`
+
+export const down = `
+DROP TABLE IF EXISTS events;
+`
@@ -0,0 +1,21 @@
+/**
+ * API keys for the REST and MCP HTTP endpoints. Only a SHA-256 hash of each
+ * key is stored; revoked keys are kept so they still show up in listings.
+ */
+
+export const up = `
+CREATE TABLE api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    prefix VARCHAR(32) NOT NULL,
+    key_hash CHAR(64) NOT NULL UNIQUE,
+    scopes TEXT[] NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+`
+
+export const down = `
+DROP TABLE IF EXISTS api_keys;
+`
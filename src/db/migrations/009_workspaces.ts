@@ -0,0 +1,81 @@
+/**
+ * Users and workspaces. Each session belongs to a user within a workspace and
+ * is visible to its owner only (private), to the workspace, or to everyone
+ * (public). Sessions captured before this migration have no owner and stay
+ * public, so nothing that was visible disappears.
+ */
+
+export const up = `
+CREATE TABLE workspaces (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE sessions
+    ADD COLUMN user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL,
+    ADD COLUMN visibility VARCHAR(20) NOT NULL DEFAULT 'public'
+        CHECK (visibility IN ('private', 'workspace', 'public'));
+
+CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+CREATE INDEX idx_sessions_workspace_id ON sessions(workspace_id, visibility);
+
+ALTER TABLE api_keys ADD COLUMN user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+
+-- New columns go last: CREATE OR REPLACE VIEW can only append
+CREATE OR REPLACE VIEW session_stats AS
+SELECT
+    s.id,
+    s.name,
+    s.project_path,
+    s.started_at,
+    s.ended_at,
+    COUNT(m.id) as message_count,
+    SUM(COALESCE(m.thinking_tokens, 0)) as total_thinking_tokens,
+    SUM(COALESCE(m.input_tokens, 0)) as total_input_tokens,
+    SUM(COALESCE(m.output_tokens, 0)) as total_output_tokens,
+    COUNT(CASE WHEN m.role = 'user' THEN 1 END) as user_messages,
+    COUNT(CASE WHEN m.role = 'assistant' THEN 1 END) as assistant_messages,
+    s.user_id,
+    s.workspace_id,
+    s.visibility
+FROM sessions s
+LEFT JOIN messages m ON s.id = m.session_id
+GROUP BY s.id, s.name, s.project_path, s.started_at, s.ended_at;
+`
+
+export const down = `
+DROP VIEW IF EXISTS session_stats;
+CREATE VIEW session_stats AS
+SELECT
+    s.id,
+    s.name,
+    s.project_path,
+    s.started_at,
+    s.ended_at,
+    COUNT(m.id) as message_count,
+    SUM(COALESCE(m.thinking_tokens, 0)) as total_thinking_tokens,
+    SUM(COALESCE(m.input_tokens, 0)) as total_input_tokens,
+    SUM(COALESCE(m.output_tokens, 0)) as total_output_tokens,
+    COUNT(CASE WHEN m.role = 'user' THEN 1 END) as user_messages,
+    COUNT(CASE WHEN m.role = 'assistant' THEN 1 END) as assistant_messages
+FROM sessions s
+LEFT JOIN messages m ON s.id = m.session_id
+GROUP BY s.id, s.name, s.project_path, s.started_at, s.ended_at;
+
+ALTER TABLE api_keys DROP COLUMN IF EXISTS user_id;
+ALTER TABLE sessions
+    DROP COLUMN IF EXISTS visibility,
+    DROP COLUMN IF EXISTS workspace_id,
+    DROP COLUMN IF EXISTS user_id;
+DROP TABLE IF EXISTS users;
+DROP TABLE IF EXISTS workspaces;
+`
@@ -0,0 +1,12 @@
+/**
+ * Server-recorded message details, starting with the redaction rules that
+ * fired when the message was captured
+ */
+
+export const up = `
+ALTER TABLE messages ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}';
+`
+
+export const down = `
+ALTER TABLE messages DROP COLUMN metadata;
+`
@@ -0,0 +1,58 @@
+/**
+ * Daily totals of sessions removed by retention, folded into daily_stats so
+ * its history survives the purge
+ */
+
+export const up = `
+CREATE TABLE daily_stats_rollup (
+    date DATE PRIMARY KEY,
+    sessions BIGINT NOT NULL DEFAULT 0,
+    messages BIGINT NOT NULL DEFAULT 0,
+    thinking_tokens BIGINT NOT NULL DEFAULT 0,
+    input_tokens BIGINT NOT NULL DEFAULT 0,
+    output_tokens BIGINT NOT NULL DEFAULT 0
+);
+
+DROP VIEW daily_stats;
+CREATE VIEW daily_stats AS
+SELECT
+    date,
+    SUM(sessions)::bigint as sessions,
+    SUM(messages)::bigint as messages,
+    SUM(thinking_tokens)::bigint as thinking_tokens,
+    SUM(input_tokens)::bigint as input_tokens,
+    SUM(output_tokens)::bigint as output_tokens
+FROM (
+    SELECT
+        DATE(created_at) as date,
+        COUNT(DISTINCT session_id) as sessions,
+        COUNT(*) as messages,
+        SUM(COALESCE(thinking_tokens, 0)) as thinking_tokens,
+        SUM(COALESCE(input_tokens, 0)) as input_tokens,
+        SUM(COALESCE(output_tokens, 0)) as output_tokens
+    FROM messages
+    GROUP BY DATE(created_at)
+    UNION ALL
+    SELECT date, sessions, messages, thinking_tokens, input_tokens, output_tokens
+    FROM daily_stats_rollup
+) d
+GROUP BY date
+ORDER BY date DESC;
+`
+
+export const down = `
+DROP VIEW daily_stats;
+CREATE VIEW daily_stats AS
+SELECT
+    DATE(created_at) as date,
+    COUNT(DISTINCT session_id) as sessions,
+    COUNT(*) as messages,
+    SUM(COALESCE(thinking_tokens, 0)) as thinking_tokens,
+    SUM(COALESCE(input_tokens, 0)) as input_tokens,
+    SUM(COALESCE(output_tokens, 0)) as output_tokens
+FROM messages
+GROUP BY DATE(created_at)
+ORDER BY date DESC;
+
+DROP TABLE daily_stats_rollup;
+`
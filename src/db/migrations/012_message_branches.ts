@@ -0,0 +1,28 @@
+/**
+ * Conversation branches. Each message links to the message it follows;
+ * existing messages are chained in their session's order. The link is
+ * deferred so a restore may insert a reply before the message it follows.
+ */
+
+export const up = `
+ALTER TABLE messages
+    ADD COLUMN parent_message_id UUID REFERENCES messages(id) ON DELETE SET NULL
+        DEFERRABLE INITIALLY DEFERRED,
+    ADD COLUMN branch_id VARCHAR(100);
+
+UPDATE messages m
+SET parent_message_id = chain.previous_id
+FROM (
+    SELECT id, LAG(id) OVER (PARTITION BY session_id ORDER BY created_at, id) as previous_id
+    FROM messages
+) chain
+WHERE chain.id = m.id AND chain.previous_id IS NOT NULL;
+
+CREATE INDEX idx_messages_parent_message_id ON messages(parent_message_id);
+CREATE INDEX idx_messages_branch ON messages(session_id, branch_id, created_at);
+`
+
+export const down = `
+ALTER TABLE messages DROP COLUMN branch_id;
+ALTER TABLE messages DROP COLUMN parent_message_id;
+`
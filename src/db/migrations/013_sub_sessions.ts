@@ -0,0 +1,86 @@
+/**
+ * Sub-sessions, such as those of subagents spawned by a main agent. The link
+ * is deferred, as for messages, so a restore may insert sessions in any order.
+ * The session_stats view also totals each session together with every
+ * session below it.
+ */
+
+export const up = `
+ALTER TABLE sessions
+    ADD COLUMN parent_session_id UUID REFERENCES sessions(id) ON DELETE SET NULL
+        DEFERRABLE INITIALLY DEFERRED;
+
+CREATE INDEX idx_sessions_parent_session_id ON sessions(parent_session_id);
+
+-- New columns go last: CREATE OR REPLACE VIEW can only append
+CREATE OR REPLACE VIEW session_stats AS
+WITH RECURSIVE session_tree (root_id, id) AS (
+    SELECT id, id FROM sessions
+    UNION ALL
+    SELECT t.root_id, s.id FROM session_tree t JOIN sessions s ON s.parent_session_id = t.id
+),
+tree_totals AS (
+    SELECT
+        t.root_id as id,
+        COUNT(DISTINCT t.id) - 1 as descendant_count,
+        COUNT(m.id) as message_count,
+        SUM(COALESCE(m.thinking_tokens, 0)) as thinking_tokens,
+        SUM(COALESCE(m.input_tokens, 0)) as input_tokens,
+        SUM(COALESCE(m.output_tokens, 0)) as output_tokens
+    FROM session_tree t
+    LEFT JOIN messages m ON m.session_id = t.id
+    GROUP BY t.root_id
+)
+SELECT
+    s.id,
+    s.name,
+    s.project_path,
+    s.started_at,
+    s.ended_at,
+    COUNT(m.id) as message_count,
+    SUM(COALESCE(m.thinking_tokens, 0)) as total_thinking_tokens,
+    SUM(COALESCE(m.input_tokens, 0)) as total_input_tokens,
+    SUM(COALESCE(m.output_tokens, 0)) as total_output_tokens,
+    COUNT(CASE WHEN m.role = 'user' THEN 1 END) as user_messages,
+    COUNT(CASE WHEN m.role = 'assistant' THEN 1 END) as assistant_messages,
+    s.user_id,
+    s.workspace_id,
+    s.visibility,
+    s.parent_session_id,
+    tt.descendant_count,
+    tt.message_count as message_count_with_descendants,
+    tt.thinking_tokens as total_thinking_tokens_with_descendants,
+    tt.input_tokens as total_input_tokens_with_descendants,
+    tt.output_tokens as total_output_tokens_with_descendants
+FROM sessions s
+LEFT JOIN messages m ON s.id = m.session_id
+JOIN tree_totals tt ON tt.id = s.id
+GROUP BY s.id, s.name, s.project_path, s.started_at, s.ended_at, tt.id, tt.descendant_count,
+    tt.message_count, tt.thinking_tokens, tt.input_tokens, tt.output_tokens;
+`
+
+export const down = `
+DROP VIEW IF EXISTS session_stats;
+CREATE VIEW session_stats AS
+SELECT
+    s.id,
+    s.name,
+    s.project_path,
+    s.started_at,
+    s.ended_at,
+    COUNT(m.id) as message_count,
+    SUM(COALESCE(m.thinking_tokens, 0)) as total_thinking_tokens,
+    SUM(COALESCE(m.input_tokens, 0)) as total_input_tokens,
+    SUM(COALESCE(m.output_tokens, 0)) as total_output_tokens,
+    COUNT(CASE WHEN m.role = 'user' THEN 1 END) as user_messages,
+    COUNT(CASE WHEN m.role = 'assistant' THEN 1 END) as assistant_messages,
+    s.user_id,
+    s.workspace_id,
+    s.visibility
+FROM sessions s
+LEFT JOIN messages m ON s.id = m.session_id
+GROUP BY s.id, s.name, s.project_path, s.started_at, s.ended_at;
+
+DROP INDEX IF EXISTS idx_sessions_parent_session_id;
+ALTER TABLE sessions DROP COLUMN IF EXISTS parent_session_id;
+`
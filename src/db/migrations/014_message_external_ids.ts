@@ -0,0 +1,15 @@
+/**
+ * Client-supplied message ids. Each is unique within its session, so a
+ * retried capture finds the message it already stored.
+ */
+
+export const up = `
+ALTER TABLE messages ADD COLUMN external_id VARCHAR(255);
+
+CREATE UNIQUE INDEX idx_messages_external_id ON messages(session_id, external_id)
+    WHERE external_id IS NOT NULL;
+`
+
+export const down = `
+ALTER TABLE messages DROP COLUMN external_id;
+`
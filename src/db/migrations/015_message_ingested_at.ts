@@ -0,0 +1,19 @@
+/**
+ * When each message reached the server. created_at is the client's event
+ * time, which a buffered capture reports late; existing messages were stored
+ * as they happened, so both start out equal.
+ */
+
+export const up = `
+ALTER TABLE messages ADD COLUMN ingested_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE messages SET ingested_at = created_at;
+
+ALTER TABLE messages
+    ALTER COLUMN ingested_at SET DEFAULT NOW(),
+    ALTER COLUMN ingested_at SET NOT NULL;
+`
+
+export const down = `
+ALTER TABLE messages DROP COLUMN ingested_at;
+`
@@ -0,0 +1,44 @@
+/**
+ * Authors for notes and owners for bookmarks. Only a note's author may edit
+ * or delete it, and each user keeps their own bookmarks. Existing bookmarks
+ * go to the owner of their session, so retention keeps exempting them;
+ * existing notes have no author and stay editable by anyone who sees them.
+ */
+
+export const up = `
+ALTER TABLE notes ADD COLUMN user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE bookmarks ADD COLUMN user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+
+UPDATE bookmarks b SET user_id = s.user_id FROM sessions s WHERE s.id = b.session_id;
+
+DROP INDEX idx_bookmarks_session;
+DROP INDEX idx_bookmarks_message;
+
+-- Bookmarks without a user (keys not tied to one) share a single slot per target
+CREATE UNIQUE INDEX idx_bookmarks_session
+    ON bookmarks(session_id, COALESCE(user_id, '00000000-0000-0000-0000-000000000000'))
+    WHERE message_id IS NULL;
+CREATE UNIQUE INDEX idx_bookmarks_message
+    ON bookmarks(message_id, COALESCE(user_id, '00000000-0000-0000-0000-000000000000'))
+    WHERE message_id IS NOT NULL;
+CREATE INDEX idx_bookmarks_user_id ON bookmarks(user_id, created_at DESC);
+`
+
+export const down = `
+DROP INDEX IF EXISTS idx_bookmarks_user_id;
+DROP INDEX IF EXISTS idx_bookmarks_session;
+DROP INDEX IF EXISTS idx_bookmarks_message;
+
+-- Keep the earliest bookmark of each session or message
+DELETE FROM bookmarks b
+USING bookmarks earlier
+WHERE earlier.session_id = b.session_id
+  AND earlier.message_id IS NOT DISTINCT FROM b.message_id
+  AND (earlier.created_at, earlier.id) < (b.created_at, b.id);
+
+CREATE UNIQUE INDEX idx_bookmarks_session ON bookmarks(session_id) WHERE message_id IS NULL;
+CREATE UNIQUE INDEX idx_bookmarks_message ON bookmarks(message_id) WHERE message_id IS NOT NULL;
+
+ALTER TABLE bookmarks DROP COLUMN IF EXISTS user_id;
+ALTER TABLE notes DROP COLUMN IF EXISTS user_id;
+`
@@ -0,0 +1,47 @@
+/**
+ * Ordered migration registry. Add new migrations to the end of the list;
+ * never edit or reorder a migration that has shipped.
+ */
+
+import * as initialSchema from './001_initial_schema.js'
+import * as messageCacheTokens from './002_message_cache_tokens.js'
+import * as thinkingBlocks from './003_thinking_blocks.js'
+import * as toolCalls from './004_tool_calls.js'
+import * as annotations from './005_annotations.js'
+import * as messageEmbeddings from './006_message_embeddings.js'
+import * as events from './007_events.js'
+import * as apiKeys from './008_api_keys.js'
+import * as workspaces from './009_workspaces.js'
+import * as messageMetadata from './010_message_metadata.js'
+import * as retention from './011_retention.js'
+import * as messageBranches from './012_message_branches.js'
+import * as subSessions from './013_sub_sessions.js'
+import * as messageExternalIds from './014_message_external_ids.js'
+import * as messageIngestedAt from './015_message_ingested_at.js'
+import * as annotationOwners from './016_annotation_owners.js'
+
+export interface Migration {
+  version: number
+  name: string
+  up: string
+  down: string
+}
+
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: 'initial_schema', ...initialSchema },
+  { version: 2, name: 'message_cache_tokens', ...messageCacheTokens },
+  { version: 3, name: 'thinking_blocks', ...thinkingBlocks },
+  { version: 4, name: 'tool_calls', ...toolCalls },
+  { version: 5, name: 'annotations', ...annotations },
+  { version: 6, name: 'message_embeddings', ...messageEmbeddings },
+  { version: 7, name: 'events', ...events },
+  { version: 8, name: 'api_keys', ...apiKeys },
+  { version: 9, name: 'workspaces', ...workspaces },
+  { version: 10, name: 'message_metadata', ...messageMetadata },
+  { version: 11, name: 'retention', ...retention },
+  { version: 12, name: 'message_branches', ...messageBranches },
+  { version: 13, name: 'sub_sessions', ...subSessions },
+  { version: 14, name: 'message_external_ids', ...messageExternalIds },
+  { version: 15, name: 'message_ingested_at', ...messageIngestedAt },
+  { version: 16, name: 'annotation_owners', ...annotationOwners }
+]
@@ -0,0 +1,137 @@
+/**
+ * Input normalization shared by every storage backend
+ */
+
+import type {
+  CaptureMessageInput,
+  ThinkingBlockInput,
+  ThinkingBlockType,
+  ToolCall
+} from '../types/index.js'
+import { ValidationError } from '../utils/errors.js'
+import { THINKING_BLOCK_TYPES, isValidThinkingBlockType } from '../utils/constants.js'
+
+export interface NormalizedThinkingBlock {
+  position: number
+  type: ThinkingBlockType
+  content: string | null
+  data: string | null
+  signature: string | null
+  token_count: number
+}
+
+export interface NormalizedToolCall {
+  position: number
+  call_id: string
+  name: string
+  input: Record<string, unknown>
+  output: string | null
+  error: string | null
+  duration_ms: number | null
+}
+
+function normalizeBlock(block: ThinkingBlockInput, position: number): NormalizedThinkingBlock {
+  const type = block.type ?? 'thinking'
+  if (!isValidThinkingBlockType(type)) {
+    throw new ValidationError(
+      `thinking_blocks[${position}].type must be one of: ${THINKING_BLOCK_TYPES.join(', ')}`
+    )
+  }
+  if (type === 'thinking' && !block.content) {
+    throw new ValidationError(`thinking_blocks[${position}] requires content`)
+  }
+  if (type === 'redacted' && !block.data) {
+    throw new ValidationError(`thinking_blocks[${position}] is redacted and requires data`)
+  }
+  return {
+    position,
+    type,
+    content: type === 'thinking' ? block.content! : null,
+    data: type === 'redacted' ? block.data! : null,
+    signature: block.signature ?? null,
+    token_count: block.token_count ?? 0
+  }
+}
+
+function normalizeToolCall(call: ToolCall, position: number): NormalizedToolCall {
+  if (!call.name) {
+    throw new ValidationError(`tool_calls[${position}] requires a name`)
+  }
+  return {
+    position,
+    call_id: call.id ?? '',
+    name: call.name,
+    input: call.input ?? {},
+    output: call.output ?? null,
+    error: call.error ?? null,
+    duration_ms: call.duration_ms !== undefined ? Math.round(call.duration_ms) : null
+  }
+}
+
+/**
+ * Resolves the thinking aliases accepted from different clients (Claude Code,
+ * Gemini CLI) into individual thinking blocks plus the stored thinking_content
+ * and thinking_tokens values. thinking_content is the newline-joined text of
+ * the non-redacted blocks, kept for compatibility and message-level search.
+ * Tool calls are numbered in order for the tool_calls table.
+ */
+export function normalizeCaptureInput(input: CaptureMessageInput): {
+  thinking_content: string | null
+  thinking_tokens: number
+  thinking_blocks: NormalizedThinkingBlock[]
+  tool_calls: NormalizedToolCall[]
+} {
+  let blocks: NormalizedThinkingBlock[]
+
+  if (input.thinking_blocks && input.thinking_blocks.length > 0) {
+    blocks = input.thinking_blocks.map(normalizeBlock)
+  } else {
+    const value =
+      input.thinking_content ?? input.thinking_text ?? input.thinking ?? input.thoughts ?? null
+    const texts = (Array.isArray(value) ? value : [value]).filter((text): text is string => !!text)
+    blocks = texts.map((content, position) => normalizeBlock({ content }, position))
+  }
+
+  const text = blocks
+    .filter((block) => block.type === 'thinking')
+    .map((block) => block.content)
+    .join('\n')
+  const blockTokens = blocks.reduce((sum, block) => sum + block.token_count, 0)
+
+  return {
+    thinking_content: text || null,
+    thinking_tokens:
+      input.thinking_tokens ??
+      input.thinking_token_count ??
+      input.thoughts_token_count ??
+      blockTokens,
+    thinking_blocks: blocks,
+    tool_calls: (input.tool_calls ?? []).map(normalizeToolCall)
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Applies a JSON merge patch (RFC 7386) to session metadata: nested objects
+ * merge key by key, null removes a key and any other value replaces it
+ */
+export function applyMetadataPatch(
+  current: Record<string, unknown>,
+  patch: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...current }
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key]
+    } else if (isPlainObject(value)) {
+      const target = result[key]
+      result[key] = applyMetadataPatch(isPlainObject(target) ? target : {}, value)
+    } else {
+      result[key] = value
+    }
+  }
+  return result
+}
@@ -0,0 +1,1999 @@
+/**
+ * PostgreSQL storage backend
+ * Full-text search uses a generated tsvector column; schema is managed by migrate.ts
+ */
+
+import pg from 'pg'
+import { applyMetadataPatch, normalizeCaptureInput } from './normalize.js'
+import { escapeLike } from '../search/query.js'
+import { vectorToBytes, bytesToVector } from '../embeddings/vector.js'
+import { formatErrorMessage } from '../utils/errors.js'
+import { visibilityCondition } from './visibility.js'
+import type { Storage } from './storage.js'
+import type {
+  Session,
+  Message,
+  CapturedMessage,
+  MessageLink,
+  SearchResult,
+  ThinkingBlock,
+  ThinkingBlockSearchResult,
+  ThinkingBlockSearchOptions,
+  SessionStats,
+  DailyStats,
+  ToolCallRecord,
+  ToolCallFilter,
+  ToolUsageStats,
+  ToolTrend,
+  ToolTrendFilter,
+  ClientStats,
+  SessionUsageStats,
+  TokenUsage,
+  TokenUsageFilter,
+  MessageSearchOptions,
+  SearchQuery,
+  SearchTerm,
+  SessionListFilter,
+  AnnotationTarget,
+  Annotations,
+  Note,
+  Bookmark,
+  TagCount,
+  MessageEmbedding,
+  StreamEvent,
+  StreamEventInput,
+  ApiKey,
+  CreateApiKeyInput,
+  Workspace,
+  User,
+  CreateUserInput,
+  UserStats,
+  Viewer,
+  CaptureMessageInput,
+  MessageRedaction,
+  RetentionExemptions,
+  ThinkingPurge,
+  SessionPurge,
+  CreateSessionInput,
+  UpdateSessionInput,
+  TranscriptMessage
+} from '../types/index.js'
+
+const { Pool } = pg
+
+// Database connection pool
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL || '',
+  max: 20,
+  idleTimeoutMillis: 30000,
+  connectionTimeoutMillis: 2000
+})
+
+// Test connection
+pool.on('error', (err: Error) => {
+  console.error('Unexpected error on idle client', err)
+})
+
+/**
+ * Run a callback inside a transaction on a dedicated client
+ */
+async function withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect()
+  try {
+    await client.query('BEGIN')
+    const result = await fn(client)
+    await client.query('COMMIT')
+    return result
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+// =============================================================================
+// Session Operations
+// =============================================================================
+
+export async function createSession(input: CreateSessionInput): Promise<Session> {
+  const { name, project_path, metadata, started_at, ended_at } = input
+
+  const result = await pool.query<Session>(
+    `INSERT INTO sessions (
+       name, project_path, metadata, started_at, ended_at, user_id, workspace_id, visibility,
+       parent_session_id
+     )
+     VALUES ($1, $2, $3, COALESCE($4, NOW()), $5, $6, $7, COALESCE($8, 'public'), $9)
+     RETURNING *`,
+    [
+      name,
+      project_path || null,
+      JSON.stringify(metadata || {}),
+      started_at ?? null,
+      ended_at ?? null,
+      input.user_id ?? null,
+      input.workspace_id ?? null,
+      input.visibility ?? null,
+      input.parent_session_id ?? null
+    ]
+  )
+
+  return result.rows[0]
+}
+
+export async function getSession(id: string): Promise<Session | null> {
+  const result = await pool.query<Session>('SELECT * FROM sessions WHERE id = $1', [id])
+  return result.rows[0] || null
+}
+
+export async function listSessions(
+  limit: number = 50,
+  offset: number = 0,
+  filter: SessionListFilter = {}
+): Promise<{ sessions: Session[]; total: number }> {
+  const conditions: string[] = []
+  const params: unknown[] = []
+  const bind = (value: unknown) => {
+    params.push(value)
+    return `$${params.length}`
+  }
+
+  if (filter.tags && filter.tags.length > 0) {
+    const tags = bind(filter.tags)
+    conditions.push(
+      `(SELECT COUNT(DISTINCT t.tag) FROM tags t
+        WHERE t.session_id = s.id AND t.message_id IS NULL AND t.tag = ANY(${tags}))
+        = ${bind(filter.tags.length)}`
+    )
+  }
+
+  if (filter.bookmarked !== undefined) {
+    const owner = filter.viewer
+      ? `AND b.user_id IS NOT DISTINCT FROM ${bind(filter.viewer.user_id)}::uuid`
+      : ''
+    conditions.push(
+      `${filter.bookmarked ? '' : 'NOT '}EXISTS (
+        SELECT 1 FROM bookmarks b WHERE b.session_id = s.id AND b.message_id IS NULL ${owner})`
+    )
+  }
+
+  if (filter.parent_session_id !== undefined) {
+    conditions.push(
+      filter.parent_session_id === null
+        ? 's.parent_session_id IS NULL'
+        : `s.parent_session_id = ${bind(filter.parent_session_id)}`
+    )
+  }
+
+  const visible = visibilityCondition(filter.viewer, 's.id', bind)
+  if (visible) conditions.push(visible)
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+  const countResult = await pool.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM sessions s ${whereClause}`,
+    params
+  )
+  const total = parseInt(countResult.rows[0].count, 10)
+
+  const result = await pool.query<Session>(
+    `SELECT * FROM session_stats s
+     ${whereClause}
+     ORDER BY started_at DESC
+     LIMIT ${bind(limit)} OFFSET ${bind(offset)}`,
+    params
+  )
+
+  return { sessions: result.rows, total }
+}
+
+/**
+ * Find a session created by an importer from its source-specific identifier
+ */
+export async function findSessionBySource(
+  source: string,
+  externalId: string,
+  userId: string | null
+): Promise<Session | null> {
+  const result = await pool.query<Session>(
+    `SELECT * FROM sessions
+     WHERE metadata->>'source' = $1 AND metadata->>'external_id' = $2
+       AND user_id IS NOT DISTINCT FROM $3::uuid
+     ORDER BY created_at ASC
+     LIMIT 1`,
+    [source, externalId, userId]
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Update session fields. Metadata is merged into the existing object.
+ */
+export async function updateSession(
+  id: string,
+  input: UpdateSessionInput
+): Promise<Session | null> {
+  const { name, project_path, metadata, started_at, ended_at, visibility } = input
+
+  return withTransaction(async (client) => {
+    const existing = await client.query<Pick<Session, 'metadata'>>(
+      'SELECT metadata FROM sessions WHERE id = $1 FOR UPDATE',
+      [id]
+    )
+    if (existing.rows.length === 0) return null
+
+    const result = await client.query<Session>(
+      `UPDATE sessions
+       SET name = COALESCE($2, name),
+           project_path = COALESCE($3, project_path),
+           metadata = $4,
+           started_at = COALESCE($5, started_at),
+           ended_at = COALESCE($6, ended_at),
+           visibility = COALESCE($7, visibility)
+       WHERE id = $1
+       RETURNING *`,
+      [
+        id,
+        name ?? null,
+        project_path ?? null,
+        JSON.stringify(applyMetadataPatch(existing.rows[0].metadata ?? {}, metadata || {})),
+        started_at ?? null,
+        ended_at ?? null,
+        visibility ?? null
+      ]
+    )
+    return result.rows[0]
+  })
+}
+
+export async function endSession(id: string, endedAt?: Date): Promise<Session | null> {
+  const result = await pool.query<Session>(
+    `UPDATE sessions
+     SET ended_at = COALESCE($2, NOW())
+     WHERE id = $1
+     RETURNING *`,
+    [id, endedAt ?? null]
+  )
+  return result.rows[0] || null
+}
+
+export async function deleteSession(id: string): Promise<boolean> {
+  const result = await pool.query('DELETE FROM sessions WHERE id = $1', [id])
+  return (result.rowCount ?? 0) > 0
+}
+
+// Tables whose rows follow their message into another session
+const MESSAGE_CHILD_TABLES = [
+  'thinking_blocks',
+  'tool_calls',
+  'message_embeddings',
+  'tags',
+  'notes',
+  'bookmarks',
+  'events'
+]
+
+export async function mergeSessions(
+  targetId: string,
+  sourceIds: string[]
+): Promise<Session | null> {
+  return withTransaction(async (client) => {
+    const target = await client.query('SELECT id FROM sessions WHERE id = $1 FOR UPDATE', [
+      targetId
+    ])
+    if (target.rows.length === 0) return null
+
+    // An external id stays unique in the merged session; the target's copy keeps it
+    await client.query(
+      `UPDATE messages m SET external_id = NULL
+       FROM (
+         SELECT id, ROW_NUMBER() OVER (
+           PARTITION BY external_id ORDER BY session_id = $1 DESC, created_at, ingested_at, id
+         ) as n
+         FROM messages
+         WHERE external_id IS NOT NULL AND (session_id = $1 OR session_id = ANY($2::uuid[]))
+       ) duplicate
+       WHERE duplicate.id = m.id AND duplicate.n > 1`,
+      [targetId, sourceIds]
+    )
+    // Each session's opening message, unless it already replies to something
+    const openings = await client.query<{ id: string }>(
+      `SELECT id FROM (
+         SELECT id, parent_message_id, ROW_NUMBER() OVER (
+           PARTITION BY session_id ORDER BY created_at, ingested_at, id
+         ) as n
+         FROM messages
+         WHERE session_id = $1 OR session_id = ANY($2::uuid[])
+       ) opening
+       WHERE n = 1 AND parent_message_id IS NULL`,
+      [targetId, sourceIds]
+    )
+    await client.query('UPDATE messages SET session_id = $1 WHERE session_id = ANY($2::uuid[])', [
+      targetId,
+      sourceIds
+    ])
+    // As implicit chaining does, those follow the latest earlier message, preferring their
+    // own branch, so the merged conversation keeps a single root
+    await client.query(
+      `UPDATE messages m SET parent_message_id = (
+         SELECT p.id FROM messages p
+         WHERE p.session_id = m.session_id
+           AND (p.created_at, p.ingested_at, p.id) < (m.created_at, m.ingested_at, m.id)
+         ORDER BY p.branch_id IS NOT DISTINCT FROM m.branch_id DESC,
+           p.created_at DESC, p.ingested_at DESC, p.id DESC
+         LIMIT 1
+       )
+       WHERE m.id = ANY($1::uuid[])`,
+      [openings.rows.map((row) => row.id)]
+    )
+    for (const table of MESSAGE_CHILD_TABLES) {
+      await client.query(
+        `UPDATE ${table} SET session_id = $1
+         WHERE session_id = ANY($2::uuid[]) AND message_id IS NOT NULL`,
+        [targetId, sourceIds]
+      )
+    }
+
+    // Session-level annotations carry over, keeping one of each tag and of each user's bookmark
+    await client.query(
+      `INSERT INTO tags (session_id, tag)
+       SELECT DISTINCT $1::uuid, tag FROM tags
+       WHERE session_id = ANY($2::uuid[]) AND message_id IS NULL
+       ON CONFLICT DO NOTHING`,
+      [targetId, sourceIds]
+    )
+    await client.query('UPDATE notes SET session_id = $1 WHERE session_id = ANY($2::uuid[])', [
+      targetId,
+      sourceIds
+    ])
+    await client.query(
+      `INSERT INTO bookmarks (session_id, user_id)
+       SELECT DISTINCT $1::uuid, user_id FROM bookmarks
+       WHERE session_id = ANY($2::uuid[]) AND message_id IS NULL
+       ON CONFLICT DO NOTHING`,
+      [targetId, sourceIds]
+    )
+
+    // The merged session is open while any part of it is
+    const result = await client.query<Session>(
+      `UPDATE sessions SET
+         started_at = spans.started_at,
+         ended_at = spans.ended_at,
+         metadata = jsonb_set(
+           metadata,
+           '{merged_from}',
+           COALESCE(metadata->'merged_from', '[]'::jsonb) || to_jsonb($2::text[])
+         )
+       FROM (
+         SELECT
+           MIN(started_at) as started_at,
+           CASE WHEN COUNT(*) = COUNT(ended_at) THEN MAX(ended_at) END as ended_at
+         FROM sessions WHERE id = $1 OR id = ANY($2::uuid[])
+       ) spans
+       WHERE id = $1
+       RETURNING sessions.*`,
+      [targetId, sourceIds]
+    )
+    await client.query(
+      'UPDATE sessions SET parent_session_id = $1 WHERE parent_session_id = ANY($2::uuid[])',
+      [targetId, sourceIds]
+    )
+    await client.query('DELETE FROM sessions WHERE id = ANY($1::uuid[])', [sourceIds])
+    return result.rows[0]
+  })
+}
+
+export async function splitSession(
+  id: string,
+  messageId: string,
+  input: CreateSessionInput
+): Promise<Session | null> {
+  return withTransaction(async (client) => {
+    const cut = await client.query<{ created_at: Date; ingested_at: Date }>(
+      'SELECT created_at, ingested_at FROM messages WHERE id = $1 AND session_id = $2',
+      [messageId, id]
+    )
+    if (cut.rows.length === 0) return null
+
+    const created = await client.query<Session>(
+      `INSERT INTO sessions (
+         name, project_path, metadata, started_at, ended_at, user_id, workspace_id, visibility,
+         parent_session_id
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, 'public'), $9)
+       RETURNING *`,
+      [
+        input.name,
+        input.project_path || null,
+        JSON.stringify(input.metadata || {}),
+        cut.rows[0].created_at,
+        input.ended_at ?? null,
+        input.user_id ?? null,
+        input.workspace_id ?? null,
+        input.visibility ?? null,
+        input.parent_session_id ?? null
+      ]
+    )
+    const session = created.rows[0]
+
+    // Messages from the cut onward, in the order getSessionMessages returns them
+    const moved = await client.query<{ id: string }>(
+      `UPDATE messages SET session_id = $1
+       WHERE session_id = $2 AND (created_at, ingested_at, id) >= ($3, $4, $5::uuid)
+       RETURNING id`,
+      [session.id, id, cut.rows[0].created_at, cut.rows[0].ingested_at, messageId]
+    )
+    const ids = moved.rows.map((row) => row.id)
+    for (const table of MESSAGE_CHILD_TABLES) {
+      await client.query(
+        `UPDATE ${table} SET session_id = $1 WHERE message_id = ANY($2::uuid[])`,
+        [session.id, ids]
+      )
+    }
+
+    // Replies to messages left behind start their own conversation
+    await client.query(
+      `UPDATE messages m SET parent_message_id = NULL
+       FROM messages p
+       WHERE p.id = m.parent_message_id AND p.session_id <> m.session_id
+         AND m.session_id IN ($1, $2)`,
+      [id, session.id]
+    )
+
+    // What remains ended where the new session begins
+    await client.query(
+      `UPDATE sessions
+       SET ended_at = (SELECT MAX(created_at) FROM messages WHERE session_id = $1)
+       WHERE id = $1`,
+      [id]
+    )
+    return session
+  })
+}
+
+// =============================================================================
+// Message Operations
+// =============================================================================
+
+/**
+ * The parent and branch of a new message. An explicit parent passes its
+ * branch on; otherwise the message follows the latest one on its branch, or
+ * the latest of any branch when it is the first of a new one. A message with a
+ * client event time follows the latest one sent no later than it. The session
+ * row is locked so concurrent captures chain rather than fork.
+ */
+async function messageLink(
+  client: pg.PoolClient,
+  sessionId: string,
+  parentId: string | null | undefined,
+  branchId: string | undefined,
+  eventTime?: Date
+): Promise<{ parent_message_id: string | null; branch_id: string | null }> {
+  if (parentId === null) return { parent_message_id: null, branch_id: branchId ?? null }
+  if (parentId) {
+    const parent = await client.query<{ branch_id: string | null }>(
+      'SELECT branch_id FROM messages WHERE id = $1',
+      [parentId]
+    )
+    return { parent_message_id: parentId, branch_id: branchId ?? parent.rows[0]?.branch_id ?? null }
+  }
+
+  const branch = branchId ?? null
+  const before = eventTime ?? null
+  await client.query('SELECT 1 FROM sessions WHERE id = $1 FOR UPDATE', [sessionId])
+  const previous = await client.query<{ id: string }>(
+    `SELECT id FROM messages
+     WHERE session_id = $1 AND branch_id IS NOT DISTINCT FROM $2::text
+       AND ($3::timestamptz IS NULL OR created_at <= $3)
+     ORDER BY created_at DESC, ingested_at DESC, id DESC
+     LIMIT 1`,
+    [sessionId, branch, before]
+  )
+  if (previous.rows.length > 0 || !branch) {
+    return { parent_message_id: previous.rows[0]?.id ?? null, branch_id: branch }
+  }
+
+  const latest = await client.query<{ id: string }>(
+    `SELECT id FROM messages
+     WHERE session_id = $1 AND ($2::timestamptz IS NULL OR created_at <= $2)
+     ORDER BY created_at DESC, ingested_at DESC, id DESC
+     LIMIT 1`,
+    [sessionId, before]
+  )
+  return { parent_message_id: latest.rows[0]?.id ?? null, branch_id: branch }
+}
+
+async function findByExternalId(
+  client: pg.PoolClient,
+  sessionId: string,
+  externalId: string
+): Promise<Message | null> {
+  const result = await client.query<Message>(
+    'SELECT * FROM messages WHERE session_id = $1 AND external_id = $2',
+    [sessionId, externalId]
+  )
+  return result.rows[0] || null
+}
+
+/**
+ * Inserts one message. ingested_at reads the clock rather than the
+ * transaction start, so messages captured in one batch keep their order:
+ * ties on created_at fall back to ingested_at, then id.
+ */
+async function insertMessage(
+  client: pg.PoolClient,
+  input: CaptureMessageInput
+): Promise<CapturedMessage> {
+  const {
+    session_id,
+    role,
+    content,
+    model,
+    input_tokens,
+    output_tokens,
+    cache_creation_input_tokens,
+    cache_read_input_tokens,
+    tool_calls,
+    created_at,
+    metadata
+  } = input
+  const { thinking_content, thinking_tokens, thinking_blocks, tool_calls: calls } =
+    normalizeCaptureInput(input)
+  const externalId = input.external_id ?? null
+
+  if (externalId) {
+    const existing = await findByExternalId(client, session_id, externalId)
+    if (existing) return { message: existing, created: false }
+  }
+
+  const link = await messageLink(
+    client,
+    session_id,
+    input.parent_message_id,
+    input.branch_id,
+    created_at
+  )
+  const result = await client.query<Message>(
+    `WITH clock AS (SELECT clock_timestamp() as now)
+     INSERT INTO messages (
+      session_id, role, content, thinking_content, thinking_tokens,
+      model, input_tokens, output_tokens, cache_creation_input_tokens,
+      cache_read_input_tokens, tool_calls, created_at, metadata,
+      parent_message_id, branch_id, external_id, ingested_at
+    )
+     VALUES (
+       $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, COALESCE($12, (SELECT now FROM clock)),
+       $13, $14, $15, $16, (SELECT now FROM clock)
+     )
+     ON CONFLICT (session_id, external_id) WHERE external_id IS NOT NULL DO NOTHING
+     RETURNING *`,
+    [
+      session_id,
+      role,
+      content,
+      thinking_content,
+      thinking_tokens,
+      model || null,
+      input_tokens || 0,
+      output_tokens || 0,
+      cache_creation_input_tokens || 0,
+      cache_read_input_tokens || 0,
+      JSON.stringify(tool_calls || []),
+      created_at ?? null,
+      JSON.stringify(metadata ?? {}),
+      link.parent_message_id,
+      link.branch_id,
+      externalId
+    ]
+  )
+  // A concurrent capture of the same external id got there first
+  if (result.rows.length === 0) {
+    return { message: (await findByExternalId(client, session_id, externalId!))!, created: false }
+  }
+  const message = result.rows[0]
+
+  if (thinking_blocks.length > 0) {
+    await client.query(
+      `INSERT INTO thinking_blocks (
+        message_id, session_id, position, type, content, data, signature, token_count, created_at
+      )
+       SELECT $1, $2, b.position, b.type, b.content, b.data, b.signature, b.token_count, $3
+       FROM jsonb_to_recordset($4::jsonb) AS b(
+         position INTEGER, type TEXT, content TEXT, data TEXT, signature TEXT, token_count INTEGER
+       )`,
+      [message.id, message.session_id, message.created_at, JSON.stringify(thinking_blocks)]
+    )
+  }
+
+  if (calls.length > 0) {
+    await client.query(
+      `INSERT INTO tool_calls (
+        message_id, session_id, position, call_id, name, input, output, error, duration_ms, created_at
+      )
+       SELECT $1, $2, c.position, c.call_id, c.name, c.input, c.output, c.error, c.duration_ms, $3
+       FROM jsonb_to_recordset($4::jsonb) AS c(
+         position INTEGER, call_id TEXT, name TEXT, input JSONB, output TEXT, error TEXT,
+         duration_ms INTEGER
+       )`,
+      [message.id, message.session_id, message.created_at, JSON.stringify(calls)]
+    )
+  }
+
+  return { message, created: true }
+}
+
+export async function captureMessage(input: CaptureMessageInput): Promise<CapturedMessage> {
+  return withTransaction((client) => insertMessage(client, input))
+}
+
+export async function captureMessages(inputs: CaptureMessageInput[]): Promise<CapturedMessage[]> {
+  return withTransaction(async (client) => {
+    const captured: CapturedMessage[] = []
+    for (const input of inputs) captured.push(await insertMessage(client, input))
+    return captured
+  })
+}
+
+/**
+ * Delete every message in a session, returning the number removed
+ */
+export async function deleteSessionMessages(sessionId: string): Promise<number> {
+  const result = await pool.query('DELETE FROM messages WHERE session_id = $1', [sessionId])
+  return result.rowCount ?? 0
+}
+
+export async function replaceSessionMessages(
+  sessionId: string,
+  messages: TranscriptMessage[]
+): Promise<Message[]> {
+  return withTransaction(async (client) => {
+    await client.query('DELETE FROM messages WHERE session_id = $1', [sessionId])
+    const stored: Message[] = []
+    for (const [index, { parent = index - 1, ...input }] of messages.entries()) {
+      const { message } = await insertMessage(client, {
+        ...input,
+        session_id: sessionId,
+        parent_message_id: parent === null || parent < 0 ? null : stored[parent]?.id
+      })
+      stored.push(message)
+    }
+    return stored
+  })
+}
+
+export async function getMessage(id: string): Promise<Message | null> {
+  const result = await pool.query<Message>('SELECT * FROM messages WHERE id = $1', [id])
+  return result.rows[0] || null
+}
+
+// Ancestors of the leaf message $1 within session $2, with the leaf at depth 0
+const BRANCH_CTE = `WITH RECURSIVE branch (id, parent_message_id, depth) AS (
+  SELECT id, parent_message_id, 0 FROM messages WHERE id = $1 AND session_id = $2
+  UNION ALL
+  SELECT m.id, m.parent_message_id, b.depth + 1
+  FROM messages m JOIN branch b ON m.id = b.parent_message_id
+  WHERE m.session_id = $2
+)`
+
+export async function getSessionMessages(
+  sessionId: string,
+  limit: number = 100,
+  offset: number = 0,
+  leafId?: string
+): Promise<{ messages: Message[]; total: number }> {
+  if (leafId) {
+    const [countResult, result] = await Promise.all([
+      pool.query<{ count: string }>(`${BRANCH_CTE} SELECT COUNT(*) as count FROM branch`, [
+        leafId,
+        sessionId
+      ]),
+      pool.query<Message>(
+        `${BRANCH_CTE}
+         SELECT m.* FROM branch b
+         JOIN messages m ON m.id = b.id
+         ORDER BY b.depth DESC
+         LIMIT $3 OFFSET $4`,
+        [leafId, sessionId, limit, offset]
+      )
+    ])
+    return { messages: result.rows, total: parseInt(countResult.rows[0].count, 10) }
+  }
+
+  const countResult = await pool.query<{ count: string }>(
+    'SELECT COUNT(*) as count FROM messages WHERE session_id = $1',
+    [sessionId]
+  )
+  const total = parseInt(countResult.rows[0].count, 10)
+
+  const result = await pool.query<Message>(
+    `SELECT * FROM messages
+     WHERE session_id = $1
+     ORDER BY created_at ASC, ingested_at ASC, id ASC
+     LIMIT $2 OFFSET $3`,
+    [sessionId, limit, offset]
+  )
+
+  return { messages: result.rows, total }
+}
+
+export async function getMessageLinks(sessionId: string): Promise<MessageLink[]> {
+  const result = await pool.query<MessageLink>(
+    `SELECT id, parent_message_id, branch_id, role,
+       LEFT(content, ${SNIPPET_LENGTH}) as preview, created_at
+     FROM messages
+     WHERE session_id = $1
+     ORDER BY created_at ASC, ingested_at ASC, id ASC`,
+    [sessionId]
+  )
+  return result.rows
+}
+
+/**
+ * Stream the rows of a query in batches through a server-side cursor, so
+ * callers never hold the full result set in memory
+ */
+export async function* streamRows<T extends pg.QueryResultRow>(
+  text: string,
+  params: unknown[] = [],
+  batchSize: number = 200
+): AsyncGenerator<T> {
+  const client = await pool.connect()
+  let committed = false
+  try {
+    await client.query('BEGIN')
+    await client.query(`DECLARE stream_cursor NO SCROLL CURSOR FOR ${text}`, params)
+
+    while (true) {
+      const result = await client.query<T>(`FETCH ${batchSize} FROM stream_cursor`)
+      yield* result.rows
+      if (result.rows.length < batchSize) break
+    }
+
+    await client.query('COMMIT')
+    committed = true
+  } finally {
+    // Also reached when the consumer stops iterating early
+    if (!committed) await client.query('ROLLBACK').catch(() => undefined)
+    client.release()
+  }
+}
+
+/**
+ * Stream every message in a session in order, for exports of long sessions
+ */
+export function streamSessionMessages(sessionId: string): AsyncGenerator<Message> {
+  return streamRows<Message>(
+    `SELECT * FROM messages
+     WHERE session_id = $1
+     ORDER BY created_at ASC, ingested_at ASC, id ASC`,
+    [sessionId]
+  )
+}
+
+export async function scanMessages(afterId: string | null, limit: number): Promise<Message[]> {
+  const result = await pool.query<Message>(
+    `SELECT * FROM messages
+     WHERE $1::uuid IS NULL OR id > $1::uuid
+     ORDER BY id ASC
+     LIMIT $2`,
+    [afterId, limit]
+  )
+  return result.rows
+}
+
+export async function redactMessage(id: string, redaction: MessageRedaction): Promise<void> {
+  await withTransaction(async (client) => {
+    await client.query(
+      `UPDATE messages SET content = $2, thinking_content = $3, tool_calls = $4, metadata = $5
+       WHERE id = $1`,
+      [
+        id,
+        redaction.content,
+        redaction.thinking_content,
+        JSON.stringify(redaction.tool_calls),
+        JSON.stringify(redaction.metadata)
+      ]
+    )
+    await client.query(
+      `UPDATE thinking_blocks b SET content = r.content
+       FROM jsonb_to_recordset($2::jsonb) AS r(position INTEGER, content TEXT)
+       WHERE b.message_id = $1 AND b.position = r.position`,
+      [id, JSON.stringify(redaction.thinking_blocks)]
+    )
+    await client.query(
+      `UPDATE tool_calls t SET input = COALESCE(r.input, '{}'), output = r.output, error = r.error
+       FROM jsonb_array_elements($2::jsonb) WITH ORDINALITY AS c(value, ordinality),
+         jsonb_to_record(c.value) AS r(input JSONB, output TEXT, error TEXT)
+       WHERE t.message_id = $1 AND t.position = c.ordinality - 1`,
+      [id, JSON.stringify(redaction.tool_calls)]
+    )
+    await client.query('DELETE FROM message_embeddings WHERE message_id = $1', [id])
+  })
+}
+
+// =============================================================================
+// Search Operations (Full-Text Search)
+// =============================================================================
+
+const SNIPPET_LENGTH = 200
+
+/**
+ * Builds a tsquery expression from parsed terms; every value is a bound parameter
+ */
+function toTsQuery(query: SearchQuery, bind: (value: unknown) => string): string | null {
+  const term = (t: SearchTerm) =>
+    `${t.phrase ? 'phraseto_tsquery' : 'plainto_tsquery'}('english', ${bind(t.text)})`
+
+  const parts = [
+    ...query.include.map((group) => `(${group.map(term).join(' || ')})`),
+    ...query.exclude.map((t) => `!!${term(t)}`)
+  ]
+  return parts.length > 0 ? parts.join(' && ') : null
+}
+
+export async function searchMessages(
+  query: SearchQuery,
+  options: MessageSearchOptions = {}
+): Promise<{ results: SearchResult[]; total: number }> {
+  const { sessionId, role, limit = 50, offset = 0, searchThinking = true } = options
+
+  const params: unknown[] = []
+  const bind = (value: unknown) => {
+    params.push(value)
+    return `$${params.length}`
+  }
+
+  // Content is weighted A and thinking B in search_vector
+  const scope = query.in ?? (searchThinking ? undefined : 'content')
+  const vector =
+    scope === 'content'
+      ? "ts_filter(m.search_vector, '{a}')"
+      : scope === 'thinking'
+        ? "ts_filter(m.search_vector, '{b}')"
+        : 'm.search_vector'
+
+  const conditions: string[] = []
+  const tsQuery = toTsQuery(query, bind)
+  if (tsQuery) conditions.push(`${vector} @@ (${tsQuery})`)
+
+  if (sessionId) conditions.push(`m.session_id = ${bind(sessionId)}`)
+  if (role) conditions.push(`m.role = ${bind(role)}`)
+  if (options.ids) conditions.push(`m.id = ANY(${bind(options.ids)}::uuid[])`)
+
+  if (query.models.length > 0) {
+    const models = query.models.map(
+      (model) => `m.model ILIKE ${bind(`${escapeLike(model)}%`)} ESCAPE '\\'`
+    )
+    conditions.push(`(${models.join(' OR ')})`)
+  }
+
+  if (query.projects.length > 0) {
+    const projects = query.projects.map(
+      (project) => `s.project_path ILIKE ${bind(`%${escapeLike(project)}%`)} ESCAPE '\\'`
+    )
+    conditions.push(`(${projects.join(' OR ')})`)
+  }
+
+  if (query.tools.length > 0) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM tool_calls tc
+        WHERE tc.message_id = m.id AND tc.name = ANY(${bind(query.tools)}))`
+    )
+  }
+
+  // A tag on the session applies to every message in it
+  const tags = [...new Set([...(options.tags ?? []), ...query.tags])]
+  if (tags.length > 0) {
+    conditions.push(
+      `(SELECT COUNT(DISTINCT t.tag) FROM tags t
+        WHERE t.session_id = m.session_id AND (t.message_id IS NULL OR t.message_id = m.id)
+          AND t.tag = ANY(${bind(tags)})) = ${bind(tags.length)}`
+    )
+  }
+
+  if (query.after) conditions.push(`m.created_at >= ${bind(query.after)}`)
+  if (query.before) conditions.push(`m.created_at < ${bind(query.before)}`)
+
+  const visible = visibilityCondition(options.viewer, 'm.session_id', bind)
+  if (visible) conditions.push(visible)
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+  // Count total results
+  const countResult = await pool.query<{ count: string }>(
+    `SELECT COUNT(*) as count
+     FROM messages m
+     JOIN sessions s ON m.session_id = s.id
+     ${whereClause}`,
+    params
+  )
+  const total = parseInt(countResult.rows[0].count, 10)
+
+  // Filter-only queries have nothing to highlight or rank, so they list newest first
+  const headline = (column: string) =>
+    tsQuery
+      ? `ts_headline('english', ${column}, ${tsQuery},
+         'MaxWords=50, MinWords=20, StartSel=<mark>, StopSel=</mark>')`
+      : `LEFT(${column}, ${SNIPPET_LENGTH})`
+  const thinkingSnippet =
+    scope === 'content' ? 'NULL' : headline("COALESCE(m.thinking_content, '')")
+
+  const result = await pool.query<SearchResult>(
+    `SELECT
+       m.id,
+       m.session_id,
+       s.name as session_name,
+       m.role,
+       ${headline('m.content')} as content_snippet,
+       ${thinkingSnippet} as thinking_snippet,
+       m.created_at,
+       ${tsQuery ? `ts_rank(${vector}, ${tsQuery})` : '0'} as rank
+     FROM messages m
+     JOIN sessions s ON m.session_id = s.id
+     ${whereClause}
+     ORDER BY rank DESC, m.created_at DESC
+     LIMIT ${bind(limit)} OFFSET ${bind(offset)}`,
+    params
+  )
+
+  return { results: result.rows, total }
+}
+
+// =============================================================================
+// Embedding Operations
+// =============================================================================
+
+// Embedding rows are small, so similarity scans read them in larger batches
+const EMBEDDING_BATCH_SIZE = 1000
+
+export async function saveEmbedding(provider: string, embedding: MessageEmbedding): Promise<void> {
+  await pool.query(
+    `INSERT INTO message_embeddings (message_id, session_id, provider, vector)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (message_id) DO UPDATE
+       SET provider = EXCLUDED.provider, vector = EXCLUDED.vector, created_at = NOW()`,
+    [embedding.message_id, embedding.session_id, provider, vectorToBytes(embedding.vector)]
+  )
+}
+
+export async function getEmbedding(messageId: string, provider: string): Promise<Float32Array | null> {
+  const result = await pool.query<{ vector: Buffer }>(
+    'SELECT vector FROM message_embeddings WHERE message_id = $1 AND provider = $2',
+    [messageId, provider]
+  )
+  return result.rows[0] ? bytesToVector(result.rows[0].vector) : null
+}
+
+export async function* streamEmbeddings(
+  provider: string,
+  sessionId?: string,
+  viewer?: Viewer
+): AsyncGenerator<MessageEmbedding> {
+  const params: unknown[] = [provider, sessionId ?? null]
+  const visible = visibilityCondition(viewer, 'session_id', (value) => {
+    params.push(value)
+    return `$${params.length}`
+  })
+  const rows = streamRows<{ message_id: string; session_id: string; vector: Buffer }>(
+    `SELECT message_id, session_id, vector FROM message_embeddings
+     WHERE provider = $1 AND ($2::uuid IS NULL OR session_id = $2)
+       ${visible ? `AND ${visible}` : ''}`,
+    params,
+    EMBEDDING_BATCH_SIZE
+  )
+  for await (const row of rows) {
+    yield {
+      message_id: row.message_id,
+      session_id: row.session_id,
+      vector: bytesToVector(row.vector)
+    }
+  }
+}
+
+/**
+ * Messages with no embedding from the provider, oldest first
+ */
+export async function listUnembeddedMessages(provider: string, limit: number): Promise<Message[]> {
+  const result = await pool.query<Message>(
+    `SELECT m.* FROM messages m
+     LEFT JOIN message_embeddings e ON e.message_id = m.id AND e.provider = $1
+     WHERE e.message_id IS NULL
+     ORDER BY m.created_at ASC, m.ingested_at ASC, m.id ASC
+     LIMIT $2`,
+    [provider, limit]
+  )
+  return result.rows
+}
+
+// =============================================================================
+// Thinking Block Operations
+// =============================================================================
+
+const THINKING_BLOCK_COLUMNS = `id, message_id, session_id, position, type, content, data,
+  signature, token_count, created_at`
+
+export async function getThinkingBlocks(messageId: string): Promise<ThinkingBlock[]> {
+  const result = await pool.query<ThinkingBlock>(
+    `SELECT ${THINKING_BLOCK_COLUMNS} FROM thinking_blocks
+     WHERE message_id = $1
+     ORDER BY position ASC`,
+    [messageId]
+  )
+  return result.rows
+}
+
+export async function getThinkingBlock(id: string): Promise<ThinkingBlock | null> {
+  const result = await pool.query<ThinkingBlock>(
+    `SELECT ${THINKING_BLOCK_COLUMNS} FROM thinking_blocks WHERE id = $1`,
+    [id]
+  )
+  return result.rows[0] || null
+}
+
+export async function searchThinkingBlocks(
+  query: string,
+  options: ThinkingBlockSearchOptions = {}
+): Promise<{ results: ThinkingBlockSearchResult[]; total: number }> {
+  const { sessionId, limit = 50, offset = 0 } = options
+
+  const conditions: string[] = ["b.search_vector @@ plainto_tsquery('english', $1)"]
+  const params: unknown[] = [query]
+  let paramIndex = 2
+
+  if (sessionId) {
+    conditions.push(`b.session_id = $${paramIndex}`)
+    params.push(sessionId)
+    paramIndex++
+  }
+
+  const visible = visibilityCondition(options.viewer, 'b.session_id', (value) => {
+    params.push(value)
+    return `$${paramIndex++}`
+  })
+  if (visible) conditions.push(visible)
+
+  const whereClause = conditions.join(' AND ')
+
+  const countResult = await pool.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM thinking_blocks b WHERE ${whereClause}`,
+    params
+  )
+  const total = parseInt(countResult.rows[0].count, 10)
+
+  params.push(limit, offset)
+  const result = await pool.query<ThinkingBlockSearchResult>(
+    `SELECT
+       b.id,
+       b.message_id,
+       b.session_id,
+       s.name as session_name,
+       b.position,
+       ts_headline('english', b.content, plainto_tsquery('english', $1),
+         'MaxWords=50, MinWords=20, StartSel=<mark>, StopSel=</mark>') as snippet,
+       b.created_at,
+       ts_rank(b.search_vector, plainto_tsquery('english', $1)) as rank
+     FROM thinking_blocks b
+     JOIN sessions s ON b.session_id = s.id
+     WHERE ${whereClause}
+     ORDER BY rank DESC, b.created_at DESC
+     LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+    params
+  )
+
+  return { results: result.rows, total }
+}
+
+// =============================================================================
+// Tool Call Operations
+// =============================================================================
+
+const TOOL_CALL_COLUMNS = `id, message_id, session_id, position, call_id, name, input, output,
+  error, duration_ms, created_at`
+
+export async function listToolCalls(
+  filter: ToolCallFilter = {}
+): Promise<{ tool_calls: ToolCallRecord[]; total: number }> {
+  const { name, sessionId, hasError, limit = 50, offset = 0 } = filter
+
+  const conditions: string[] = []
+  const params: unknown[] = []
+  let paramIndex = 1
+
+  if (name) {
+    conditions.push(`name = $${paramIndex}`)
+    params.push(name)
+    paramIndex++
+  }
+
+  if (sessionId) {
+    conditions.push(`session_id = $${paramIndex}`)
+    params.push(sessionId)
+    paramIndex++
+  }
+
+  if (hasError !== undefined) {
+    conditions.push(hasError ? 'error IS NOT NULL' : 'error IS NULL')
+  }
+
+  const visible = visibilityCondition(filter.viewer, 'session_id', (value) => {
+    params.push(value)
+    return `$${paramIndex++}`
+  })
+  if (visible) conditions.push(visible)
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+  const countResult = await pool.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM tool_calls ${whereClause}`,
+    params
+  )
+  const total = parseInt(countResult.rows[0].count, 10)
+
+  params.push(limit, offset)
+  const result = await pool.query<ToolCallRecord>(
+    `SELECT ${TOOL_CALL_COLUMNS} FROM tool_calls
+     ${whereClause}
+     ORDER BY created_at DESC, position ASC
+     LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+    params
+  )
+
+  return { tool_calls: result.rows, total }
+}
+
+export async function getToolCall(id: string): Promise<ToolCallRecord | null> {
+  const result = await pool.query<ToolCallRecord>(
+    `SELECT ${TOOL_CALL_COLUMNS} FROM tool_calls WHERE id = $1`,
+    [id]
+  )
+  return result.rows[0] || null
+}
+
+// =============================================================================
+// Annotation Operations
+// =============================================================================
+
+// Matches the rows of one session (message_id NULL) or one message; expects $1 and $2
+const TARGET_CONDITION = 'session_id = $1 AND message_id IS NOT DISTINCT FROM $2::uuid'
+
+async function getTags(target: AnnotationTarget): Promise<string[]> {
+  const result = await pool.query<{ tag: string }>(
+    `SELECT tag FROM tags WHERE ${TARGET_CONDITION} ORDER BY tag`,
+    [target.session_id, target.message_id]
+  )
+  return result.rows.map((row) => row.tag)
+}
+
+export async function getAnnotations(
+  target: AnnotationTarget,
+  userId: string | null
+): Promise<Annotations> {
+  const params = [target.session_id, target.message_id]
+  const [tags, notes, bookmark] = await Promise.all([
+    getTags(target),
+    pool.query<Note>(`SELECT * FROM notes WHERE ${TARGET_CONDITION} ORDER BY created_at ASC`, params),
+    pool.query(
+      `SELECT 1 FROM bookmarks
+       WHERE ${TARGET_CONDITION} AND user_id IS NOT DISTINCT FROM $3::uuid`,
+      [...params, userId]
+    )
+  ])
+  return { tags, notes: notes.rows, bookmarked: bookmark.rows.length > 0 }
+}
+
+/**
+ * Add tags to a session or message, returning its full tag list
+ */
+export async function addTags(target: AnnotationTarget, tags: string[]): Promise<string[]> {
+  await pool.query(
+    `INSERT INTO tags (session_id, message_id, tag)
+     SELECT $1, $2, unnest($3::text[])
+     ON CONFLICT DO NOTHING`,
+    [target.session_id, target.message_id, tags]
+  )
+  return getTags(target)
+}
+
+/**
+ * Remove tags from a session or message, returning its remaining tags
+ */
+export async function removeTags(target: AnnotationTarget, tags: string[]): Promise<string[]> {
+  await pool.query(`DELETE FROM tags WHERE ${TARGET_CONDITION} AND tag = ANY($3)`, [
+    target.session_id,
+    target.message_id,
+    tags
+  ])
+  return getTags(target)
+}
+
+export async function addNote(
+  target: AnnotationTarget,
+  content: string,
+  userId: string | null
+): Promise<Note> {
+  const result = await pool.query<Note>(
+    `INSERT INTO notes (session_id, message_id, content, user_id)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [target.session_id, target.message_id, content, userId]
+  )
+  return result.rows[0]
+}
+
+export async function getNote(id: string): Promise<Note | null> {
+  const result = await pool.query<Note>('SELECT * FROM notes WHERE id = $1', [id])
+  return result.rows[0] || null
+}
+
+export async function updateNote(id: string, content: string): Promise<Note | null> {
+  const result = await pool.query<Note>(
+    'UPDATE notes SET content = $2 WHERE id = $1 RETURNING *',
+    [id, content]
+  )
+  return result.rows[0] || null
+}
+
+export async function deleteNote(id: string): Promise<boolean> {
+  const result = await pool.query('DELETE FROM notes WHERE id = $1', [id])
+  return (result.rowCount ?? 0) > 0
+}
+
+export async function setBookmark(
+  target: AnnotationTarget,
+  bookmarked: boolean,
+  userId: string | null
+): Promise<void> {
+  if (bookmarked) {
+    await pool.query(
+      `INSERT INTO bookmarks (session_id, message_id, user_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT DO NOTHING`,
+      [target.session_id, target.message_id, userId]
+    )
+  } else {
+    await pool.query(
+      `DELETE FROM bookmarks
+       WHERE ${TARGET_CONDITION} AND user_id IS NOT DISTINCT FROM $3::uuid`,
+      [target.session_id, target.message_id, userId]
+    )
+  }
+}
+
+export async function listBookmarks(
+  limit: number = 50,
+  offset: number = 0,
+  viewer?: Viewer
+): Promise<{ bookmarks: Bookmark[]; total: number }> {
+  const params: unknown[] = []
+  const visible = visibilityCondition(viewer, 'b.session_id', (value) => {
+    params.push(value)
+    return `$${params.length}`
+  })
+  if (viewer) params.push(viewer.user_id)
+  const whereClause = viewer
+    ? `WHERE ${visible} AND b.user_id IS NOT DISTINCT FROM $${params.length}::uuid`
+    : ''
+
+  const countResult = await pool.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM bookmarks b ${whereClause}`,
+    params
+  )
+  const total = parseInt(countResult.rows[0].count, 10)
+
+  const result = await pool.query<Bookmark>(
+    `SELECT b.id, b.session_id, s.name as session_name, b.message_id, b.user_id, b.created_at
+     FROM bookmarks b
+     JOIN sessions s ON s.id = b.session_id
+     ${whereClause}
+     ORDER BY b.created_at DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  )
+
+  return { bookmarks: result.rows, total }
+}
+
+// =============================================================================
+// Event Operations
+// =============================================================================
+
+const EVENT_CHANNEL = 'tracker_events'
+
+const LISTEN_RETRY_MS = 5000
+
+// BIGSERIAL ids arrive as strings, and timestamps as strings inside NOTIFY payloads
+interface EventRow extends Omit<StreamEvent, 'id' | 'created_at'> {
+  id: string | number
+  created_at: string | Date
+}
+
+function toEvent(row: EventRow): StreamEvent {
+  return { ...row, id: Number(row.id), created_at: new Date(row.created_at) }
+}
+
+/**
+ * Appends an event and notifies listeners in every process when the insert commits
+ */
+export async function appendEvent(input: StreamEventInput): Promise<StreamEvent> {
+  const result = await pool.query<EventRow>(
+    `WITH inserted AS (
+       INSERT INTO events (type, session_id, message_id)
+       VALUES ($1, $2, $3)
+       RETURNING *
+     )
+     SELECT inserted.*
+     FROM inserted, pg_notify('${EVENT_CHANNEL}', row_to_json(inserted)::text)`,
+    [input.type, input.session_id, input.message_id]
+  )
+  return toEvent(result.rows[0])
+}
+
+export async function listEvents(
+  afterId: number,
+  sessionId?: string,
+  limit: number = 500
+): Promise<StreamEvent[]> {
+  const result = await pool.query<EventRow>(
+    `SELECT * FROM events
+     WHERE id > $1 AND ($2::uuid IS NULL OR session_id = $2)
+     ORDER BY id ASC
+     LIMIT $3`,
+    [afterId, sessionId ?? null, limit]
+  )
+  return result.rows.map(toEvent)
+}
+
+/**
+ * LISTENs on a dedicated connection outside the pool, reconnecting after
+ * errors and replaying events appended while it was disconnected
+ */
+export function watchEvents(listener: (event: StreamEvent) => void): () => void {
+  let client: pg.Client | null = null
+  let retry: NodeJS.Timeout | undefined
+  let stopped = false
+  let lastId = 0
+
+  const deliver = (event: StreamEvent) => {
+    lastId = Math.max(lastId, event.id)
+    listener(event)
+  }
+
+  const reconnect = (error: unknown) => {
+    console.error('Event listener disconnected:', formatErrorMessage(error))
+    client?.end().catch(() => undefined)
+    client = null
+    if (stopped || retry) return
+    retry = setTimeout(() => {
+      retry = undefined
+      void connect()
+    }, LISTEN_RETRY_MS)
+  }
+
+  const connect = async () => {
+    const next = new pg.Client({ connectionString: process.env.DATABASE_URL || '' })
+    next.on('notification', (notification) => {
+      if (notification.payload) deliver(toEvent(JSON.parse(notification.payload)))
+    })
+    next.on('error', reconnect)
+    try {
+      await next.connect()
+      await next.query(`LISTEN ${EVENT_CHANNEL}`)
+      if (stopped) {
+        await next.end()
+        return
+      }
+      client = next
+      if (lastId > 0) {
+        for (const event of await listEvents(lastId)) {
+          if (event.id > lastId) deliver(event)
+        }
+      }
+    } catch (error) {
+      reconnect(error)
+    }
+  }
+
+  void connect()
+
+  return () => {
+    stopped = true
+    clearTimeout(retry)
+    client?.end().catch(() => undefined)
+    client = null
+  }
+}
+
+export async function pruneEvents(before: Date): Promise<number> {
+  const result = await pool.query('DELETE FROM events WHERE created_at < $1', [before])
+  return result.rowCount ?? 0
+}
+
+// =============================================================================
+// API Key Operations
+// =============================================================================
+
+// Never includes key_hash, which stays inside the database
+const API_KEY_COLUMNS = 'id, name, user_id, prefix, scopes, created_at, last_used_at, revoked_at'
+
+export async function createApiKey(input: CreateApiKeyInput): Promise<ApiKey> {
+  const result = await pool.query<ApiKey>(
+    `INSERT INTO api_keys (name, user_id, prefix, key_hash, scopes)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${API_KEY_COLUMNS}`,
+    [input.name, input.user_id, input.prefix, input.key_hash, input.scopes]
+  )
+  return result.rows[0]
+}
+
+export async function findApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+  const result = await pool.query<ApiKey>(
+    `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE key_hash = $1`,
+    [keyHash]
+  )
+  return result.rows[0] || null
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const result = await pool.query<ApiKey>(
+    `SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at ASC`
+  )
+  return result.rows
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKey | null> {
+  const result = await pool.query<ApiKey>(
+    `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, NOW())
+     WHERE id = $1
+     RETURNING ${API_KEY_COLUMNS}`,
+    [id]
+  )
+  return result.rows[0] || null
+}
+
+export async function touchApiKey(id: string, usedAt: Date): Promise<void> {
+  await pool.query('UPDATE api_keys SET last_used_at = $2 WHERE id = $1', [id, usedAt])
+}
+
+// =============================================================================
+// Workspace and User Operations
+// =============================================================================
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  const result = await pool.query<Workspace>(
+    'INSERT INTO workspaces (name) VALUES ($1) RETURNING *',
+    [name]
+  )
+  return result.rows[0]
+}
+
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const result = await pool.query<Workspace>('SELECT * FROM workspaces ORDER BY name ASC')
+  return result.rows
+}
+
+export async function createUser(input: CreateUserInput): Promise<User> {
+  const result = await pool.query<User>(
+    'INSERT INTO users (name, workspace_id) VALUES ($1, $2) RETURNING *',
+    [input.name, input.workspace_id]
+  )
+  return result.rows[0]
+}
+
+export async function getUser(id: string): Promise<User | null> {
+  const result = await pool.query<User>('SELECT * FROM users WHERE id = $1', [id])
+  return result.rows[0] || null
+}
+
+export async function listUsers(): Promise<User[]> {
+  const result = await pool.query<User>('SELECT * FROM users ORDER BY name ASC')
+  return result.rows
+}
+
+// =============================================================================
+// Retention Operations
+// =============================================================================
+
+/**
+ * Condition keeping rows of exempt sessions out of a purge
+ */
+function retentionExemption(
+  exemptions: RetentionExemptions,
+  column: string,
+  params: unknown[]
+): string {
+  const conditions: string[] = []
+  if (exemptions.tags.includes('*')) {
+    conditions.push(`${column} NOT IN (SELECT session_id FROM tags)`)
+  } else if (exemptions.tags.length > 0) {
+    params.push(exemptions.tags)
+    conditions.push(
+      `${column} NOT IN (SELECT session_id FROM tags WHERE tag = ANY($${params.length}))`
+    )
+  }
+  if (exemptions.bookmarked) {
+    // Only the owner's bookmark counts, so anyone who can see a session cannot pin it
+    conditions.push(
+      `${column} NOT IN (SELECT b.session_id FROM bookmarks b
+        JOIN sessions bs ON bs.id = b.session_id WHERE b.user_id IS NOT DISTINCT FROM bs.user_id)`
+    )
+  }
+  return conditions.length > 0 ? conditions.join(' AND ') : 'TRUE'
+}
+
+/**
+ * Clears thinking captured before the cutoff; token counts are kept for
+ * analytics and cost, and embeddings are dropped so they are rebuilt from
+ * the remaining content
+ */
+export async function purgeThinking(
+  before: Date,
+  exemptions: RetentionExemptions,
+  dryRun: boolean
+): Promise<ThinkingPurge> {
+  return withTransaction(async (client) => {
+    const params: unknown[] = [before]
+    const exempt = retentionExemption(exemptions, 'm.session_id', params)
+    const messages = await client.query<{ id: string }>(
+      `SELECT m.id FROM messages m
+       WHERE m.created_at < $1 AND ${exempt}
+         AND (m.thinking_content IS NOT NULL
+           OR EXISTS (SELECT 1 FROM thinking_blocks b WHERE b.message_id = m.id))`,
+      params
+    )
+    const ids = messages.rows.map((row) => row.id)
+    const blocks = await client.query<{ count: string }>(
+      'SELECT COUNT(*) as count FROM thinking_blocks WHERE message_id = ANY($1::uuid[])',
+      [ids]
+    )
+    const result = { messages: ids.length, thinking_blocks: parseInt(blocks.rows[0].count, 10) }
+    if (dryRun || ids.length === 0) return result
+
+    await client.query('UPDATE messages SET thinking_content = NULL WHERE id = ANY($1::uuid[])', [
+      ids
+    ])
+    await client.query('DELETE FROM thinking_blocks WHERE message_id = ANY($1::uuid[])', [ids])
+    await client.query('DELETE FROM message_embeddings WHERE message_id = ANY($1::uuid[])', [ids])
+    return result
+  })
+}
+
+export async function purgeSessions(
+  before: Date,
+  exemptions: RetentionExemptions,
+  options: { rollup: boolean; dryRun: boolean }
+): Promise<SessionPurge> {
+  return withTransaction(async (client) => {
+    const params: unknown[] = [before]
+    const exempt = retentionExemption(exemptions, 's.id', params)
+    // A session's last activity is its latest message, end or start, whichever is newest
+    const sessions = await client.query<{ id: string }>(
+      `SELECT s.id FROM sessions s
+       WHERE GREATEST(
+           s.started_at,
+           s.ended_at,
+           (SELECT MAX(m.created_at) FROM messages m WHERE m.session_id = s.id)
+         ) < $1
+         AND ${exempt}`,
+      params
+    )
+    const ids = sessions.rows.map((row) => row.id)
+    const messages = await client.query<{ count: string }>(
+      'SELECT COUNT(*) as count FROM messages WHERE session_id = ANY($1::uuid[])',
+      [ids]
+    )
+    const result = { sessions: ids.length, messages: parseInt(messages.rows[0].count, 10) }
+    if (options.dryRun || ids.length === 0) return result
+
+    if (options.rollup) {
+      await client.query(
+        `INSERT INTO daily_stats_rollup (
+           date, sessions, messages, thinking_tokens, input_tokens, output_tokens
+         )
+         SELECT
+           DATE(created_at),
+           COUNT(DISTINCT session_id),
+           COUNT(*),
+           SUM(COALESCE(thinking_tokens, 0)),
+           SUM(COALESCE(input_tokens, 0)),
+           SUM(COALESCE(output_tokens, 0))
+         FROM messages
+         WHERE session_id = ANY($1::uuid[])
+         GROUP BY DATE(created_at)
+         ON CONFLICT (date) DO UPDATE SET
+           sessions = daily_stats_rollup.sessions + EXCLUDED.sessions,
+           messages = daily_stats_rollup.messages + EXCLUDED.messages,
+           thinking_tokens = daily_stats_rollup.thinking_tokens + EXCLUDED.thinking_tokens,
+           input_tokens = daily_stats_rollup.input_tokens + EXCLUDED.input_tokens,
+           output_tokens = daily_stats_rollup.output_tokens + EXCLUDED.output_tokens`,
+        [ids]
+      )
+    }
+    await client.query('DELETE FROM sessions WHERE id = ANY($1::uuid[])', [ids])
+    return result
+  })
+}
+
+// =============================================================================
+// Analytics Operations
+// =============================================================================
+
+/**
+ * Analytics count every session in the viewer's workspace ('usage' mode);
+ * `column` is the session id column of the aggregated table
+ */
+function usageScope(
+  viewer: Viewer | undefined,
+  column: string,
+  params: unknown[]
+): string | null {
+  return visibilityCondition(
+    viewer,
+    column,
+    (value) => {
+      params.push(value)
+      return `$${params.length}`
+    },
+    'usage'
+  )
+}
+
+export async function getOverallStats(viewer?: Viewer): Promise<SessionStats> {
+  const params: unknown[] = []
+  const sessionScope = usageScope(viewer, 'id', params)
+  const messageScope = usageScope(viewer, 'session_id', params)
+  const result = await pool.query<{
+    total_sessions: string
+    total_messages: string
+    total_thinking_tokens: string
+    total_input_tokens: string
+    total_output_tokens: string
+    avg_thinking_tokens_per_message: string
+  }>(
+    `
+    SELECT
+      (SELECT COUNT(*) FROM sessions ${sessionScope ? `WHERE ${sessionScope}` : ''})
+        as total_sessions,
+      COUNT(*) as total_messages,
+      COALESCE(SUM(thinking_tokens), 0) as total_thinking_tokens,
+      COALESCE(SUM(input_tokens), 0) as total_input_tokens,
+      COALESCE(SUM(output_tokens), 0) as total_output_tokens,
+      COALESCE(AVG(thinking_tokens) FILTER (WHERE thinking_tokens > 0), 0) as avg_thinking_tokens_per_message
+    FROM messages
+    ${messageScope ? `WHERE ${messageScope}` : ''}
+  `,
+    params
+  )
+
+  const row = result.rows[0]
+  return {
+    total_sessions: parseInt(row.total_sessions, 10),
+    total_messages: parseInt(row.total_messages, 10),
+    total_thinking_tokens: parseInt(row.total_thinking_tokens, 10),
+    total_input_tokens: parseInt(row.total_input_tokens, 10),
+    total_output_tokens: parseInt(row.total_output_tokens, 10),
+    avg_thinking_tokens_per_message: parseFloat(row.avg_thinking_tokens_per_message)
+  }
+}
+
+export async function getDailyStats(days: number = 30, viewer?: Viewer): Promise<DailyStats[]> {
+  if (!viewer) {
+    const result = await pool.query<DailyStats>(
+      `SELECT * FROM daily_stats
+       WHERE date >= CURRENT_DATE - $1::interval
+       ORDER BY date DESC`,
+      [`${days} days`]
+    )
+    return result.rows
+  }
+
+  // The daily_stats view cannot be narrowed to sessions, so scoped viewers aggregate directly
+  // and leave out rolled-up history, which is not kept per session
+  const params: unknown[] = [`${days} days`]
+  const scope = usageScope(viewer, 'session_id', params)
+  const result = await pool.query<DailyStats>(
+    `SELECT
+       DATE(created_at) as date,
+       COUNT(DISTINCT session_id) as sessions,
+       COUNT(*) as messages,
+       SUM(COALESCE(thinking_tokens, 0)) as thinking_tokens,
+       SUM(COALESCE(input_tokens, 0)) as input_tokens,
+       SUM(COALESCE(output_tokens, 0)) as output_tokens
+     FROM messages
+     WHERE DATE(created_at) >= CURRENT_DATE - $1::interval AND ${scope}
+     GROUP BY DATE(created_at)
+     ORDER BY date DESC`,
+    params
+  )
+  return result.rows
+}
+
+// Per-tool aggregates shared by the all-time and per-day tool statistics
+const TOOL_STATS_COLUMNS = `
+  name as tool_name,
+  COUNT(*)::int as call_count,
+  AVG(duration_ms)::float as avg_duration_ms,
+  COUNT(error)::int as error_count,
+  COUNT(error)::float / COUNT(*) as error_rate,
+  percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms) as p50_duration_ms,
+  percentile_cont(0.95) WITHIN GROUP (ORDER BY duration_ms) as p95_duration_ms,
+  COUNT(DISTINCT session_id)::int as sessions,
+  COUNT(*)::float / COUNT(DISTINCT session_id) as calls_per_session`
+
+export async function getToolUsageStats(viewer?: Viewer): Promise<ToolUsageStats[]> {
+  const params: unknown[] = []
+  const scope = usageScope(viewer, 'session_id', params)
+  const result = await pool.query<ToolUsageStats>(
+    `
+    SELECT ${TOOL_STATS_COLUMNS}
+    FROM tool_calls
+    ${scope ? `WHERE ${scope}` : ''}
+    GROUP BY name
+    ORDER BY call_count DESC
+  `,
+    params
+  )
+  return result.rows
+}
+
+/**
+ * Per-tool statistics for each UTC day in the window, newest first
+ */
+export async function getToolTrends(filter: ToolTrendFilter = {}): Promise<ToolTrend[]> {
+  const params: unknown[] = [filter.name ?? null, filter.days ?? 30]
+  const scope = usageScope(filter.viewer, 'session_id', params)
+  const result = await pool.query<ToolTrend>(
+    `SELECT
+       to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') as date,
+       ${TOOL_STATS_COLUMNS}
+     FROM tool_calls
+     WHERE ($1::text IS NULL OR name = $1)
+       AND created_at >= NOW() - make_interval(days => $2::int)
+       ${scope ? `AND ${scope}` : ''}
+     GROUP BY 1, name
+     ORDER BY date DESC, call_count DESC`,
+    params
+  )
+  return result.rows
+}
+
+/**
+ * Usage split by the client that produced each session (the importer source,
+ * or 'unknown' for live captures that did not record one)
+ */
+export async function getClientStats(viewer?: Viewer): Promise<ClientStats[]> {
+  const params: unknown[] = []
+  const scope = usageScope(viewer, 's.id', params)
+  const result = await pool.query<ClientStats>(
+    `
+    SELECT
+      COALESCE(s.metadata->>'source', 'unknown') as client,
+      COUNT(DISTINCT s.id) as sessions,
+      COUNT(m.id) as messages,
+      COALESCE(SUM(m.thinking_tokens), 0) as thinking_tokens,
+      COALESCE(SUM(m.input_tokens), 0) as input_tokens,
+      COALESCE(SUM(m.output_tokens), 0) as output_tokens
+    FROM sessions s
+    LEFT JOIN messages m ON m.session_id = s.id
+    ${scope ? `WHERE ${scope}` : ''}
+    GROUP BY COALESCE(s.metadata->>'source', 'unknown')
+    ORDER BY messages DESC
+  `,
+    params
+  )
+  return result.rows
+}
+
+/**
+ * Usage split by the user who owns each session; unowned sessions are
+ * grouped under a null user
+ */
+export async function getUserStats(viewer?: Viewer): Promise<UserStats[]> {
+  const params: unknown[] = []
+  const scope = usageScope(viewer, 's.id', params)
+  const result = await pool.query<UserStats>(
+    `
+    SELECT
+      s.user_id,
+      u.name as user_name,
+      COUNT(DISTINCT s.id) as sessions,
+      COUNT(m.id) as messages,
+      COALESCE(SUM(m.thinking_tokens), 0) as thinking_tokens,
+      COALESCE(SUM(m.input_tokens), 0) as input_tokens,
+      COALESCE(SUM(m.output_tokens), 0) as output_tokens
+    FROM sessions s
+    LEFT JOIN users u ON u.id = s.user_id
+    LEFT JOIN messages m ON m.session_id = s.id
+    ${scope ? `WHERE ${scope}` : ''}
+    GROUP BY s.user_id, u.name
+    ORDER BY messages DESC
+  `,
+    params
+  )
+  return result.rows
+}
+
+// Ids of session $1 and every sub-session below it
+const SESSION_TREE = `WITH RECURSIVE tree (id) AS (
+  SELECT $1::uuid
+  UNION ALL
+  SELECT s.id FROM sessions s JOIN tree t ON s.parent_session_id = t.id
+) SELECT id FROM tree`
+
+/**
+ * Token totals per UTC day, model and project, the granularity pricing needs
+ */
+export async function getTokenUsage(filter: TokenUsageFilter = {}): Promise<TokenUsage[]> {
+  const params: unknown[] = [filter.sessionId ?? null, filter.days ?? null]
+  const sessions = filter.withDescendants ? SESSION_TREE : '$1'
+  const scope = usageScope(filter.viewer, 'm.session_id', params)
+  // Project paths are content, so sessions the viewer may only count give none
+  const readable = visibilityCondition(filter.viewer, 's.id', (value) => {
+    params.push(value)
+    return `$${params.length}`
+  })
+  const projectPath = readable
+    ? `CASE WHEN ${readable} THEN s.project_path END`
+    : 's.project_path'
+  const result = await pool.query<TokenUsage>(
+    `SELECT
+       to_char(m.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') as date,
+       m.model,
+       ${projectPath} as project_path,
+       u.name as user_name,
+       COUNT(*) as messages,
+       COALESCE(SUM(m.input_tokens), 0) as input_tokens,
+       COALESCE(SUM(m.output_tokens), 0) as output_tokens,
+       COALESCE(SUM(m.thinking_tokens), 0) as thinking_tokens,
+       COALESCE(SUM(m.cache_creation_input_tokens), 0) as cache_creation_input_tokens,
+       COALESCE(SUM(m.cache_read_input_tokens), 0) as cache_read_input_tokens
+     FROM messages m
+     JOIN sessions s ON s.id = m.session_id
+     LEFT JOIN users u ON u.id = s.user_id
+     WHERE ($1::uuid IS NULL OR m.session_id IN (${sessions}))
+       AND ($2::int IS NULL OR m.created_at >= NOW() - make_interval(days => $2::int))
+       ${scope ? `AND ${scope}` : ''}
+     GROUP BY 1, m.model, 3, u.name`,
+    params
+  )
+  return result.rows
+}
+
+/**
+ * Most used tags, counting session and message tags separately. Tags are
+ * content, so only those on sessions the viewer may read are counted.
+ */
+export async function getTagCloud(limit: number = 100, viewer?: Viewer): Promise<TagCount[]> {
+  const params: unknown[] = [limit]
+  const scope = visibilityCondition(viewer, 'session_id', (value) => {
+    params.push(value)
+    return `$${params.length}`
+  })
+  const result = await pool.query<TagCount>(
+    `SELECT
+       tag,
+       COUNT(*) FILTER (WHERE message_id IS NULL)::int as sessions,
+       COUNT(*) FILTER (WHERE message_id IS NOT NULL)::int as messages
+     FROM tags
+     ${scope ? `WHERE ${scope}` : ''}
+     GROUP BY tag
+     ORDER BY COUNT(*) DESC, tag ASC
+     LIMIT $1`,
+    params
+  )
+  return result.rows
+}
+
+export async function getSessionStats(
+  sessionId: string,
+  withDescendants: boolean = false
+): Promise<SessionUsageStats | null> {
+  const sessions = withDescendants ? SESSION_TREE : '$1'
+  const result = await pool.query<{
+    message_count: string
+    thinking_tokens: string
+    input_tokens: string
+    output_tokens: string
+    tool_calls: string
+    duration_minutes: string
+    session_count: string
+  }>(
+    `
+    SELECT
+      COUNT(*) as message_count,
+      COALESCE(SUM(thinking_tokens), 0) as thinking_tokens,
+      COALESCE(SUM(input_tokens), 0) as input_tokens,
+      COALESCE(SUM(output_tokens), 0) as output_tokens,
+      (SELECT COUNT(*) FROM tool_calls WHERE session_id IN (${sessions})) as tool_calls,
+      EXTRACT(EPOCH FROM (MAX(created_at) - MIN(created_at))) / 60 as duration_minutes,
+      ${withDescendants ? `(SELECT COUNT(*) FROM (${SESSION_TREE}) tree)` : 1} as session_count
+    FROM messages
+    WHERE session_id IN (${sessions})
+  `,
+    [sessionId]
+  )
+
+  if (result.rows.length === 0) return null
+
+  const row = result.rows[0]
+  return {
+    message_count: parseInt(row.message_count, 10),
+    thinking_tokens: parseInt(row.thinking_tokens, 10),
+    input_tokens: parseInt(row.input_tokens, 10),
+    output_tokens: parseInt(row.output_tokens, 10),
+    tool_calls: parseInt(row.tool_calls, 10),
+    duration_minutes: parseFloat(row.duration_minutes) || 0,
+    ...(withDescendants && { descendant_count: parseInt(row.session_count, 10) - 1 })
+  }
+}
+
+export const postgresStorage: Storage = {
+  backend: 'postgres',
+  createSession,
+  getSession,
+  listSessions,
+  findSessionBySource,
+  updateSession,
+  endSession,
+  deleteSession,
+  mergeSessions,
+  splitSession,
+  captureMessage,
+  captureMessages,
+  deleteSessionMessages,
+  replaceSessionMessages,
+  getMessage,
+  getSessionMessages,
+  getMessageLinks,
+  streamSessionMessages,
+  scanMessages,
+  redactMessage,
+  searchMessages,
+  saveEmbedding,
+  getEmbedding,
+  streamEmbeddings,
+  listUnembeddedMessages,
+  getThinkingBlocks,
+  getThinkingBlock,
+  searchThinkingBlocks,
+  listToolCalls,
+  getToolCall,
+  getAnnotations,
+  addTags,
+  removeTags,
+  addNote,
+  getNote,
+  updateNote,
+  deleteNote,
+  setBookmark,
+  listBookmarks,
+  appendEvent,
+  listEvents,
+  watchEvents,
+  pruneEvents,
+  createApiKey,
+  findApiKeyByHash,
+  listApiKeys,
+  revokeApiKey,
+  touchApiKey,
+  createWorkspace,
+  listWorkspaces,
+  createUser,
+  getUser,
+  listUsers,
+  purgeThinking,
+  purgeSessions,
+  getOverallStats,
+  getDailyStats,
+  getToolUsageStats,
+  getToolTrends,
+  getClientStats,
+  getUserStats,
+  getTokenUsage,
+  getTagCloud,
+  getSessionStats,
+  close: () => pool.end()
+}
+
+// Export pool for raw queries if needed
+export { pool }
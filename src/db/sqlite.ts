@@ -0,0 +1,2503 @@
+/**
+ * Embedded SQLite storage backend
+ * A single database file with FTS5 full-text search; the schema is created
+ * and upgraded in place when the file is opened (tracked with PRAGMA user_version).
+ */
+
+import { randomUUID } from 'crypto'
+import { EventEmitter } from 'events'
+import type BetterSqlite3 from 'better-sqlite3'
+import { applyMetadataPatch, normalizeCaptureInput } from './normalize.js'
+import { escapeLike } from '../search/query.js'
+import { vectorToBytes, bytesToVector } from '../embeddings/vector.js'
+import { visibilityCondition, VisibilityMode } from './visibility.js'
+import type { Storage } from './storage.js'
+import type {
+  Session,
+  Message,
+  CapturedMessage,
+  MessageLink,
+  SearchResult,
+  ThinkingBlock,
+  ThinkingBlockSearchResult,
+  ThinkingBlockSearchOptions,
+  SessionStats,
+  SessionUsageStats,
+  TokenUsage,
+  TokenUsageFilter,
+  DailyStats,
+  ToolCallRecord,
+  ToolCallFilter,
+  ToolUsageStats,
+  ToolTrend,
+  ToolTrendFilter,
+  ClientStats,
+  MessageSearchOptions,
+  SearchQuery,
+  SearchTerm,
+  SessionListFilter,
+  AnnotationTarget,
+  Annotations,
+  Note,
+  Bookmark,
+  TagCount,
+  MessageEmbedding,
+  StreamEvent,
+  StreamEventInput,
+  ApiKey,
+  CreateApiKeyInput,
+  Workspace,
+  User,
+  CreateUserInput,
+  UserStats,
+  Viewer,
+  CaptureMessageInput,
+  MessageRedaction,
+  RetentionExemptions,
+  ThinkingPurge,
+  SessionPurge,
+  CreateSessionInput,
+  UpdateSessionInput,
+  TranscriptMessage
+} from '../types/index.js'
+
+type Database = BetterSqlite3.Database
+
+/**
+ * Ordered schema steps (SQL, or a function for data backfills);
+ * user_version records how many have been applied
+ */
+const SCHEMA: (string | ((db: Database) => void))[] = [
+  `
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    project_path TEXT,
+    started_at TEXT NOT NULL,
+    ended_at TEXT,
+    metadata TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- seq gives FTS5 a stable integer rowid and breaks created_at ties
+  CREATE TABLE messages (
+    seq INTEGER PRIMARY KEY,
+    id TEXT NOT NULL UNIQUE,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+    content TEXT NOT NULL,
+    thinking_content TEXT,
+    thinking_tokens INTEGER DEFAULT 0,
+    model TEXT,
+    input_tokens INTEGER DEFAULT 0,
+    output_tokens INTEGER DEFAULT 0,
+    tool_calls TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_sessions_started_at ON sessions(started_at DESC);
+  CREATE INDEX idx_messages_session_id ON messages(session_id, created_at);
+  CREATE INDEX idx_messages_created_at ON messages(created_at DESC);
+
+  CREATE VIRTUAL TABLE messages_fts USING fts5(
+    content, thinking_content,
+    content = 'messages', content_rowid = 'seq',
+    tokenize = 'porter unicode61'
+  );
+
+  CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+    INSERT INTO messages_fts (rowid, content, thinking_content)
+    VALUES (new.seq, new.content, new.thinking_content);
+  END;
+
+  CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+    INSERT INTO messages_fts (messages_fts, rowid, content, thinking_content)
+    VALUES ('delete', old.seq, old.content, old.thinking_content);
+  END;
+
+  CREATE TRIGGER messages_fts_update AFTER UPDATE ON messages BEGIN
+    INSERT INTO messages_fts (messages_fts, rowid, content, thinking_content)
+    VALUES ('delete', old.seq, old.content, old.thinking_content);
+    INSERT INTO messages_fts (rowid, content, thinking_content)
+    VALUES (new.seq, new.content, new.thinking_content);
+  END;
+  `,
+  `
+  ALTER TABLE messages ADD COLUMN cache_creation_input_tokens INTEGER DEFAULT 0;
+  ALTER TABLE messages ADD COLUMN cache_read_input_tokens INTEGER DEFAULT 0;
+  `,
+  `
+  CREATE TABLE thinking_blocks (
+    seq INTEGER PRIMARY KEY,
+    id TEXT NOT NULL UNIQUE,
+    message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    type TEXT NOT NULL DEFAULT 'thinking' CHECK (type IN ('thinking', 'redacted')),
+    content TEXT,
+    data TEXT,
+    signature TEXT,
+    token_count INTEGER DEFAULT 0,
+    created_at TEXT NOT NULL,
+    UNIQUE (message_id, position)
+  );
+
+  CREATE INDEX idx_thinking_blocks_session_id ON thinking_blocks(session_id);
+
+  CREATE VIRTUAL TABLE thinking_blocks_fts USING fts5(
+    content,
+    content = 'thinking_blocks', content_rowid = 'seq',
+    tokenize = 'porter unicode61'
+  );
+
+  CREATE TRIGGER thinking_blocks_fts_insert AFTER INSERT ON thinking_blocks BEGIN
+    INSERT INTO thinking_blocks_fts (rowid, content) VALUES (new.seq, new.content);
+  END;
+
+  CREATE TRIGGER thinking_blocks_fts_delete AFTER DELETE ON thinking_blocks BEGIN
+    INSERT INTO thinking_blocks_fts (thinking_blocks_fts, rowid, content)
+    VALUES ('delete', old.seq, old.content);
+  END;
+
+  CREATE TRIGGER thinking_blocks_fts_update AFTER UPDATE ON thinking_blocks BEGIN
+    INSERT INTO thinking_blocks_fts (thinking_blocks_fts, rowid, content)
+    VALUES ('delete', old.seq, old.content);
+    INSERT INTO thinking_blocks_fts (rowid, content) VALUES (new.seq, new.content);
+  END;
+  `,
+  // Backfill one block per message that already has thinking text
+  (db) => {
+    const messages = db
+      .prepare<[], MessageRow>(
+        `SELECT id, session_id, thinking_content, thinking_tokens, created_at FROM messages
+         WHERE thinking_content IS NOT NULL AND thinking_content <> ''`
+      )
+      .all()
+    const insert = db.prepare(
+      `INSERT INTO thinking_blocks (id, message_id, session_id, position, type, content, token_count, created_at)
+       VALUES (?, ?, ?, 0, 'thinking', ?, ?, ?)`
+    )
+    for (const message of messages) {
+      insert.run(
+        randomUUID(),
+        message.id,
+        message.session_id,
+        message.thinking_content,
+        message.thinking_tokens ?? 0,
+        message.created_at
+      )
+    }
+  },
+  `
+  CREATE TABLE tool_calls (
+    id TEXT PRIMARY KEY,
+    message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    call_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    input TEXT NOT NULL DEFAULT '{}',
+    output TEXT,
+    error TEXT,
+    duration_ms INTEGER,
+    created_at TEXT NOT NULL,
+    UNIQUE (message_id, position)
+  );
+
+  CREATE INDEX idx_tool_calls_session_id ON tool_calls(session_id);
+  CREATE INDEX idx_tool_calls_name ON tool_calls(name, created_at DESC);
+  CREATE INDEX idx_tool_calls_created_at ON tool_calls(created_at DESC);
+  `,
+  // Backfill the tool_calls table from each message's JSON array
+  (db) => {
+    const calls = db
+      .prepare<[], ToolCallRow>(
+        `SELECT
+           m.id as message_id,
+           m.session_id,
+           CAST(c.key AS INTEGER) as position,
+           COALESCE(json_extract(c.value, '$.id'), '') as call_id,
+           json_extract(c.value, '$.name') as name,
+           COALESCE(json_extract(c.value, '$.input'), '{}') as input,
+           json_extract(c.value, '$.output') as output,
+           json_extract(c.value, '$.error') as error,
+           CAST(ROUND(json_extract(c.value, '$.duration_ms')) AS INTEGER) as duration_ms,
+           m.created_at
+         FROM messages m, json_each(m.tool_calls) c
+         WHERE json_extract(c.value, '$.name') IS NOT NULL`
+      )
+      .all()
+    const insert = db.prepare(
+      `INSERT INTO tool_calls (
+         id, message_id, session_id, position, call_id, name, input, output, error, duration_ms, created_at
+       )
+       VALUES (@id, @message_id, @session_id, @position, @call_id, @name, @input, @output, @error,
+         @duration_ms, @created_at)`
+    )
+    for (const call of calls) {
+      insert.run({ ...call, id: randomUUID() })
+    }
+  },
+  `
+  CREATE TABLE tags (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id TEXT REFERENCES messages(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE UNIQUE INDEX idx_tags_session_tag ON tags(session_id, tag) WHERE message_id IS NULL;
+  CREATE UNIQUE INDEX idx_tags_message_tag ON tags(message_id, tag) WHERE message_id IS NOT NULL;
+  CREATE INDEX idx_tags_tag ON tags(tag);
+
+  CREATE TABLE notes (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id TEXT REFERENCES messages(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_notes_session_id ON notes(session_id, created_at);
+
+  CREATE TABLE bookmarks (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id TEXT REFERENCES messages(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE UNIQUE INDEX idx_bookmarks_session ON bookmarks(session_id) WHERE message_id IS NULL;
+  CREATE UNIQUE INDEX idx_bookmarks_message ON bookmarks(message_id) WHERE message_id IS NOT NULL;
+  `,
+  `
+  CREATE TABLE message_embeddings (
+    message_id TEXT PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    vector BLOB NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_message_embeddings_provider ON message_embeddings(provider, session_id);
+  `,
+  `
+  CREATE TABLE events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    message_id TEXT REFERENCES messages(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_events_session_id ON events(session_id, id);
+  CREATE INDEX idx_events_created_at ON events(created_at);
+  `,
+  `
+  CREATE TABLE api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+  );
+  `,
+  `
+  CREATE TABLE workspaces (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    workspace_id TEXT NOT NULL REFERENCES workspaces(id),
+    created_at TEXT NOT NULL
+  );
+
+  ALTER TABLE sessions ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+  ALTER TABLE sessions ADD COLUMN workspace_id TEXT REFERENCES workspaces(id) ON DELETE SET NULL;
+  ALTER TABLE sessions ADD COLUMN visibility TEXT NOT NULL DEFAULT 'public'
+    CHECK (visibility IN ('private', 'workspace', 'public'));
+
+  CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+  CREATE INDEX idx_sessions_workspace_id ON sessions(workspace_id, visibility);
+
+  ALTER TABLE api_keys ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+  `,
+  `
+  ALTER TABLE messages ADD COLUMN metadata TEXT NOT NULL DEFAULT '{}';
+  `,
+  `
+  CREATE TABLE daily_stats_rollup (
+    date TEXT PRIMARY KEY,
+    sessions INTEGER NOT NULL DEFAULT 0,
+    messages INTEGER NOT NULL DEFAULT 0,
+    thinking_tokens INTEGER NOT NULL DEFAULT 0,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0
+  );
+  `,
+  `
+  ALTER TABLE messages ADD COLUMN parent_message_id TEXT
+    REFERENCES messages(id) ON DELETE SET NULL;
+  ALTER TABLE messages ADD COLUMN branch_id TEXT;
+
+  UPDATE messages
+  SET parent_message_id = chain.previous_id
+  FROM (
+    SELECT id, LAG(id) OVER (PARTITION BY session_id ORDER BY created_at, seq) as previous_id
+    FROM messages
+  ) chain
+  WHERE chain.id = messages.id AND chain.previous_id IS NOT NULL;
+
+  CREATE INDEX idx_messages_parent_message_id ON messages(parent_message_id);
+  CREATE INDEX idx_messages_branch ON messages(session_id, branch_id, created_at);
+  `,
+  `
+  ALTER TABLE sessions ADD COLUMN parent_session_id TEXT
+    REFERENCES sessions(id) ON DELETE SET NULL;
+
+  CREATE INDEX idx_sessions_parent_session_id ON sessions(parent_session_id);
+  `,
+  `
+  ALTER TABLE messages ADD COLUMN external_id TEXT;
+
+  CREATE UNIQUE INDEX idx_messages_external_id ON messages(session_id, external_id)
+    WHERE external_id IS NOT NULL;
+  `,
+  `
+  ALTER TABLE messages ADD COLUMN ingested_at TEXT;
+
+  UPDATE messages SET ingested_at = created_at;
+  `,
+  `
+  ALTER TABLE notes ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+  ALTER TABLE bookmarks ADD COLUMN user_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+
+  UPDATE bookmarks SET user_id = (SELECT user_id FROM sessions WHERE id = bookmarks.session_id);
+
+  DROP INDEX idx_bookmarks_session;
+  DROP INDEX idx_bookmarks_message;
+
+  CREATE UNIQUE INDEX idx_bookmarks_session ON bookmarks(session_id, COALESCE(user_id, ''))
+    WHERE message_id IS NULL;
+  CREATE UNIQUE INDEX idx_bookmarks_message ON bookmarks(message_id, COALESCE(user_id, ''))
+    WHERE message_id IS NOT NULL;
+  CREATE INDEX idx_bookmarks_user_id ON bookmarks(user_id, created_at DESC);
+  `
+]
+
+const MESSAGE_COLUMNS = `m.id, m.session_id, m.role, m.content, m.thinking_content, m.thinking_tokens,
+  m.model, m.input_tokens, m.output_tokens, m.cache_creation_input_tokens,
+  m.cache_read_input_tokens, m.tool_calls, m.metadata, m.parent_message_id, m.branch_id,
+  m.external_id, m.created_at, m.ingested_at`
+
+const THINKING_BLOCK_COLUMNS = `b.id, b.message_id, b.session_id, b.position, b.type, b.content,
+  b.data, b.signature, b.token_count, b.created_at`
+
+const TOOL_CALL_COLUMNS = `id, message_id, session_id, position, call_id, name, input, output,
+  error, duration_ms, created_at`
+
+// Tables whose rows follow their message into another session
+const MESSAGE_CHILD_TABLES = [
+  'thinking_blocks',
+  'tool_calls',
+  'message_embeddings',
+  'tags',
+  'notes',
+  'bookmarks',
+  'events'
+]
+
+// Ancestors of a leaf message (bound as leaf, session, session), with the leaf at depth 0
+const BRANCH_CTE = `WITH RECURSIVE branch (id, parent_message_id, depth) AS (
+  SELECT id, parent_message_id, 0 FROM messages WHERE id = ? AND session_id = ?
+  UNION ALL
+  SELECT m.id, m.parent_message_id, b.depth + 1
+  FROM messages m JOIN branch b ON m.id = b.parent_message_id
+  WHERE m.session_id = ?
+)`
+
+// Ids of session @sessionId and every sub-session below it
+const SESSION_TREE = `WITH RECURSIVE tree (id) AS (
+  SELECT @sessionId
+  UNION ALL
+  SELECT s.id FROM sessions s JOIN tree t ON s.parent_session_id = t.id
+) SELECT id FROM tree`
+
+const STREAM_BATCH_SIZE = 200
+
+// Embedding rows are small, so similarity scans read them in larger batches
+const EMBEDDING_BATCH_SIZE = 1000
+
+const SNIPPET_LENGTH = 200
+
+// Never includes key_hash, which stays inside the database
+const API_KEY_COLUMNS = 'id, name, user_id, prefix, scopes, created_at, last_used_at, revoked_at'
+
+interface SessionRow {
+  id: string
+  name: string
+  project_path: string | null
+  started_at: string
+  ended_at: string | null
+  metadata: string
+  user_id: string | null
+  workspace_id: string | null
+  visibility: string
+  parent_session_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface MessageRow {
+  id: string
+  session_id: string
+  role: Message['role']
+  content: string
+  thinking_content: string | null
+  thinking_tokens: number
+  model: string | null
+  input_tokens: number
+  output_tokens: number
+  cache_creation_input_tokens: number
+  cache_read_input_tokens: number
+  tool_calls: string
+  metadata: string
+  parent_message_id: string | null
+  branch_id: string | null
+  external_id: string | null
+  created_at: string
+  ingested_at: string
+}
+
+interface ToolCallRow {
+  id: string
+  message_id: string
+  session_id: string
+  position: number
+  call_id: string
+  name: string
+  input: string
+  output: string | null
+  error: string | null
+  duration_ms: number | null
+  created_at: string
+}
+
+interface ApiKeyRow {
+  id: string
+  name: string
+  user_id: string | null
+  prefix: string
+  scopes: string
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+function now(): string {
+  return new Date().toISOString()
+}
+
+function toTimestamp(value: Date | string | undefined): string | null {
+  if (!value) return null
+  return new Date(value).toISOString()
+}
+
+/**
+ * visibilityCondition with its values appended to positional `params`
+ */
+function scopeCondition(
+  viewer: Viewer | undefined,
+  column: string,
+  params: unknown[],
+  mode?: VisibilityMode
+): string | null {
+  return visibilityCondition(
+    viewer,
+    column,
+    (value) => {
+      params.push(value)
+      return '?'
+    },
+    mode
+  )
+}
+
+/**
+ * Condition keeping rows of exempt sessions out of a retention purge
+ */
+function retentionExemption(
+  exemptions: RetentionExemptions,
+  column: string,
+  params: unknown[]
+): string {
+  const conditions: string[] = []
+  if (exemptions.tags.includes('*')) {
+    conditions.push(`${column} NOT IN (SELECT session_id FROM tags)`)
+  } else if (exemptions.tags.length > 0) {
+    params.push(JSON.stringify(exemptions.tags))
+    conditions.push(
+      `${column} NOT IN (SELECT session_id FROM tags WHERE tag IN (SELECT value FROM json_each(?)))`
+    )
+  }
+  if (exemptions.bookmarked) {
+    // Only the owner's bookmark counts, so anyone who can see a session cannot pin it
+    conditions.push(
+      `${column} NOT IN (SELECT b.session_id FROM bookmarks b
+        JOIN sessions bs ON bs.id = b.session_id WHERE b.user_id IS bs.user_id)`
+    )
+  }
+  return conditions.length > 0 ? conditions.join(' AND ') : '1'
+}
+
+/**
+ * visibilityCondition with its values added to named `params`
+ */
+function namedScopeCondition(
+  viewer: Viewer | undefined,
+  column: string,
+  params: Record<string, unknown>,
+  mode?: VisibilityMode
+): string | null {
+  let count = 0
+  return visibilityCondition(
+    viewer,
+    column,
+    (value) => {
+      const name = `scope_${count++}`
+      params[name] = value
+      return `@${name}`
+    },
+    mode
+  )
+}
+
+// Rows are shaped like the Postgres driver's output (null columns, Date timestamps)
+function toSession<T extends SessionRow>(row: T): Session {
+  return {
+    ...row,
+    started_at: new Date(row.started_at),
+    ended_at: row.ended_at ? new Date(row.ended_at) : null,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    metadata: JSON.parse(row.metadata)
+  } as unknown as Session
+}
+
+function toMessage(row: MessageRow): Message {
+  return {
+    ...row,
+    tool_calls: JSON.parse(row.tool_calls),
+    metadata: JSON.parse(row.metadata),
+    created_at: new Date(row.created_at),
+    ingested_at: new Date(row.ingested_at)
+  } as unknown as Message
+}
+
+function toToolCall(row: ToolCallRow): ToolCallRecord {
+  return {
+    ...row,
+    input: JSON.parse(row.input),
+    created_at: new Date(row.created_at)
+  }
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    ...row,
+    scopes: JSON.parse(row.scopes),
+    created_at: new Date(row.created_at),
+    last_used_at: row.last_used_at ? new Date(row.last_used_at) : null,
+    revoked_at: row.revoked_at ? new Date(row.revoked_at) : null
+  }
+}
+
+interface ToolStatRow {
+  name: string
+  session_id: string
+  duration_ms: number | null
+  error: string | null
+}
+
+/**
+ * Groups tool calls and computes per-tool statistics. SQLite has no
+ * percentile aggregate, so durations are collected and ranked here.
+ */
+function aggregateToolCalls<T extends ToolStatRow>(
+  rows: T[],
+  keyOf: (row: T) => string
+): { row: T; stats: ToolUsageStats }[] {
+  const groups = new Map<
+    string,
+    { row: T; calls: number; errors: number; durations: number[]; sessions: Set<string> }
+  >()
+  for (const row of rows) {
+    const key = keyOf(row)
+    let group = groups.get(key)
+    if (!group) {
+      group = { row, calls: 0, errors: 0, durations: [], sessions: new Set() }
+      groups.set(key, group)
+    }
+    group.calls++
+    group.sessions.add(row.session_id)
+    if (row.error !== null) group.errors++
+    if (row.duration_ms !== null) group.durations.push(row.duration_ms)
+  }
+
+  return [...groups.values()].map(({ row, calls, errors, durations, sessions }) => {
+    durations.sort((a, b) => a - b)
+    return {
+      row,
+      stats: {
+        tool_name: row.name,
+        call_count: calls,
+        avg_duration_ms: durations.length
+          ? durations.reduce((sum, value) => sum + value, 0) / durations.length
+          : null,
+        error_count: errors,
+        error_rate: errors / calls,
+        p50_duration_ms: percentile(durations, 0.5),
+        p95_duration_ms: percentile(durations, 0.95),
+        sessions: sessions.size,
+        calls_per_session: calls / sessions.size
+      }
+    }
+  })
+}
+
+/**
+ * Linear-interpolated percentile of sorted values, matching Postgres percentile_cont
+ */
+function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) return null
+  const index = (sorted.length - 1) * fraction
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+/**
+ * Converts free text into an FTS5 query that matches all terms, mirroring
+ * plainto_tsquery: operators and punctuation are treated as plain text
+ */
+function toFtsQuery(query: string): string | null {
+  const terms = query.match(/[\p{L}\p{N}_]+/gu)
+  if (!terms) return null
+  return terms.map((term) => `"${term}"`).join(' ')
+}
+
+/**
+ * Converts a parsed term into an FTS5 phrase. Only letters, digits and
+ * underscores survive, so user input can never form FTS5 syntax.
+ */
+function toFtsTerm(term: SearchTerm): string | null {
+  const words = term.text.match(/[\p{L}\p{N}_]+/gu)
+  if (!words) return null
+  // Unquoted terms split by punctuation must all match, as in plainto_tsquery
+  return term.phrase ? `"${words.join(' ')}"` : words.map((word) => `"${word}"`).join(' AND ')
+}
+
+/**
+ * Builds an FTS5 expression that matches any of the terms
+ */
+function toFtsAny(terms: SearchTerm[]): string | null {
+  const phrases = terms.map(toFtsTerm).filter((phrase): phrase is string => !!phrase)
+  return phrases.length > 0 ? `(${phrases.map((phrase) => `(${phrase})`).join(' OR ')})` : null
+}
+
+function applySchema(db: Database): void {
+  const version = db.pragma('user_version', { simple: true }) as number
+  for (let step = version; step < SCHEMA.length; step++) {
+    db.transaction(() => {
+      const migration = SCHEMA[step]
+      if (typeof migration === 'string') db.exec(migration)
+      else migration(db)
+      db.pragma(`user_version = ${step + 1}`)
+    })()
+  }
+}
+
+export async function openSqliteStorage(path: string): Promise<Storage> {
+  const { default: Sqlite } = await import('better-sqlite3')
+  const db = new Sqlite(path)
+  db.pragma('journal_mode = WAL')
+  db.pragma('foreign_keys = ON')
+  applySchema(db)
+
+  // ===========================================================================
+  // Session Operations
+  // ===========================================================================
+
+  async function createSession(input: CreateSessionInput): Promise<Session> {
+    const { name, project_path, metadata, started_at, ended_at } = input
+    const timestamp = now()
+    const row = db
+      .prepare<unknown[], SessionRow>(
+        `INSERT INTO sessions (id, name, project_path, started_at, ended_at, metadata,
+           user_id, workspace_id, visibility, parent_session_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(
+        randomUUID(),
+        name,
+        project_path || null,
+        toTimestamp(started_at) ?? timestamp,
+        toTimestamp(ended_at),
+        JSON.stringify(metadata || {}),
+        input.user_id ?? null,
+        input.workspace_id ?? null,
+        input.visibility ?? 'public',
+        input.parent_session_id ?? null,
+        timestamp,
+        timestamp
+      )
+    return toSession(row!)
+  }
+
+  async function getSession(id: string): Promise<Session | null> {
+    const row = db.prepare<unknown[], SessionRow>('SELECT * FROM sessions WHERE id = ?').get(id)
+    return row ? toSession(row) : null
+  }
+
+  async function listSessions(
+    limit: number = 50,
+    offset: number = 0,
+    filter: SessionListFilter = {}
+  ): Promise<{ sessions: Session[]; total: number }> {
+    const conditions: string[] = []
+    const params: unknown[] = []
+
+    if (filter.tags && filter.tags.length > 0) {
+      conditions.push(
+        `(SELECT COUNT(DISTINCT t.tag) FROM tags t
+          WHERE t.session_id = s.id AND t.message_id IS NULL
+            AND t.tag IN (SELECT value FROM json_each(?))) = ?`
+      )
+      params.push(JSON.stringify(filter.tags), filter.tags.length)
+    }
+
+    if (filter.bookmarked !== undefined) {
+      const owner = filter.viewer ? 'AND b.user_id IS ?' : ''
+      conditions.push(
+        `${filter.bookmarked ? '' : 'NOT '}EXISTS (
+          SELECT 1 FROM bookmarks b WHERE b.session_id = s.id AND b.message_id IS NULL ${owner})`
+      )
+      if (filter.viewer) params.push(filter.viewer.user_id)
+    }
+
+    if (filter.parent_session_id !== undefined) {
+      if (filter.parent_session_id === null) {
+        conditions.push('s.parent_session_id IS NULL')
+      } else {
+        conditions.push('s.parent_session_id = ?')
+        params.push(filter.parent_session_id)
+      }
+    }
+
+    const visible = scopeCondition(filter.viewer, 's.id', params)
+    if (visible) conditions.push(visible)
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    const { count } = db
+      .prepare<unknown[], { count: number }>(
+        `SELECT COUNT(*) as count FROM sessions s ${whereClause}`
+      )
+      .get(...params)!
+
+    const rows = db
+      .prepare<unknown[], SessionRow & Record<string, unknown>>(
+        `SELECT
+           s.*,
+           COUNT(m.id) as message_count,
+           COALESCE(SUM(m.thinking_tokens), 0) as total_thinking_tokens,
+           COALESCE(SUM(m.input_tokens), 0) as total_input_tokens,
+           COALESCE(SUM(m.output_tokens), 0) as total_output_tokens,
+           COUNT(CASE WHEN m.role = 'user' THEN 1 END) as user_messages,
+           COUNT(CASE WHEN m.role = 'assistant' THEN 1 END) as assistant_messages
+         FROM sessions s
+         LEFT JOIN messages m ON m.session_id = s.id
+         ${whereClause}
+         GROUP BY s.id
+         ORDER BY s.started_at DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset)
+
+    // Totals with sub-sessions, as the Postgres session_stats view reports them
+    const totals = db
+      .prepare<unknown[], { id: string } & Record<string, number>>(
+        `WITH RECURSIVE tree (root_id, id) AS (
+           SELECT value, value FROM json_each(?)
+           UNION ALL
+           SELECT t.root_id, s.id FROM tree t JOIN sessions s ON s.parent_session_id = t.id
+         )
+         SELECT
+           t.root_id as id,
+           COUNT(DISTINCT t.id) - 1 as descendant_count,
+           COUNT(m.id) as message_count_with_descendants,
+           COALESCE(SUM(m.thinking_tokens), 0) as total_thinking_tokens_with_descendants,
+           COALESCE(SUM(m.input_tokens), 0) as total_input_tokens_with_descendants,
+           COALESCE(SUM(m.output_tokens), 0) as total_output_tokens_with_descendants
+         FROM tree t
+         LEFT JOIN messages m ON m.session_id = t.id
+         GROUP BY t.root_id`
+      )
+      .all(JSON.stringify(rows.map((row) => row.id)))
+    const totalsById = new Map(totals.map(({ id, ...row }) => [id, row]))
+
+    return {
+      sessions: rows.map((row) => toSession({ ...row, ...totalsById.get(row.id) })),
+      total: count
+    }
+  }
+
+  async function findSessionBySource(
+    source: string,
+    externalId: string,
+    userId: string | null
+  ): Promise<Session | null> {
+    const row = db
+      .prepare<unknown[], SessionRow>(
+        `SELECT * FROM sessions
+         WHERE json_extract(metadata, '$.source') = ? AND json_extract(metadata, '$.external_id') = ?
+           AND user_id IS ?
+         ORDER BY created_at ASC
+         LIMIT 1`
+      )
+      .get(source, externalId, userId)
+    return row ? toSession(row) : null
+  }
+
+  async function updateSession(id: string, input: UpdateSessionInput): Promise<Session | null> {
+    const { name, project_path, metadata, started_at, ended_at, visibility } = input
+
+    const update = db.transaction(() => {
+      const existing = db.prepare<unknown[], SessionRow>('SELECT * FROM sessions WHERE id = ?').get(id)
+      if (!existing) return undefined
+
+      const merged = applyMetadataPatch(JSON.parse(existing.metadata), metadata || {})
+      return db
+        .prepare<unknown[], SessionRow>(
+          `UPDATE sessions
+           SET name = COALESCE(?, name),
+               project_path = COALESCE(?, project_path),
+               metadata = ?,
+               started_at = COALESCE(?, started_at),
+               ended_at = COALESCE(?, ended_at),
+               visibility = COALESCE(?, visibility),
+               updated_at = ?
+           WHERE id = ?
+           RETURNING *`
+        )
+        .get(
+          name ?? null,
+          project_path ?? null,
+          JSON.stringify(merged),
+          toTimestamp(started_at),
+          toTimestamp(ended_at),
+          visibility ?? null,
+          now(),
+          id
+        )
+    })
+
+    const row = update()
+    return row ? toSession(row) : null
+  }
+
+  async function endSession(id: string, endedAt?: Date): Promise<Session | null> {
+    const timestamp = now()
+    const row = db
+      .prepare<unknown[], SessionRow>(
+        'UPDATE sessions SET ended_at = ?, updated_at = ? WHERE id = ? RETURNING *'
+      )
+      .get(toTimestamp(endedAt) ?? timestamp, timestamp, id)
+    return row ? toSession(row) : null
+  }
+
+  async function deleteSession(id: string): Promise<boolean> {
+    return db.prepare('DELETE FROM sessions WHERE id = ?').run(id).changes > 0
+  }
+
+  async function mergeSessions(targetId: string, sourceIds: string[]): Promise<Session | null> {
+    const merge = db.transaction(() => {
+      const target = db.prepare<unknown[], SessionRow>('SELECT * FROM sessions WHERE id = ?').get(
+        targetId
+      )
+      if (!target) return undefined
+
+      const sources = JSON.stringify(sourceIds)
+      const inSources = 'session_id IN (SELECT value FROM json_each(?))'
+      // An external id stays unique in the merged session; the target's copy keeps it
+      db.prepare(
+        `UPDATE messages SET external_id = NULL
+         FROM (
+           SELECT id, ROW_NUMBER() OVER (
+             PARTITION BY external_id ORDER BY session_id = ? DESC, created_at, seq
+           ) as n
+           FROM messages
+           WHERE external_id IS NOT NULL AND (session_id = ? OR ${inSources})
+         ) duplicate
+         WHERE duplicate.id = messages.id AND duplicate.n > 1`
+      ).run(targetId, targetId, sources)
+      // Each session's opening message, unless it already replies to something
+      const openings = db
+        .prepare<unknown[], { id: string }>(
+          `SELECT id FROM (
+             SELECT id, parent_message_id, ROW_NUMBER() OVER (
+               PARTITION BY session_id ORDER BY created_at, seq
+             ) as n
+             FROM messages
+             WHERE session_id = ? OR ${inSources}
+           )
+           WHERE n = 1 AND parent_message_id IS NULL`
+        )
+        .all(targetId, sources)
+      db.prepare(`UPDATE messages SET session_id = ? WHERE ${inSources}`).run(targetId, sources)
+      // As implicit chaining does, those follow the latest earlier message, preferring their
+      // own branch, so the merged conversation keeps a single root
+      db.prepare(
+        `UPDATE messages SET parent_message_id = (
+           SELECT p.id FROM messages p
+           WHERE p.session_id = messages.session_id
+             AND (p.created_at, p.seq) < (messages.created_at, messages.seq)
+           ORDER BY p.branch_id IS messages.branch_id DESC, p.created_at DESC, p.seq DESC
+           LIMIT 1
+         )
+         WHERE id IN (SELECT value FROM json_each(?))`
+      ).run(JSON.stringify(openings.map((message) => message.id)))
+      for (const table of MESSAGE_CHILD_TABLES) {
+        db.prepare(
+          `UPDATE ${table} SET session_id = ? WHERE ${inSources} AND message_id IS NOT NULL`
+        ).run(targetId, sources)
+      }
+
+      // Session-level annotations carry over, keeping one of each tag and of each user's bookmark
+      const timestamp = now()
+      const tags = db
+        .prepare<unknown[], { tag: string }>(
+          `SELECT DISTINCT tag FROM tags WHERE ${inSources} AND message_id IS NULL`
+        )
+        .all(sources)
+      const addTag = db.prepare(
+        `INSERT INTO tags (id, session_id, message_id, tag, created_at)
+         VALUES (?, ?, NULL, ?, ?)
+         ON CONFLICT DO NOTHING`
+      )
+      for (const { tag } of tags) addTag.run(randomUUID(), targetId, tag, timestamp)
+      db.prepare(`UPDATE notes SET session_id = ? WHERE ${inSources}`).run(targetId, sources)
+      const owners = db
+        .prepare<unknown[], { user_id: string | null }>(
+          `SELECT DISTINCT user_id FROM bookmarks WHERE ${inSources} AND message_id IS NULL`
+        )
+        .all(sources)
+      const addBookmark = db.prepare(
+        `INSERT INTO bookmarks (id, session_id, message_id, user_id, created_at)
+         VALUES (?, ?, NULL, ?, ?)
+         ON CONFLICT DO NOTHING`
+      )
+      for (const { user_id } of owners) {
+        addBookmark.run(randomUUID(), targetId, user_id, timestamp)
+      }
+
+      // The merged session is open while any part of it is
+      const spans = db
+        .prepare<unknown[], { started_at: string; ended_at: string | null }>(
+          `SELECT
+             MIN(started_at) as started_at,
+             CASE WHEN COUNT(*) = COUNT(ended_at) THEN MAX(ended_at) END as ended_at
+           FROM sessions WHERE id = ? OR id IN (SELECT value FROM json_each(?))`
+        )
+        .get(targetId, sources)!
+      const metadata = JSON.parse(target.metadata) as Record<string, unknown>
+      const mergedFrom = Array.isArray(metadata.merged_from) ? metadata.merged_from : []
+      const row = db
+        .prepare<unknown[], SessionRow>(
+          `UPDATE sessions SET started_at = ?, ended_at = ?, metadata = ?, updated_at = ?
+           WHERE id = ?
+           RETURNING *`
+        )
+        .get(
+          spans.started_at,
+          spans.ended_at,
+          JSON.stringify({ ...metadata, merged_from: [...mergedFrom, ...sourceIds] }),
+          timestamp,
+          targetId
+        )
+      db.prepare(
+        `UPDATE sessions SET parent_session_id = ?
+         WHERE parent_session_id IN (SELECT value FROM json_each(?))`
+      ).run(targetId, sources)
+      db.prepare('DELETE FROM sessions WHERE id IN (SELECT value FROM json_each(?))').run(sources)
+      return row
+    })
+
+    const row = merge()
+    return row ? toSession(row) : null
+  }
+
+  async function splitSession(
+    id: string,
+    messageId: string,
+    input: CreateSessionInput
+  ): Promise<Session | null> {
+    const split = db.transaction(() => {
+      const cut = db
+        .prepare<unknown[], { created_at: string; seq: number }>(
+          'SELECT created_at, seq FROM messages WHERE id = ? AND session_id = ?'
+        )
+        .get(messageId, id)
+      if (!cut) return undefined
+
+      const timestamp = now()
+      const row = db
+        .prepare<unknown[], SessionRow>(
+          `INSERT INTO sessions (id, name, project_path, started_at, ended_at, metadata,
+             user_id, workspace_id, visibility, parent_session_id, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           RETURNING *`
+        )
+        .get(
+          randomUUID(),
+          input.name,
+          input.project_path || null,
+          cut.created_at,
+          toTimestamp(input.ended_at),
+          JSON.stringify(input.metadata || {}),
+          input.user_id ?? null,
+          input.workspace_id ?? null,
+          input.visibility ?? 'public',
+          input.parent_session_id ?? null,
+          timestamp,
+          timestamp
+        )!
+
+      // Messages from the cut onward, in the order getSessionMessages returns them
+      const moved = db
+        .prepare<unknown[], { id: string }>(
+          `UPDATE messages SET session_id = ?
+           WHERE session_id = ? AND (created_at, seq) >= (?, ?)
+           RETURNING id`
+        )
+        .all(row.id, id, cut.created_at, cut.seq)
+      const ids = JSON.stringify(moved.map((message) => message.id))
+      for (const table of MESSAGE_CHILD_TABLES) {
+        db.prepare(
+          `UPDATE ${table} SET session_id = ?
+           WHERE message_id IN (SELECT value FROM json_each(?))`
+        ).run(row.id, ids)
+      }
+
+      // Replies to messages left behind start their own conversation
+      db.prepare(
+        `UPDATE messages SET parent_message_id = NULL
+         WHERE session_id IN (?, ?) AND EXISTS (
+           SELECT 1 FROM messages p
+           WHERE p.id = messages.parent_message_id AND p.session_id <> messages.session_id
+         )`
+      ).run(id, row.id)
+
+      // What remains ended where the new session begins
+      db.prepare(
+        `UPDATE sessions
+         SET ended_at = (SELECT MAX(created_at) FROM messages WHERE session_id = ?), updated_at = ?
+         WHERE id = ?`
+      ).run(id, timestamp, id)
+      return row
+    })
+
+    const row = split()
+    return row ? toSession(row) : null
+  }
+
+  // ===========================================================================
+  // Message Operations
+  // ===========================================================================
+
+  /**
+   * The parent and branch of a new message. An explicit parent passes its
+   * branch on; otherwise the message follows the latest one on its branch, or
+   * the latest of any branch when it is the first of a new one. A message
+   * with a client event time follows the latest one sent no later than it.
+   */
+  function messageLink(
+    sessionId: string,
+    parentId: string | null | undefined,
+    branchId: string | undefined,
+    eventTime?: Date
+  ): { parent_message_id: string | null; branch_id: string | null } {
+    if (parentId === null) return { parent_message_id: null, branch_id: branchId ?? null }
+    if (parentId) {
+      const parent = db
+        .prepare<unknown[], { branch_id: string | null }>(
+          'SELECT branch_id FROM messages WHERE id = ?'
+        )
+        .get(parentId)
+      return { parent_message_id: parentId, branch_id: branchId ?? parent?.branch_id ?? null }
+    }
+
+    const branch = branchId ?? null
+    const before = toTimestamp(eventTime)
+    const sentBefore = '(? IS NULL OR created_at <= ?)'
+    const previous =
+      db
+        .prepare<unknown[], { id: string }>(
+          `SELECT id FROM messages WHERE session_id = ? AND branch_id IS ? AND ${sentBefore}
+           ORDER BY created_at DESC, seq DESC
+           LIMIT 1`
+        )
+        .get(sessionId, branch, before, before) ??
+      (branch
+        ? db
+            .prepare<unknown[], { id: string }>(
+              `SELECT id FROM messages WHERE session_id = ? AND ${sentBefore}
+               ORDER BY created_at DESC, seq DESC
+               LIMIT 1`
+            )
+            .get(sessionId, before, before)
+        : undefined)
+    return { parent_message_id: previous?.id ?? null, branch_id: branch }
+  }
+
+  function findByExternalId(sessionId: string, externalId: string): MessageRow | undefined {
+    return db
+      .prepare<unknown[], MessageRow>(
+        `SELECT ${MESSAGE_COLUMNS} FROM messages m WHERE m.session_id = ? AND m.external_id = ?`
+      )
+      .get(sessionId, externalId)
+  }
+
+  /** Runs inside the caller's transaction */
+  function insertMessage(input: CaptureMessageInput): CapturedMessage {
+    const {
+      session_id,
+      role,
+      content,
+      model,
+      input_tokens,
+      output_tokens,
+      cache_creation_input_tokens,
+      cache_read_input_tokens,
+      tool_calls,
+      created_at,
+      metadata
+    } = input
+    const { thinking_content, thinking_tokens, thinking_blocks, tool_calls: calls } =
+      normalizeCaptureInput(input)
+    const externalId = input.external_id ?? null
+
+    const existing = externalId ? findByExternalId(session_id, externalId) : undefined
+    if (existing) return { message: toMessage(existing), created: false }
+
+    const ingestedAt = now()
+    const eventTime = toTimestamp(created_at) ?? ingestedAt
+    const link = messageLink(session_id, input.parent_message_id, input.branch_id, created_at)
+    const row = db
+      .prepare<unknown[], MessageRow>(
+        `INSERT INTO messages (
+           id, session_id, role, content, thinking_content, thinking_tokens,
+           model, input_tokens, output_tokens, cache_creation_input_tokens,
+           cache_read_input_tokens, tool_calls, created_at, metadata,
+           parent_message_id, branch_id, external_id, ingested_at
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING ${MESSAGE_COLUMNS.replace(/m\./g, '')}`
+      )
+      .get(
+        randomUUID(),
+        session_id,
+        role,
+        content,
+        thinking_content,
+        thinking_tokens,
+        model || null,
+        input_tokens || 0,
+        output_tokens || 0,
+        cache_creation_input_tokens || 0,
+        cache_read_input_tokens || 0,
+        JSON.stringify(tool_calls || []),
+        eventTime,
+        JSON.stringify(metadata ?? {}),
+        link.parent_message_id,
+        link.branch_id,
+        externalId,
+        ingestedAt
+      )!
+
+    const insertBlock = db.prepare(
+      `INSERT INTO thinking_blocks (
+         id, message_id, session_id, position, type, content, data, signature, token_count, created_at
+       )
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    for (const block of thinking_blocks) {
+      insertBlock.run(
+        randomUUID(),
+        row.id,
+        row.session_id,
+        block.position,
+        block.type,
+        block.content,
+        block.data,
+        block.signature,
+        block.token_count,
+        row.created_at
+      )
+    }
+
+    const insertCall = db.prepare(
+      `INSERT INTO tool_calls (
+         id, message_id, session_id, position, call_id, name, input, output, error, duration_ms, created_at
+       )
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    for (const call of calls) {
+      insertCall.run(
+        randomUUID(),
+        row.id,
+        row.session_id,
+        call.position,
+        call.call_id,
+        call.name,
+        JSON.stringify(call.input),
+        call.output,
+        call.error,
+        call.duration_ms,
+        row.created_at
+      )
+    }
+
+    return { message: toMessage(row), created: true }
+  }
+
+  async function captureMessage(input: CaptureMessageInput): Promise<CapturedMessage> {
+    return db.transaction(() => insertMessage(input))()
+  }
+
+  async function captureMessages(inputs: CaptureMessageInput[]): Promise<CapturedMessage[]> {
+    return db.transaction(() => inputs.map(insertMessage))()
+  }
+
+  async function deleteSessionMessages(sessionId: string): Promise<number> {
+    return db.prepare('DELETE FROM messages WHERE session_id = ?').run(sessionId).changes
+  }
+
+  async function replaceSessionMessages(
+    sessionId: string,
+    messages: TranscriptMessage[]
+  ): Promise<Message[]> {
+    const replace = db.transaction(() => {
+      db.prepare('DELETE FROM messages WHERE session_id = ?').run(sessionId)
+      const stored: Message[] = []
+      for (const [index, { parent = index - 1, ...input }] of messages.entries()) {
+        const { message } = insertMessage({
+          ...input,
+          session_id: sessionId,
+          parent_message_id: parent === null || parent < 0 ? null : stored[parent]?.id
+        })
+        stored.push(message)
+      }
+      return stored
+    })
+    return replace()
+  }
+
+  async function getMessage(id: string): Promise<Message | null> {
+    const row = db
+      .prepare<unknown[], MessageRow>(`SELECT ${MESSAGE_COLUMNS} FROM messages m WHERE m.id = ?`)
+      .get(id)
+    return row ? toMessage(row) : null
+  }
+
+  async function getSessionMessages(
+    sessionId: string,
+    limit: number = 100,
+    offset: number = 0,
+    leafId?: string
+  ): Promise<{ messages: Message[]; total: number }> {
+    if (leafId) {
+      const { count } = db
+        .prepare<unknown[], { count: number }>(
+          `${BRANCH_CTE} SELECT COUNT(*) as count FROM branch`
+        )
+        .get(leafId, sessionId, sessionId)!
+      const rows = db
+        .prepare<unknown[], MessageRow>(
+          `${BRANCH_CTE}
+           SELECT ${MESSAGE_COLUMNS} FROM branch b
+           JOIN messages m ON m.id = b.id
+           ORDER BY b.depth DESC
+           LIMIT ? OFFSET ?`
+        )
+        .all(leafId, sessionId, sessionId, limit, offset)
+      return { messages: rows.map(toMessage), total: count }
+    }
+
+    const { count } = db
+      .prepare<unknown[], { count: number }>(
+        'SELECT COUNT(*) as count FROM messages WHERE session_id = ?'
+      )
+      .get(sessionId)!
+
+    const rows = db
+      .prepare<unknown[], MessageRow>(
+        `SELECT ${MESSAGE_COLUMNS} FROM messages m
+         WHERE m.session_id = ?
+         ORDER BY m.created_at ASC, m.seq ASC
+         LIMIT ? OFFSET ?`
+      )
+      .all(sessionId, limit, offset)
+
+    return { messages: rows.map(toMessage), total: count }
+  }
+
+  async function getMessageLinks(sessionId: string): Promise<MessageLink[]> {
+    const rows = db
+      .prepare<unknown[], Omit<MessageLink, 'created_at'> & { created_at: string }>(
+        `SELECT id, parent_message_id, branch_id, role,
+           substr(content, 1, ${SNIPPET_LENGTH}) as preview, created_at
+         FROM messages
+         WHERE session_id = ?
+         ORDER BY created_at ASC, seq ASC`
+      )
+      .all(sessionId)
+    return rows.map((row) => ({ ...row, created_at: new Date(row.created_at) }))
+  }
+
+  /**
+   * Keyset pagination rather than an open statement iterator, which would
+   * block every other query on the connection while the consumer is paused
+   */
+  async function* streamSessionMessages(sessionId: string): AsyncGenerator<Message> {
+    const statement = db.prepare<unknown[], MessageRow & { seq: number }>(
+      `SELECT ${MESSAGE_COLUMNS}, m.seq FROM messages m
+       WHERE m.session_id = ? AND (m.created_at, m.seq) > (?, ?)
+       ORDER BY m.created_at ASC, m.seq ASC
+       LIMIT ?`
+    )
+
+    let cursor: { created_at: string; seq: number } = { created_at: '', seq: 0 }
+    while (true) {
+      const rows = statement.all(sessionId, cursor.created_at, cursor.seq, STREAM_BATCH_SIZE)
+      for (const { seq, ...row } of rows) {
+        cursor = { created_at: row.created_at, seq }
+        yield toMessage(row)
+      }
+      if (rows.length < STREAM_BATCH_SIZE) break
+    }
+  }
+
+  async function scanMessages(afterId: string | null, limit: number): Promise<Message[]> {
+    return db
+      .prepare<unknown[], MessageRow>(
+        `SELECT ${MESSAGE_COLUMNS} FROM messages m
+         WHERE m.id > ?
+         ORDER BY m.id ASC
+         LIMIT ?`
+      )
+      .all(afterId ?? '', limit)
+      .map(toMessage)
+  }
+
+  async function redactMessage(id: string, redaction: MessageRedaction): Promise<void> {
+    const update = db.transaction(() => {
+      db.prepare(
+        `UPDATE messages SET content = ?, thinking_content = ?, tool_calls = ?, metadata = ?
+         WHERE id = ?`
+      ).run(
+        redaction.content,
+        redaction.thinking_content,
+        JSON.stringify(redaction.tool_calls),
+        JSON.stringify(redaction.metadata),
+        id
+      )
+
+      const updateBlock = db.prepare(
+        'UPDATE thinking_blocks SET content = ? WHERE message_id = ? AND position = ?'
+      )
+      for (const block of redaction.thinking_blocks) {
+        updateBlock.run(block.content, id, block.position)
+      }
+
+      const updateCall = db.prepare(
+        `UPDATE tool_calls SET input = ?, output = ?, error = ?
+         WHERE message_id = ? AND position = ?`
+      )
+      redaction.tool_calls.forEach((call, position) => {
+        updateCall.run(
+          JSON.stringify(call.input ?? {}),
+          call.output ?? null,
+          call.error ?? null,
+          id,
+          position
+        )
+      })
+
+      db.prepare('DELETE FROM message_embeddings WHERE message_id = ?').run(id)
+    })
+    update()
+  }
+
+  // ===========================================================================
+  // Search Operations (FTS5)
+  // ===========================================================================
+
+  async function searchMessages(
+    query: SearchQuery,
+    options: MessageSearchOptions = {}
+  ): Promise<{ results: SearchResult[]; total: number }> {
+    const { sessionId, role, limit = 50, offset = 0, searchThinking = true } = options
+
+    const scope = query.in ?? (searchThinking ? undefined : 'content')
+    const withScope = (expression: string) =>
+      scope === 'content'
+        ? `content : ${expression}`
+        : scope === 'thinking'
+          ? `thinking_content : ${expression}`
+          : expression
+
+    const groups = query.include.map(toFtsAny).filter((group): group is string => !!group)
+    const excluded = toFtsAny(query.exclude)
+    const match = groups.length > 0 ? withScope(groups.join(' AND ')) : null
+
+    const conditions: string[] = []
+    const params: unknown[] = []
+
+    if (match) {
+      conditions.push('messages_fts MATCH ?')
+      params.push(match)
+    }
+
+    if (excluded) {
+      conditions.push('m.seq NOT IN (SELECT rowid FROM messages_fts WHERE messages_fts MATCH ?)')
+      params.push(withScope(excluded))
+    }
+
+    if (sessionId) {
+      conditions.push('m.session_id = ?')
+      params.push(sessionId)
+    }
+
+    if (role) {
+      conditions.push('m.role = ?')
+      params.push(role)
+    }
+
+    if (options.ids) {
+      conditions.push('m.id IN (SELECT value FROM json_each(?))')
+      params.push(JSON.stringify(options.ids))
+    }
+
+    if (query.models.length > 0) {
+      conditions.push(`(${query.models.map(() => "m.model LIKE ? ESCAPE '\\'").join(' OR ')})`)
+      params.push(...query.models.map((model) => `${escapeLike(model)}%`))
+    }
+
+    if (query.projects.length > 0) {
+      conditions.push(
+        `(${query.projects.map(() => "s.project_path LIKE ? ESCAPE '\\'").join(' OR ')})`
+      )
+      params.push(...query.projects.map((project) => `%${escapeLike(project)}%`))
+    }
+
+    if (query.tools.length > 0) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM tool_calls tc
+          WHERE tc.message_id = m.id AND tc.name IN (SELECT value FROM json_each(?)))`
+      )
+      params.push(JSON.stringify(query.tools))
+    }
+
+    // A tag on the session applies to every message in it
+    const tags = [...new Set([...(options.tags ?? []), ...query.tags])]
+    if (tags.length > 0) {
+      conditions.push(
+        `(SELECT COUNT(DISTINCT t.tag) FROM tags t
+          WHERE t.session_id = m.session_id AND (t.message_id IS NULL OR t.message_id = m.id)
+            AND t.tag IN (SELECT value FROM json_each(?))) = ?`
+      )
+      params.push(JSON.stringify(tags), tags.length)
+    }
+
+    if (query.after) {
+      conditions.push('m.created_at >= ?')
+      params.push(query.after.toISOString())
+    }
+
+    if (query.before) {
+      conditions.push('m.created_at < ?')
+      params.push(query.before.toISOString())
+    }
+
+    const visible = scopeCondition(options.viewer, 'm.session_id', params)
+    if (visible) conditions.push(visible)
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const from = match
+      ? `FROM messages_fts
+      JOIN messages m ON m.seq = messages_fts.rowid
+      JOIN sessions s ON s.id = m.session_id`
+      : `FROM messages m
+      JOIN sessions s ON s.id = m.session_id`
+
+    const { count } = db
+      .prepare<unknown[], { count: number }>(`SELECT COUNT(*) as count ${from} ${whereClause}`)
+      .get(...params)!
+
+    // Filter-only queries have nothing to highlight or rank, so they list newest first
+    const snippet = (column: number, name: string) =>
+      match
+        ? `snippet(messages_fts, ${column}, '<mark>', '</mark>', '…', 32)`
+        : `substr(COALESCE(m.${name}, ''), 1, ${SNIPPET_LENGTH})`
+
+    // Content is weighted above thinking, as in the Postgres setweight A/B split
+    const results = db
+      .prepare<unknown[], SearchResult>(
+        `SELECT
+           m.id,
+           m.session_id,
+           s.name as session_name,
+           m.role,
+           ${snippet(0, 'content')} as content_snippet,
+           ${scope === 'content' ? 'NULL' : snippet(1, 'thinking_content')} as thinking_snippet,
+           m.created_at,
+           ${match ? '-bm25(messages_fts, 1.0, 0.4)' : '0'} as rank
+         ${from}
+         ${whereClause}
+         ORDER BY rank DESC, m.created_at DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset)
+      .map((row) => ({ ...row, created_at: new Date(row.created_at) }))
+
+    return { results, total: count }
+  }
+
+  // ===========================================================================
+  // Embedding Operations
+  // ===========================================================================
+
+  async function saveEmbedding(provider: string, embedding: MessageEmbedding): Promise<void> {
+    db.prepare(
+      `INSERT INTO message_embeddings (message_id, session_id, provider, vector, created_at)
+       VALUES (@message_id, @session_id, @provider, @vector, @created_at)
+       ON CONFLICT (message_id) DO UPDATE
+         SET provider = excluded.provider, vector = excluded.vector, created_at = excluded.created_at`
+    ).run({
+      message_id: embedding.message_id,
+      session_id: embedding.session_id,
+      provider,
+      vector: vectorToBytes(embedding.vector),
+      created_at: now()
+    })
+  }
+
+  async function getEmbedding(messageId: string, provider: string): Promise<Float32Array | null> {
+    const row = db
+      .prepare<unknown[], { vector: Buffer }>(
+        'SELECT vector FROM message_embeddings WHERE message_id = ? AND provider = ?'
+      )
+      .get(messageId, provider)
+    return row ? bytesToVector(row.vector) : null
+  }
+
+  async function* streamEmbeddings(
+    provider: string,
+    sessionId?: string,
+    viewer?: Viewer
+  ): AsyncGenerator<MessageEmbedding> {
+    const scopeParams: Record<string, unknown> = {}
+    const visible = namedScopeCondition(viewer, 'session_id', scopeParams)
+    const statement = db.prepare<
+      unknown[],
+      { message_id: string; session_id: string; vector: Buffer }
+    >(
+      `SELECT message_id, session_id, vector FROM message_embeddings
+       WHERE provider = @provider AND (@session_id IS NULL OR session_id = @session_id)
+         AND message_id > @cursor ${visible ? `AND ${visible}` : ''}
+       ORDER BY message_id
+       LIMIT @limit`
+    )
+
+    let cursor = ''
+    while (true) {
+      const rows = statement.all({
+        ...scopeParams,
+        provider,
+        session_id: sessionId ?? null,
+        cursor,
+        limit: EMBEDDING_BATCH_SIZE
+      })
+      for (const row of rows) {
+        cursor = row.message_id
+        yield {
+          message_id: row.message_id,
+          session_id: row.session_id,
+          vector: bytesToVector(row.vector)
+        }
+      }
+      if (rows.length < EMBEDDING_BATCH_SIZE) break
+    }
+  }
+
+  async function listUnembeddedMessages(provider: string, limit: number): Promise<Message[]> {
+    return db
+      .prepare<unknown[], MessageRow>(
+        `SELECT ${MESSAGE_COLUMNS} FROM messages m
+         LEFT JOIN message_embeddings e ON e.message_id = m.id AND e.provider = ?
+         WHERE e.message_id IS NULL
+         ORDER BY m.created_at ASC, m.seq ASC
+         LIMIT ?`
+      )
+      .all(provider, limit)
+      .map(toMessage)
+  }
+
+  // ===========================================================================
+  // Thinking Block Operations
+  // ===========================================================================
+
+  async function getThinkingBlocks(messageId: string): Promise<ThinkingBlock[]> {
+    return db
+      .prepare<unknown[], ThinkingBlock>(
+        `SELECT ${THINKING_BLOCK_COLUMNS} FROM thinking_blocks b
+         WHERE b.message_id = ?
+         ORDER BY b.position ASC`
+      )
+      .all(messageId)
+      .map((row) => ({ ...row, created_at: new Date(row.created_at) }))
+  }
+
+  async function getThinkingBlock(id: string): Promise<ThinkingBlock | null> {
+    const row = db
+      .prepare<unknown[], ThinkingBlock>(
+        `SELECT ${THINKING_BLOCK_COLUMNS} FROM thinking_blocks b WHERE b.id = ?`
+      )
+      .get(id)
+    return row ? { ...row, created_at: new Date(row.created_at) } : null
+  }
+
+  async function searchThinkingBlocks(
+    query: string,
+    options: ThinkingBlockSearchOptions = {}
+  ): Promise<{ results: ThinkingBlockSearchResult[]; total: number }> {
+    const { sessionId, limit = 50, offset = 0 } = options
+
+    const match = toFtsQuery(query)
+    if (!match) return { results: [], total: 0 }
+
+    const conditions: string[] = ['thinking_blocks_fts MATCH ?']
+    const params: unknown[] = [match]
+
+    if (sessionId) {
+      conditions.push('b.session_id = ?')
+      params.push(sessionId)
+    }
+
+    const visible = scopeCondition(options.viewer, 'b.session_id', params)
+    if (visible) conditions.push(visible)
+
+    const whereClause = conditions.join(' AND ')
+    const from = `FROM thinking_blocks_fts
+      JOIN thinking_blocks b ON b.seq = thinking_blocks_fts.rowid
+      JOIN sessions s ON s.id = b.session_id`
+
+    const { count } = db
+      .prepare<unknown[], { count: number }>(`SELECT COUNT(*) as count ${from} WHERE ${whereClause}`)
+      .get(...params)!
+
+    const results = db
+      .prepare<unknown[], ThinkingBlockSearchResult>(
+        `SELECT
+           b.id,
+           b.message_id,
+           b.session_id,
+           s.name as session_name,
+           b.position,
+           snippet(thinking_blocks_fts, 0, '<mark>', '</mark>', '…', 32) as snippet,
+           b.created_at,
+           -bm25(thinking_blocks_fts) as rank
+         ${from}
+         WHERE ${whereClause}
+         ORDER BY rank DESC, b.created_at DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset)
+      .map((row) => ({ ...row, created_at: new Date(row.created_at) }))
+
+    return { results, total: count }
+  }
+
+  // ===========================================================================
+  // Tool Call Operations
+  // ===========================================================================
+
+  async function listToolCalls(
+    filter: ToolCallFilter = {}
+  ): Promise<{ tool_calls: ToolCallRecord[]; total: number }> {
+    const { name, sessionId, hasError, limit = 50, offset = 0 } = filter
+
+    const conditions: string[] = []
+    const params: unknown[] = []
+
+    if (name) {
+      conditions.push('name = ?')
+      params.push(name)
+    }
+
+    if (sessionId) {
+      conditions.push('session_id = ?')
+      params.push(sessionId)
+    }
+
+    if (hasError !== undefined) {
+      conditions.push(hasError ? 'error IS NOT NULL' : 'error IS NULL')
+    }
+
+    const visible = scopeCondition(filter.viewer, 'session_id', params)
+    if (visible) conditions.push(visible)
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+    const { count } = db
+      .prepare<unknown[], { count: number }>(`SELECT COUNT(*) as count FROM tool_calls ${whereClause}`)
+      .get(...params)!
+
+    const rows = db
+      .prepare<unknown[], ToolCallRow>(
+        `SELECT ${TOOL_CALL_COLUMNS} FROM tool_calls
+         ${whereClause}
+         ORDER BY created_at DESC, position ASC
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset)
+
+    return { tool_calls: rows.map(toToolCall), total: count }
+  }
+
+  async function getToolCall(id: string): Promise<ToolCallRecord | null> {
+    const row = db
+      .prepare<unknown[], ToolCallRow>(`SELECT ${TOOL_CALL_COLUMNS} FROM tool_calls WHERE id = ?`)
+      .get(id)
+    return row ? toToolCall(row) : null
+  }
+
+  // ===========================================================================
+  // Annotation Operations
+  // ===========================================================================
+
+  // IS compares NULL message ids as equal, selecting session-level rows
+  const TARGET_CONDITION = 'session_id = @session_id AND message_id IS @message_id'
+
+  function getTags(target: AnnotationTarget): string[] {
+    return db
+      .prepare<unknown[], { tag: string }>(
+        `SELECT tag FROM tags WHERE ${TARGET_CONDITION} ORDER BY tag`
+      )
+      .all(target)
+      .map((row) => row.tag)
+  }
+
+  function toNote(row: Note): Note {
+    return { ...row, created_at: new Date(row.created_at), updated_at: new Date(row.updated_at) }
+  }
+
+  async function getAnnotations(
+    target: AnnotationTarget,
+    userId: string | null
+  ): Promise<Annotations> {
+    const notes = db
+      .prepare<unknown[], Note>(
+        `SELECT * FROM notes WHERE ${TARGET_CONDITION} ORDER BY created_at ASC`
+      )
+      .all(target)
+    const bookmark = db
+      .prepare(`SELECT 1 FROM bookmarks WHERE ${TARGET_CONDITION} AND user_id IS @user_id`)
+      .get({ ...target, user_id: userId })
+    return { tags: getTags(target), notes: notes.map(toNote), bookmarked: !!bookmark }
+  }
+
+  async function addTags(target: AnnotationTarget, tags: string[]): Promise<string[]> {
+    const insert = db.prepare(
+      `INSERT INTO tags (id, session_id, message_id, tag, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT DO NOTHING`
+    )
+    db.transaction(() => {
+      const createdAt = now()
+      for (const tag of tags) {
+        insert.run(randomUUID(), target.session_id, target.message_id, tag, createdAt)
+      }
+    })()
+    return getTags(target)
+  }
+
+  async function removeTags(target: AnnotationTarget, tags: string[]): Promise<string[]> {
+    db.prepare(
+      `DELETE FROM tags
+       WHERE ${TARGET_CONDITION} AND tag IN (SELECT value FROM json_each(@tags))`
+    ).run({ ...target, tags: JSON.stringify(tags) })
+    return getTags(target)
+  }
+
+  async function addNote(
+    target: AnnotationTarget,
+    content: string,
+    userId: string | null
+  ): Promise<Note> {
+    const timestamp = now()
+    const row = db
+      .prepare<unknown[], Note>(
+        `INSERT INTO notes (id, session_id, message_id, user_id, content, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(
+        randomUUID(),
+        target.session_id,
+        target.message_id,
+        userId,
+        content,
+        timestamp,
+        timestamp
+      )!
+    return toNote(row)
+  }
+
+  async function getNote(id: string): Promise<Note | null> {
+    const row = db.prepare<unknown[], Note>('SELECT * FROM notes WHERE id = ?').get(id)
+    return row ? toNote(row) : null
+  }
+
+  async function updateNote(id: string, content: string): Promise<Note | null> {
+    const row = db
+      .prepare<unknown[], Note>('UPDATE notes SET content = ?, updated_at = ? WHERE id = ? RETURNING *')
+      .get(content, now(), id)
+    return row ? toNote(row) : null
+  }
+
+  async function deleteNote(id: string): Promise<boolean> {
+    return db.prepare('DELETE FROM notes WHERE id = ?').run(id).changes > 0
+  }
+
+  async function setBookmark(
+    target: AnnotationTarget,
+    bookmarked: boolean,
+    userId: string | null
+  ): Promise<void> {
+    if (bookmarked) {
+      db.prepare(
+        `INSERT INTO bookmarks (id, session_id, message_id, user_id, created_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT DO NOTHING`
+      ).run(randomUUID(), target.session_id, target.message_id, userId, now())
+    } else {
+      db.prepare(`DELETE FROM bookmarks WHERE ${TARGET_CONDITION} AND user_id IS @user_id`).run({
+        ...target,
+        user_id: userId
+      })
+    }
+  }
+
+  async function listBookmarks(
+    limit: number = 50,
+    offset: number = 0,
+    viewer?: Viewer
+  ): Promise<{ bookmarks: Bookmark[]; total: number }> {
+    const params: unknown[] = []
+    const visible = scopeCondition(viewer, 'b.session_id', params)
+    if (viewer) params.push(viewer.user_id)
+    const whereClause = viewer ? `WHERE ${visible} AND b.user_id IS ?` : ''
+
+    const { count } = db
+      .prepare<unknown[], { count: number }>(
+        `SELECT COUNT(*) as count FROM bookmarks b ${whereClause}`
+      )
+      .get(...params)!
+
+    const bookmarks = db
+      .prepare<unknown[], Bookmark>(
+        `SELECT b.id, b.session_id, s.name as session_name, b.message_id, b.user_id, b.created_at
+         FROM bookmarks b
+         JOIN sessions s ON s.id = b.session_id
+         ${whereClause}
+         ORDER BY b.created_at DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset)
+      .map((row) => ({ ...row, created_at: new Date(row.created_at) }))
+
+    return { bookmarks, total: count }
+  }
+
+  // ===========================================================================
+  // Event Operations
+  // ===========================================================================
+
+  // Delivered within this process only; other processes sharing the file see new
+  // events when a client reconnects and resumes from the log
+  const appended = new EventEmitter<{ event: [StreamEvent] }>()
+
+  function toEvent(row: StreamEvent & { created_at: string | Date }): StreamEvent {
+    return { ...row, created_at: new Date(row.created_at) }
+  }
+
+  async function appendEvent(input: StreamEventInput): Promise<StreamEvent> {
+    const row = db
+      .prepare<unknown[], StreamEvent>(
+        `INSERT INTO events (type, session_id, message_id, created_at)
+         VALUES (?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(input.type, input.session_id, input.message_id, now())!
+    const event = toEvent(row)
+    appended.emit('event', event)
+    return event
+  }
+
+  async function listEvents(
+    afterId: number,
+    sessionId?: string,
+    limit: number = 500
+  ): Promise<StreamEvent[]> {
+    return db
+      .prepare<unknown[], StreamEvent>(
+        `SELECT * FROM events
+         WHERE id > @afterId AND (@sessionId IS NULL OR session_id = @sessionId)
+         ORDER BY id ASC
+         LIMIT @limit`
+      )
+      .all({ afterId, sessionId: sessionId ?? null, limit })
+      .map(toEvent)
+  }
+
+  function watchEvents(listener: (event: StreamEvent) => void): () => void {
+    appended.on('event', listener)
+    return () => appended.off('event', listener)
+  }
+
+  async function pruneEvents(before: Date): Promise<number> {
+    return db.prepare('DELETE FROM events WHERE created_at < ?').run(before.toISOString()).changes
+  }
+
+  // ===========================================================================
+  // API Key Operations
+  // ===========================================================================
+
+  async function createApiKey(input: CreateApiKeyInput): Promise<ApiKey> {
+    const row = db
+      .prepare<unknown[], ApiKeyRow>(
+        `INSERT INTO api_keys (id, name, user_id, prefix, key_hash, scopes, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         RETURNING ${API_KEY_COLUMNS}`
+      )
+      .get(
+        randomUUID(),
+        input.name,
+        input.user_id,
+        input.prefix,
+        input.key_hash,
+        JSON.stringify(input.scopes),
+        now()
+      )!
+    return toApiKey(row)
+  }
+
+  async function findApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const row = db
+      .prepare<unknown[], ApiKeyRow>(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE key_hash = ?`)
+      .get(keyHash)
+    return row ? toApiKey(row) : null
+  }
+
+  async function listApiKeys(): Promise<ApiKey[]> {
+    return db
+      .prepare<[], ApiKeyRow>(`SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at ASC`)
+      .all()
+      .map(toApiKey)
+  }
+
+  async function revokeApiKey(id: string): Promise<ApiKey | null> {
+    const row = db
+      .prepare<unknown[], ApiKeyRow>(
+        `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?)
+         WHERE id = ?
+         RETURNING ${API_KEY_COLUMNS}`
+      )
+      .get(now(), id)
+    return row ? toApiKey(row) : null
+  }
+
+  async function touchApiKey(id: string, usedAt: Date): Promise<void> {
+    db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(usedAt.toISOString(), id)
+  }
+
+  // ===========================================================================
+  // Workspace and User Operations
+  // ===========================================================================
+
+  async function createWorkspace(name: string): Promise<Workspace> {
+    const row = db
+      .prepare<unknown[], Workspace>(
+        'INSERT INTO workspaces (id, name, created_at) VALUES (?, ?, ?) RETURNING *'
+      )
+      .get(randomUUID(), name, now())!
+    return { ...row, created_at: new Date(row.created_at) }
+  }
+
+  async function listWorkspaces(): Promise<Workspace[]> {
+    return db
+      .prepare<[], Workspace>('SELECT * FROM workspaces ORDER BY name ASC')
+      .all()
+      .map((row) => ({ ...row, created_at: new Date(row.created_at) }))
+  }
+
+  async function createUser(input: CreateUserInput): Promise<User> {
+    const row = db
+      .prepare<unknown[], User>(
+        'INSERT INTO users (id, name, workspace_id, created_at) VALUES (?, ?, ?, ?) RETURNING *'
+      )
+      .get(randomUUID(), input.name, input.workspace_id, now())!
+    return { ...row, created_at: new Date(row.created_at) }
+  }
+
+  async function getUser(id: string): Promise<User | null> {
+    const row = db.prepare<unknown[], User>('SELECT * FROM users WHERE id = ?').get(id)
+    return row ? { ...row, created_at: new Date(row.created_at) } : null
+  }
+
+  async function listUsers(): Promise<User[]> {
+    return db
+      .prepare<[], User>('SELECT * FROM users ORDER BY name ASC')
+      .all()
+      .map((row) => ({ ...row, created_at: new Date(row.created_at) }))
+  }
+
+  // ===========================================================================
+  // Retention Operations
+  // ===========================================================================
+
+  /**
+   * Clears thinking captured before the cutoff; token counts are kept for
+   * analytics and cost, and embeddings are dropped so they are rebuilt from
+   * the remaining content
+   */
+  async function purgeThinking(
+    before: Date,
+    exemptions: RetentionExemptions,
+    dryRun: boolean
+  ): Promise<ThinkingPurge> {
+    const params: unknown[] = [toTimestamp(before)]
+    const exempt = retentionExemption(exemptions, 'm.session_id', params)
+
+    const purge = db.transaction(() => {
+      const ids = JSON.stringify(
+        db
+          .prepare<unknown[], { id: string }>(
+            `SELECT m.id FROM messages m
+             WHERE m.created_at < ? AND ${exempt}
+               AND (m.thinking_content IS NOT NULL
+                 OR EXISTS (SELECT 1 FROM thinking_blocks b WHERE b.message_id = m.id))`
+          )
+          .all(...params)
+          .map((row) => row.id)
+      )
+      const { messages, thinking_blocks } = db
+        .prepare<unknown[], ThinkingPurge>(
+          `SELECT
+             (SELECT COUNT(*) FROM json_each(?)) as messages,
+             (SELECT COUNT(*) FROM thinking_blocks
+              WHERE message_id IN (SELECT value FROM json_each(?))) as thinking_blocks`
+        )
+        .get(ids, ids)!
+      if (dryRun || messages === 0) return { messages, thinking_blocks }
+
+      db.prepare(
+        `UPDATE messages SET thinking_content = NULL
+         WHERE id IN (SELECT value FROM json_each(?))`
+      ).run(ids)
+      db.prepare(
+        'DELETE FROM thinking_blocks WHERE message_id IN (SELECT value FROM json_each(?))'
+      ).run(ids)
+      db.prepare(
+        'DELETE FROM message_embeddings WHERE message_id IN (SELECT value FROM json_each(?))'
+      ).run(ids)
+      return { messages, thinking_blocks }
+    })
+
+    return purge()
+  }
+
+  async function purgeSessions(
+    before: Date,
+    exemptions: RetentionExemptions,
+    options: { rollup: boolean; dryRun: boolean }
+  ): Promise<SessionPurge> {
+    const params: unknown[] = [toTimestamp(before)]
+    const exempt = retentionExemption(exemptions, 's.id', params)
+
+    const purge = db.transaction(() => {
+      // A session's last activity is its latest message, end or start, whichever is newest
+      const ids = JSON.stringify(
+        db
+          .prepare<unknown[], { id: string }>(
+            `SELECT s.id FROM sessions s
+             WHERE MAX(
+                 s.started_at,
+                 COALESCE(s.ended_at, s.started_at),
+                 COALESCE(
+                   (SELECT MAX(m.created_at) FROM messages m WHERE m.session_id = s.id),
+                   s.started_at
+                 )
+               ) < ?
+               AND ${exempt}`
+          )
+          .all(...params)
+          .map((row) => row.id)
+      )
+      const { sessions, messages } = db
+        .prepare<unknown[], SessionPurge>(
+          `SELECT
+             (SELECT COUNT(*) FROM json_each(?)) as sessions,
+             (SELECT COUNT(*) FROM messages
+              WHERE session_id IN (SELECT value FROM json_each(?))) as messages`
+        )
+        .get(ids, ids)!
+      if (options.dryRun || sessions === 0) return { sessions, messages }
+
+      if (options.rollup) {
+        db.prepare(
+          `INSERT INTO daily_stats_rollup (
+             date, sessions, messages, thinking_tokens, input_tokens, output_tokens
+           )
+           SELECT
+             date(created_at),
+             COUNT(DISTINCT session_id),
+             COUNT(*),
+             SUM(COALESCE(thinking_tokens, 0)),
+             SUM(COALESCE(input_tokens, 0)),
+             SUM(COALESCE(output_tokens, 0))
+           FROM messages
+           WHERE session_id IN (SELECT value FROM json_each(?))
+           GROUP BY date(created_at)
+           ON CONFLICT (date) DO UPDATE SET
+             sessions = sessions + excluded.sessions,
+             messages = messages + excluded.messages,
+             thinking_tokens = thinking_tokens + excluded.thinking_tokens,
+             input_tokens = input_tokens + excluded.input_tokens,
+             output_tokens = output_tokens + excluded.output_tokens`
+        ).run(ids)
+      }
+      db.prepare('DELETE FROM sessions WHERE id IN (SELECT value FROM json_each(?))').run(ids)
+      return { sessions, messages }
+    })
+
+    return purge()
+  }
+
+  // ===========================================================================
+  // Analytics Operations
+  // ===========================================================================
+
+  async function getOverallStats(viewer?: Viewer): Promise<SessionStats> {
+    const params: unknown[] = []
+    const sessionScope = scopeCondition(viewer, 'id', params, 'usage')
+    const messageScope = scopeCondition(viewer, 'session_id', params, 'usage')
+    return db
+      .prepare<unknown[], SessionStats>(
+        `SELECT
+           (SELECT COUNT(*) FROM sessions ${sessionScope ? `WHERE ${sessionScope}` : ''})
+             as total_sessions,
+           COUNT(*) as total_messages,
+           COALESCE(SUM(thinking_tokens), 0) as total_thinking_tokens,
+           COALESCE(SUM(input_tokens), 0) as total_input_tokens,
+           COALESCE(SUM(output_tokens), 0) as total_output_tokens,
+           COALESCE(AVG(CASE WHEN thinking_tokens > 0 THEN thinking_tokens END), 0)
+             as avg_thinking_tokens_per_message
+         FROM messages
+         ${messageScope ? `WHERE ${messageScope}` : ''}`
+      )
+      .get(...params)!
+  }
+
+  /**
+   * Includes days rolled up by retention, except for scoped viewers since
+   * rolled-up history is not kept per session
+   */
+  async function getDailyStats(days: number = 30, viewer?: Viewer): Promise<DailyStats[]> {
+    const params: unknown[] = [`-${days} days`]
+    const scope = scopeCondition(viewer, 'session_id', params, 'usage')
+    const rollup = scope
+      ? ''
+      : `UNION ALL
+         SELECT date, sessions, messages, thinking_tokens, input_tokens, output_tokens
+         FROM daily_stats_rollup
+         WHERE date >= date('now', ?)`
+    if (!scope) params.push(`-${days} days`)
+    return db
+      .prepare<unknown[], DailyStats>(
+        `SELECT
+           date,
+           SUM(sessions) as sessions,
+           SUM(messages) as messages,
+           SUM(thinking_tokens) as thinking_tokens,
+           SUM(input_tokens) as input_tokens,
+           SUM(output_tokens) as output_tokens
+         FROM (
+           SELECT
+             date(created_at) as date,
+             COUNT(DISTINCT session_id) as sessions,
+             COUNT(*) as messages,
+             SUM(COALESCE(thinking_tokens, 0)) as thinking_tokens,
+             SUM(COALESCE(input_tokens, 0)) as input_tokens,
+             SUM(COALESCE(output_tokens, 0)) as output_tokens
+           FROM messages
+           WHERE date(created_at) >= date('now', ?) ${scope ? `AND ${scope}` : ''}
+           GROUP BY date(created_at)
+           ${rollup}
+         )
+         GROUP BY date
+         ORDER BY date DESC`
+      )
+      .all(...params)
+  }
+
+  async function getToolUsageStats(viewer?: Viewer): Promise<ToolUsageStats[]> {
+    const params: unknown[] = []
+    const scope = scopeCondition(viewer, 'session_id', params, 'usage')
+    const rows = db
+      .prepare<unknown[], ToolStatRow>(
+        `SELECT name, session_id, duration_ms, error FROM tool_calls
+         ${scope ? `WHERE ${scope}` : ''}
+         ORDER BY name`
+      )
+      .all(...params)
+    return aggregateToolCalls(rows, (row) => row.name)
+      .map(({ stats }) => stats)
+      .sort((a, b) => b.call_count - a.call_count)
+  }
+
+  async function getToolTrends(filter: ToolTrendFilter = {}): Promise<ToolTrend[]> {
+    const params: Record<string, unknown> = { name: filter.name ?? null, days: filter.days ?? 30 }
+    const scope = namedScopeCondition(filter.viewer, 'session_id', params, 'usage')
+    const rows = db
+      .prepare<unknown[], ToolStatRow & { date: string }>(
+        `SELECT substr(created_at, 1, 10) as date, name, session_id, duration_ms, error
+         FROM tool_calls
+         WHERE (@name IS NULL OR name = @name)
+           AND created_at >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-' || @days || ' days')
+           ${scope ? `AND ${scope}` : ''}`
+      )
+      .all(params)
+    return aggregateToolCalls(rows, (row) => `${row.date} ${row.name}`)
+      .map(({ row, stats }) => ({ date: row.date, ...stats }))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.call_count - a.call_count)
+  }
+
+  async function getClientStats(viewer?: Viewer): Promise<ClientStats[]> {
+    const params: unknown[] = []
+    const scope = scopeCondition(viewer, 's.id', params, 'usage')
+    return db
+      .prepare<unknown[], ClientStats>(
+        `SELECT
+           COALESCE(json_extract(s.metadata, '$.source'), 'unknown') as client,
+           COUNT(DISTINCT s.id) as sessions,
+           COUNT(m.id) as messages,
+           COALESCE(SUM(m.thinking_tokens), 0) as thinking_tokens,
+           COALESCE(SUM(m.input_tokens), 0) as input_tokens,
+           COALESCE(SUM(m.output_tokens), 0) as output_tokens
+         FROM sessions s
+         LEFT JOIN messages m ON m.session_id = s.id
+         ${scope ? `WHERE ${scope}` : ''}
+         GROUP BY client
+         ORDER BY messages DESC`
+      )
+      .all(...params)
+  }
+
+  async function getUserStats(viewer?: Viewer): Promise<UserStats[]> {
+    const params: unknown[] = []
+    const scope = scopeCondition(viewer, 's.id', params, 'usage')
+    return db
+      .prepare<unknown[], UserStats>(
+        `SELECT
+           s.user_id,
+           u.name as user_name,
+           COUNT(DISTINCT s.id) as sessions,
+           COUNT(m.id) as messages,
+           COALESCE(SUM(m.thinking_tokens), 0) as thinking_tokens,
+           COALESCE(SUM(m.input_tokens), 0) as input_tokens,
+           COALESCE(SUM(m.output_tokens), 0) as output_tokens
+         FROM sessions s
+         LEFT JOIN users u ON u.id = s.user_id
+         LEFT JOIN messages m ON m.session_id = s.id
+         ${scope ? `WHERE ${scope}` : ''}
+         GROUP BY s.user_id, u.name
+         ORDER BY messages DESC`
+      )
+      .all(...params)
+  }
+
+  async function getTokenUsage(filter: TokenUsageFilter = {}): Promise<TokenUsage[]> {
+    const params: Record<string, unknown> = {
+      sessionId: filter.sessionId ?? null,
+      days: filter.days ?? null
+    }
+    const scope = namedScopeCondition(filter.viewer, 'm.session_id', params, 'usage')
+    // Project paths are content, so sessions the viewer may only count give
+    // none. Both conditions bind the same viewer values under the same names.
+    const readable = namedScopeCondition(filter.viewer, 's.id', params)
+    const projectPath = readable
+      ? `CASE WHEN ${readable} THEN s.project_path END`
+      : 's.project_path'
+    const sessions = filter.withDescendants ? SESSION_TREE : '@sessionId'
+    return db
+      .prepare<unknown[], TokenUsage>(
+        `SELECT
+           substr(m.created_at, 1, 10) as date,
+           m.model,
+           ${projectPath} as project_path,
+           u.name as user_name,
+           COUNT(*) as messages,
+           COALESCE(SUM(m.input_tokens), 0) as input_tokens,
+           COALESCE(SUM(m.output_tokens), 0) as output_tokens,
+           COALESCE(SUM(m.thinking_tokens), 0) as thinking_tokens,
+           COALESCE(SUM(m.cache_creation_input_tokens), 0) as cache_creation_input_tokens,
+           COALESCE(SUM(m.cache_read_input_tokens), 0) as cache_read_input_tokens
+         FROM messages m
+         JOIN sessions s ON s.id = m.session_id
+         LEFT JOIN users u ON u.id = s.user_id
+         WHERE (@sessionId IS NULL OR m.session_id IN (${sessions}))
+           AND (@days IS NULL
+             OR m.created_at >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-' || @days || ' days'))
+           ${scope ? `AND ${scope}` : ''}
+         GROUP BY 1, m.model, 3, u.name`
+      )
+      .all(params)
+  }
+
+  async function getTagCloud(limit: number = 100, viewer?: Viewer): Promise<TagCount[]> {
+    const params: unknown[] = []
+    const scope = scopeCondition(viewer, 'session_id', params)
+    return db
+      .prepare<unknown[], TagCount>(
+        `SELECT
+           tag,
+           COUNT(CASE WHEN message_id IS NULL THEN 1 END) as sessions,
+           COUNT(message_id) as messages
+         FROM tags
+         ${scope ? `WHERE ${scope}` : ''}
+         GROUP BY tag
+         ORDER BY COUNT(*) DESC, tag ASC
+         LIMIT ?`
+      )
+      .all(...params, limit)
+  }
+
+  async function getSessionStats(
+    sessionId: string,
+    withDescendants: boolean = false
+  ): Promise<SessionUsageStats | null> {
+    const sessions = withDescendants ? SESSION_TREE : '@sessionId'
+    const row = db
+      .prepare<unknown[], SessionUsageStats & { session_count: number }>(
+        `SELECT
+           COUNT(*) as message_count,
+           COALESCE(SUM(thinking_tokens), 0) as thinking_tokens,
+           COALESCE(SUM(input_tokens), 0) as input_tokens,
+           COALESCE(SUM(output_tokens), 0) as output_tokens,
+           (SELECT COUNT(*) FROM tool_calls WHERE session_id IN (${sessions})) as tool_calls,
+           COALESCE((julianday(MAX(created_at)) - julianday(MIN(created_at))) * 1440, 0)
+             as duration_minutes,
+           ${withDescendants ? `(SELECT COUNT(*) FROM (${SESSION_TREE}))` : 1} as session_count
+         FROM messages
+         WHERE session_id IN (${sessions})`
+      )
+      .get({ sessionId })
+    if (!row) return null
+    const { session_count, ...stats } = row
+    return withDescendants ? { ...stats, descendant_count: session_count - 1 } : stats
+  }
+
+  return {
+    backend: 'sqlite',
+    createSession,
+    getSession,
+    listSessions,
+    findSessionBySource,
+    updateSession,
+    endSession,
+    deleteSession,
+    mergeSessions,
+    splitSession,
+    captureMessage,
+    captureMessages,
+    deleteSessionMessages,
+    replaceSessionMessages,
+    getMessage,
+    getSessionMessages,
+    getMessageLinks,
+    streamSessionMessages,
+    scanMessages,
+    redactMessage,
+    searchMessages,
+    saveEmbedding,
+    getEmbedding,
+    streamEmbeddings,
+    listUnembeddedMessages,
+    getThinkingBlocks,
+    getThinkingBlock,
+    searchThinkingBlocks,
+    listToolCalls,
+    getToolCall,
+    getAnnotations,
+    addTags,
+    removeTags,
+    addNote,
+    getNote,
+    updateNote,
+    deleteNote,
+    setBookmark,
+    listBookmarks,
+    appendEvent,
+    listEvents,
+    watchEvents,
+    pruneEvents,
+    createApiKey,
+    findApiKeyByHash,
+    listApiKeys,
+    revokeApiKey,
+    touchApiKey,
+    createWorkspace,
+    listWorkspaces,
+    createUser,
+    getUser,
+    listUsers,
+    purgeThinking,
+    purgeSessions,
+    getOverallStats,
+    getDailyStats,
+    getToolUsageStats,
+    getToolTrends,
+    getClientStats,
+    getUserStats,
+    getTokenUsage,
+    getTagCloud,
+    getSessionStats,
+    close: async () => {
+      db.close()
+    }
+  }
+}
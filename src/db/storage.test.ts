@@ -0,0 +1,622 @@
+/**
+ * Storage backend behavior
+ * The same suite runs against every backend through the Storage interface.
+ * SQLite uses an in-memory database; Postgres runs only when TEST_DATABASE_URL
+ * names a scratch database, which the suite empties before it starts.
+ */
+
+import assert from 'node:assert/strict'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { parseSearchQuery } from '../search/query.js'
+import type { Storage } from './storage.js'
+import type { AnnotationTarget, CaptureMessageInput, Session } from '../types/index.js'
+
+const POSTGRES_TABLES = [
+  'sessions',
+  'events',
+  'api_keys',
+  'users',
+  'workspaces',
+  'daily_stats_rollup'
+]
+
+interface Backend {
+  name: string
+  skip: string | false
+  open(): Promise<Storage>
+  reset(storage: Storage): Promise<void>
+}
+
+const backends: Backend[] = [
+  {
+    name: 'sqlite',
+    skip: false,
+    async open() {
+      const { openSqliteStorage } = await import('./sqlite.js')
+      return openSqliteStorage(':memory:')
+    },
+    async reset(storage) {
+      for (const session of (await storage.listSessions(1000)).sessions) {
+        await storage.deleteSession(session.id)
+      }
+    }
+  },
+  {
+    name: 'postgres',
+    skip: process.env.TEST_DATABASE_URL ? false : 'set TEST_DATABASE_URL to run',
+    async open() {
+      // postgres.js reads DATABASE_URL when it is first loaded
+      process.env.DATABASE_URL = process.env.TEST_DATABASE_URL
+      const { migrateUp } = await import('./migrate.js')
+      await migrateUp()
+      const { postgresStorage } = await import('./postgres.js')
+      return postgresStorage
+    },
+    async reset() {
+      const { pool } = await import('./postgres.js')
+      await pool.query(`TRUNCATE ${POSTGRES_TABLES.join(', ')} CASCADE`)
+    }
+  }
+]
+
+for (const backend of backends) {
+  describe(`${backend.name} storage`, { skip: backend.skip }, () => {
+    let storage: Storage
+
+    before(async () => {
+      storage = await backend.open()
+    })
+
+    beforeEach(async () => {
+      await backend.reset(storage)
+    })
+
+    after(async () => {
+      await storage?.close()
+    })
+
+    function capture(session: Session, input: Partial<CaptureMessageInput> = {}) {
+      return storage
+        .captureMessage({ session_id: session.id, role: 'user', content: '', ...input })
+        .then(({ message }) => message)
+    }
+
+    describe('sessions', () => {
+      it('creates, updates and lists sessions', async () => {
+        const session = await storage.createSession({ name: 'First', project_path: '/work/api' })
+        assert.equal(session.name, 'First')
+        assert.equal(session.project_path, '/work/api')
+        assert.equal(session.ended_at, null)
+
+        const renamed = await storage.updateSession(session.id, { name: 'Renamed' })
+        assert.equal(renamed?.name, 'Renamed')
+
+        await storage.createSession({ name: 'Second' })
+        const { sessions, total } = await storage.listSessions()
+        assert.equal(total, 2)
+        assert.deepEqual(sessions.map((s) => s.name).sort(), ['Renamed', 'Second'])
+      })
+
+      it("finds imported sessions by source within the importing user's own", async () => {
+        const workspace = await storage.createWorkspace('Imports')
+        const user = await storage.createUser({ name: 'Importer', workspace_id: workspace.id })
+        const metadata = { source: 'claude-code', external_id: 'transcript-1' }
+        const unowned = await storage.createSession({ name: 'Unowned', metadata })
+        const owned = await storage.createSession({
+          name: 'Owned',
+          metadata,
+          user_id: user.id,
+          workspace_id: workspace.id
+        })
+
+        const found = await storage.findSessionBySource('claude-code', 'transcript-1', user.id)
+        assert.equal(found?.id, owned.id)
+        const anonymous = await storage.findSessionBySource('claude-code', 'transcript-1', null)
+        assert.equal(anonymous?.id, unowned.id)
+        assert.equal(await storage.findSessionBySource('gemini-cli', 'transcript-1', null), null)
+      })
+
+      it('ends sessions at the given time', async () => {
+        const session = await storage.createSession({ name: 'Ending' })
+        const endedAt = new Date('2025-03-01T12:00:00Z')
+        const ended = await storage.endSession(session.id, endedAt)
+        assert.equal(new Date(ended!.ended_at!).toISOString(), endedAt.toISOString())
+      })
+
+      it('deletes sessions with their messages', async () => {
+        const session = await storage.createSession({ name: 'Doomed' })
+        const message = await capture(session, { content: 'gone soon' })
+
+        assert.equal(await storage.deleteSession(session.id), true)
+        assert.equal(await storage.getSession(session.id), null)
+        assert.equal(await storage.getMessage(message.id), null)
+        assert.equal(await storage.deleteSession(session.id), false)
+      })
+
+      it('splits a session and merges it back', async () => {
+        const session = await storage.createSession({ name: 'Whole' })
+        const first = await capture(session, { content: 'one' })
+        const second = await capture(session, { role: 'assistant', content: 'two' })
+        await capture(session, { content: 'three' })
+
+        const split = await storage.splitSession(session.id, second.id, { name: 'Tail' })
+        assert.ok(split)
+        assert.equal((await storage.getSessionMessages(session.id)).total, 1)
+        assert.equal((await storage.getSessionMessages(split.id)).total, 2)
+
+        const merged = await storage.mergeSessions(session.id, [split.id])
+        assert.equal(merged?.id, session.id)
+        assert.equal(await storage.getSession(split.id), null)
+        const { messages } = await storage.getSessionMessages(session.id)
+        assert.deepEqual(
+          messages.map((m) => m.content),
+          ['one', 'two', 'three']
+        )
+        assert.equal(messages[0].id, first.id)
+        assert.deepEqual(
+          messages.map((m) => m.parent_message_id),
+          [null, first.id, second.id]
+        )
+      })
+
+      it('chains merged sessions after the earlier messages', async () => {
+        const target = await storage.createSession({ name: 'Target' })
+        const source = await storage.createSession({ name: 'Source' })
+        const earlier = await capture(target, { content: 'earlier' })
+        const later = await capture(source, { content: 'later' })
+
+        await storage.mergeSessions(target.id, [source.id])
+        const roots = (await storage.getMessageLinks(target.id)).filter(
+          (link) => link.parent_message_id === null
+        )
+        assert.deepEqual(
+          roots.map((link) => link.id),
+          [earlier.id]
+        )
+        assert.equal((await storage.getMessage(later.id))?.parent_message_id, earlier.id)
+      })
+    })
+
+    describe('messages', () => {
+      it('captures messages with thinking and usage', async () => {
+        const session = await storage.createSession({ name: 'Capture' })
+        const message = await capture(session, {
+          role: 'assistant',
+          content: 'The answer',
+          thinking: ['First thought', 'Second thought'],
+          model: 'claude-sonnet-4-20250514',
+          input_tokens: 100,
+          output_tokens: 50
+        })
+
+        const stored = await storage.getMessage(message.id)
+        assert.equal(stored?.content, 'The answer')
+        assert.equal(stored?.model, 'claude-sonnet-4-20250514')
+        assert.equal(Number(stored?.input_tokens), 100)
+
+        const blocks = await storage.getThinkingBlocks(message.id)
+        assert.deepEqual(
+          blocks.map((block) => block.content),
+          ['First thought', 'Second thought']
+        )
+      })
+
+      it('returns messages in order and chains them implicitly', async () => {
+        const session = await storage.createSession({ name: 'Order' })
+        const first = await capture(session, { content: 'one' })
+        const second = await capture(session, { role: 'assistant', content: 'two' })
+
+        const { messages, total } = await storage.getSessionMessages(session.id)
+        assert.equal(total, 2)
+        assert.deepEqual(
+          messages.map((m) => m.id),
+          [first.id, second.id]
+        )
+        assert.equal(messages[1].parent_message_id, first.id)
+      })
+
+      it('orders and chains messages by their client event time', async () => {
+        const session = await storage.createSession({ name: 'Event times' })
+        const first = await capture(session, {
+          content: 'one',
+          created_at: new Date('2025-01-01T00:00:00Z')
+        })
+        const third = await capture(session, {
+          content: 'three',
+          created_at: new Date('2025-01-01T00:00:02Z')
+        })
+        // Reported late, after a message sent later than it
+        const second = await capture(session, {
+          role: 'assistant',
+          content: 'two',
+          created_at: new Date('2025-01-01T00:00:01Z')
+        })
+
+        const { messages } = await storage.getSessionMessages(session.id)
+        assert.deepEqual(
+          messages.map((m) => m.id),
+          [first.id, second.id, third.id]
+        )
+        assert.equal(new Date(second.created_at).toISOString(), '2025-01-01T00:00:01.000Z')
+        assert.equal(second.parent_message_id, first.id)
+        assert.ok(new Date(second.ingested_at!) > new Date(second.created_at))
+      })
+
+      it('replaces the messages of a session, linking them by index', async () => {
+        const session = await storage.createSession({ name: 'Reimported' })
+        await capture(session, { content: 'stale' })
+
+        const stored = await storage.replaceSessionMessages(session.id, [
+          { role: 'user', content: 'question' },
+          { role: 'assistant', content: 'answer' },
+          { role: 'user', content: 'retry', parent: 0 },
+          { role: 'user', content: 'fresh start', parent: null }
+        ])
+        const { messages } = await storage.getSessionMessages(session.id)
+        assert.deepEqual(
+          messages.map((m) => m.content),
+          ['question', 'answer', 'retry', 'fresh start']
+        )
+        assert.deepEqual(
+          messages.map((m) => m.parent_message_id),
+          [null, stored[0].id, stored[0].id, null]
+        )
+      })
+
+      it('keeps the old messages when replacing them fails', async () => {
+        const session = await storage.createSession({ name: 'Kept' })
+        await capture(session, { content: 'original' })
+
+        await assert.rejects(
+          storage.replaceSessionMessages(session.id, [
+            { role: 'user', content: 'new' },
+            { role: 'user', content: 'broken', created_at: new Date('not a date') }
+          ])
+        )
+        const { messages } = await storage.getSessionMessages(session.id)
+        assert.deepEqual(
+          messages.map((m) => m.content),
+          ['original']
+        )
+      })
+
+      it('captures an external id only once', async () => {
+        const session = await storage.createSession({ name: 'Idempotent' })
+        const input: CaptureMessageInput = {
+          session_id: session.id,
+          role: 'user',
+          content: 'hello',
+          external_id: 'client-1'
+        }
+        const first = await storage.captureMessage(input)
+        const again = await storage.captureMessage(input)
+        assert.equal(first.created, true)
+        assert.equal(again.created, false)
+        assert.equal(again.message.id, first.message.id)
+        assert.equal((await storage.getSessionMessages(session.id)).total, 1)
+      })
+
+      for (const [label, createdAt] of [
+        ['at capture time', undefined],
+        ['with one shared event time', new Date('2025-01-01T00:00:00Z')]
+      ] as const) {
+        it(`captures batches in order ${label}`, async () => {
+          const session = await storage.createSession({ name: 'Batch' })
+          const contents = ['m0', 'm1', 'm2', 'm3', 'm4', 'm5', 'm6', 'm7']
+          const captured = await storage.captureMessages(
+            contents.map((content, index) => ({
+              session_id: session.id,
+              role: index % 2 ? 'assistant' : 'user',
+              content,
+              created_at: createdAt
+            }))
+          )
+          assert.deepEqual(
+            captured.map(({ message }) => message.content),
+            contents
+          )
+
+          const { messages } = await storage.getSessionMessages(session.id)
+          assert.deepEqual(
+            messages.map((m) => m.content),
+            contents
+          )
+          assert.deepEqual(
+            messages.map((m) => m.parent_message_id),
+            messages.map((_, index) => (index === 0 ? null : messages[index - 1].id))
+          )
+
+          const split = await storage.splitSession(session.id, messages[5].id, { name: 'Tail' })
+          const tail = await storage.getSessionMessages(split!.id)
+          assert.deepEqual(
+            tail.messages.map((m) => m.content),
+            ['m5', 'm6', 'm7']
+          )
+        })
+      }
+    })
+
+    describe('search', () => {
+      async function seed() {
+        const api = await storage.createSession({ name: 'API', project_path: '/work/api' })
+        const web = await storage.createSession({ name: 'Web', project_path: '/work/web' })
+        const cache = await capture(api, {
+          role: 'assistant',
+          content: 'Added a cache in front of the database',
+          thinking: 'The database is slow under load',
+          model: 'claude-sonnet-4-20250514'
+        })
+        const retry = await capture(web, {
+          role: 'assistant',
+          content: 'Retry the request with backoff',
+          model: 'gemini-2.5-pro'
+        })
+        return { api, web, cache, retry }
+      }
+
+      it('finds messages by content and thinking', async () => {
+        const { cache } = await seed()
+        const byContent = await storage.searchMessages(parseSearchQuery('cache'))
+        assert.deepEqual(
+          byContent.results.map((r) => r.id),
+          [cache.id]
+        )
+
+        const byThinking = await storage.searchMessages(parseSearchQuery('slow'))
+        assert.deepEqual(
+          byThinking.results.map((r) => r.id),
+          [cache.id]
+        )
+
+        const contentOnly = await storage.searchMessages(parseSearchQuery('slow in:content'))
+        assert.equal(contentOnly.total, 0)
+      })
+
+      it('applies OR, exclusions and filters', async () => {
+        const { cache, retry } = await seed()
+        const either = await storage.searchMessages(parseSearchQuery('cache OR retry'))
+        assert.equal(either.total, 2)
+
+        const excluded = await storage.searchMessages(parseSearchQuery('cache OR retry -backoff'))
+        assert.deepEqual(
+          excluded.results.map((r) => r.id),
+          [cache.id]
+        )
+
+        const byModel = await storage.searchMessages(parseSearchQuery('model:gemini'))
+        assert.deepEqual(
+          byModel.results.map((r) => r.id),
+          [retry.id]
+        )
+
+        const byProject = await storage.searchMessages(parseSearchQuery('project:api'))
+        assert.deepEqual(
+          byProject.results.map((r) => r.id),
+          [cache.id]
+        )
+      })
+
+      it('searches for words ending in a colon as text', async () => {
+        const session = await storage.createSession({ name: 'Colons' })
+        const todo = await capture(session, { content: 'TODO: fix the flaky test' })
+        const { results } = await storage.searchMessages(parseSearchQuery('TODO: flaky'))
+        assert.deepEqual(
+          results.map((r) => r.id),
+          [todo.id]
+        )
+      })
+
+      it('limits results to a session', async () => {
+        const { web } = await seed()
+        const { total } = await storage.searchMessages(parseSearchQuery('cache OR retry'), {
+          sessionId: web.id
+        })
+        assert.equal(total, 1)
+      })
+    })
+
+    describe('tags and notes', () => {
+      it('adds and removes tags', async () => {
+        const session = await storage.createSession({ name: 'Tagged' })
+        const target: AnnotationTarget = { session_id: session.id, message_id: null }
+
+        assert.deepEqual(await storage.addTags(target, ['insight', 'bug']), ['bug', 'insight'])
+        assert.deepEqual(await storage.addTags(target, ['bug']), ['bug', 'insight'])
+        assert.deepEqual(await storage.removeTags(target, ['bug']), ['insight'])
+
+        const { sessions } = await storage.listSessions(50, 0, { tags: ['insight'] })
+        assert.deepEqual(
+          sessions.map((s) => s.id),
+          [session.id]
+        )
+      })
+
+      it('filters search results by message tags', async () => {
+        const session = await storage.createSession({ name: 'Tagged search' })
+        const tagged = await capture(session, { content: 'tagged answer' })
+        await capture(session, { content: 'untagged answer' })
+        await storage.addTags({ session_id: session.id, message_id: tagged.id }, ['keep'])
+
+        const { results } = await storage.searchMessages(parseSearchQuery('answer tag:keep'))
+        assert.deepEqual(
+          results.map((r) => r.id),
+          [tagged.id]
+        )
+      })
+
+      it('adds, edits and deletes notes', async () => {
+        const session = await storage.createSession({ name: 'Noted' })
+        const message = await capture(session, { content: 'worth a note' })
+        const target: AnnotationTarget = { session_id: session.id, message_id: message.id }
+
+        const note = await storage.addNote(target, 'Remember this', null)
+        assert.equal((await storage.getNote(note.id))?.content, 'Remember this')
+
+        const updated = await storage.updateNote(note.id, 'Edited')
+        assert.equal(updated?.content, 'Edited')
+
+        const annotations = await storage.getAnnotations(target, null)
+        assert.deepEqual(
+          annotations.notes.map((n) => n.content),
+          ['Edited']
+        )
+
+        assert.equal(await storage.deleteNote(note.id), true)
+        assert.equal(await storage.getNote(note.id), null)
+      })
+
+      it('records the author of a note', async () => {
+        const workspace = await storage.createWorkspace('Notes')
+        const user = await storage.createUser({ name: 'Author', workspace_id: workspace.id })
+        const session = await storage.createSession({ name: 'Authored' })
+        const target: AnnotationTarget = { session_id: session.id, message_id: null }
+
+        const note = await storage.addNote(target, 'Mine', user.id)
+        assert.equal(note.user_id, user.id)
+        assert.equal((await storage.getNote(note.id))?.user_id, user.id)
+      })
+
+      it('bookmarks sessions', async () => {
+        const session = await storage.createSession({ name: 'Bookmarked' })
+        const target: AnnotationTarget = { session_id: session.id, message_id: null }
+
+        await storage.setBookmark(target, true, null)
+        await storage.setBookmark(target, true, null)
+        assert.equal((await storage.getAnnotations(target, null)).bookmarked, true)
+        assert.equal((await storage.listBookmarks()).total, 1)
+
+        await storage.setBookmark(target, false, null)
+        assert.equal((await storage.listBookmarks()).total, 0)
+      })
+
+      it('keeps bookmarks per user', async () => {
+        const workspace = await storage.createWorkspace('Bookmarks')
+        const ada = await storage.createUser({ name: 'Ada', workspace_id: workspace.id })
+        const bob = await storage.createUser({ name: 'Bob', workspace_id: workspace.id })
+        const session = await storage.createSession({
+          name: 'Shared',
+          user_id: ada.id,
+          workspace_id: workspace.id,
+          visibility: 'workspace'
+        })
+        const target: AnnotationTarget = { session_id: session.id, message_id: null }
+
+        await storage.setBookmark(target, true, bob.id)
+        assert.equal((await storage.getAnnotations(target, bob.id)).bookmarked, true)
+        assert.equal((await storage.getAnnotations(target, ada.id)).bookmarked, false)
+
+        const viewer = { user_id: ada.id, workspace_id: workspace.id }
+        assert.equal((await storage.listBookmarks(50, 0, viewer)).total, 0)
+        const { bookmarks } = await storage.listBookmarks()
+        assert.deepEqual(
+          bookmarks.map((b) => b.user_id),
+          [bob.id]
+        )
+
+        await storage.setBookmark(target, true, ada.id)
+        await storage.setBookmark(target, false, bob.id)
+        assert.equal((await storage.getAnnotations(target, ada.id)).bookmarked, true)
+      })
+
+      it('counts tags in the tag cloud', async () => {
+        const session = await storage.createSession({ name: 'Cloud' })
+        const message = await capture(session, { content: 'x' })
+        await storage.addTags({ session_id: session.id, message_id: null }, ['idea'])
+        await storage.addTags({ session_id: session.id, message_id: message.id }, ['idea'])
+
+        const cloud = await storage.getTagCloud()
+        assert.deepEqual(
+          cloud.map(({ tag, sessions, messages }) => ({
+            tag,
+            sessions: Number(sessions),
+            messages: Number(messages)
+          })),
+          [{ tag: 'idea', sessions: 1, messages: 1 }]
+        )
+      })
+    })
+
+    describe('analytics', () => {
+      async function seed() {
+        const session = await storage.createSession({ name: 'Usage', project_path: '/work/api' })
+        await capture(session, { content: 'question', input_tokens: 10 })
+        await capture(session, {
+          role: 'assistant',
+          content: 'answer',
+          thinking: 'hmm',
+          thinking_tokens: 30,
+          input_tokens: 20,
+          output_tokens: 40,
+          model: 'claude-sonnet-4-20250514',
+          tool_calls: [{ id: 'call-1', name: 'Bash', input: { command: 'ls' } }]
+        })
+        return session
+      }
+
+      it('totals sessions, messages and tokens', async () => {
+        await seed()
+        const stats = await storage.getOverallStats()
+        assert.equal(Number(stats.total_sessions), 1)
+        assert.equal(Number(stats.total_messages), 2)
+        assert.equal(Number(stats.total_thinking_tokens), 30)
+        assert.equal(Number(stats.total_input_tokens), 30)
+        assert.equal(Number(stats.total_output_tokens), 40)
+      })
+
+      it('reports daily, per-session and per-tool usage', async () => {
+        const session = await seed()
+
+        const [today] = await storage.getDailyStats(7)
+        assert.equal(Number(today.messages), 2)
+
+        const usage = await storage.getSessionStats(session.id)
+        assert.equal(Number(usage?.message_count), 2)
+        assert.equal(Number(usage?.tool_calls), 1)
+
+        const tools = await storage.getToolUsageStats()
+        assert.deepEqual(
+          tools.map((tool) => [tool.tool_name, Number(tool.call_count)]),
+          [['Bash', 1]]
+        )
+      })
+
+      it('groups token usage by model and project', async () => {
+        await seed()
+        const usage = await storage.getTokenUsage()
+        const byModel = new Map(usage.map((row) => [row.model, row]))
+        assert.equal(Number(byModel.get('claude-sonnet-4-20250514')?.output_tokens), 40)
+        assert.equal(Number(byModel.get(null)?.input_tokens), 10)
+        assert.ok(usage.every((row) => row.project_path === '/work/api'))
+      })
+
+      it('counts private sessions in workspace usage without their project', async () => {
+        const workspace = await storage.createWorkspace('Usage')
+        const owner = await storage.createUser({ name: 'Owner', workspace_id: workspace.id })
+        const reader = await storage.createUser({ name: 'Reader', workspace_id: workspace.id })
+        const session = await storage.createSession({
+          name: 'Private',
+          project_path: '/secret',
+          user_id: owner.id,
+          workspace_id: workspace.id,
+          visibility: 'private'
+        })
+        await capture(session, { content: 'hidden', input_tokens: 25 })
+
+        const viewer = { user_id: reader.id, workspace_id: workspace.id }
+        const usage = await storage.getTokenUsage({ viewer })
+        assert.deepEqual(
+          usage.map((row) => [row.project_path, Number(row.input_tokens)]),
+          [[null, 25]]
+        )
+
+        const own = await storage.getTokenUsage({
+          viewer: { user_id: owner.id, workspace_id: workspace.id }
+        })
+        assert.deepEqual(
+          own.map((row) => row.project_path),
+          ['/secret']
+        )
+      })
+    })
+  })
+}
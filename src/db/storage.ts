@@ -0,0 +1,203 @@
+/**
+ * Storage backend contract
+ * Every backend implements the same session, message, search and analytics
+ * operations so routes and MCP tools never depend on a particular database.
+ */
+
+import type {
+  Session,
+  Message,
+  CapturedMessage,
+  MessageLink,
+  SearchResult,
+  ThinkingBlock,
+  ThinkingBlockSearchResult,
+  ThinkingBlockSearchOptions,
+  SessionStats,
+  SessionUsageStats,
+  DailyStats,
+  ToolCallRecord,
+  ToolCallFilter,
+  ToolUsageStats,
+  ToolTrend,
+  ToolTrendFilter,
+  ClientStats,
+  TokenUsage,
+  TokenUsageFilter,
+  MessageSearchOptions,
+  SearchQuery,
+  SessionListFilter,
+  AnnotationTarget,
+  Annotations,
+  Note,
+  Bookmark,
+  TagCount,
+  MessageEmbedding,
+  StreamEvent,
+  StreamEventInput,
+  ApiKey,
+  CreateApiKeyInput,
+  Workspace,
+  User,
+  CreateUserInput,
+  UserStats,
+  Viewer,
+  CaptureMessageInput,
+  MessageRedaction,
+  RetentionExemptions,
+  ThinkingPurge,
+  SessionPurge,
+  CreateSessionInput,
+  UpdateSessionInput,
+  TranscriptMessage
+} from '../types/index.js'
+
+export type StorageBackend = 'postgres' | 'sqlite'
+
+export interface Storage {
+  readonly backend: StorageBackend
+
+  // Sessions
+  createSession(input: CreateSessionInput): Promise<Session>
+  getSession(id: string): Promise<Session | null>
+  listSessions(
+    limit?: number,
+    offset?: number,
+    filter?: SessionListFilter
+  ): Promise<{ sessions: Session[]; total: number }>
+  /** The oldest session imported from the source by the user (null: without an owner) */
+  findSessionBySource(
+    source: string,
+    externalId: string,
+    userId: string | null
+  ): Promise<Session | null>
+  updateSession(id: string, input: UpdateSessionInput): Promise<Session | null>
+  /** Ends the session at endedAt, or now */
+  endSession(id: string, endedAt?: Date): Promise<Session | null>
+  deleteSession(id: string): Promise<boolean>
+  /**
+   * Moves every message and annotation of the sources into the target, which
+   * spans all of them afterwards, then deletes the sources. Each session's
+   * opening message follows the latest earlier one, as in implicit chaining.
+   */
+  mergeSessions(targetId: string, sourceIds: string[]): Promise<Session | null>
+  /** Moves a message and every later one into a new session; null if it is not in the session */
+  splitSession(id: string, messageId: string, input: CreateSessionInput): Promise<Session | null>
+
+  // Messages
+  /** A message whose external_id its session already has is returned, not inserted */
+  captureMessage(input: CaptureMessageInput): Promise<CapturedMessage>
+  /** Captures the messages in order, in one transaction */
+  captureMessages(inputs: CaptureMessageInput[]): Promise<CapturedMessage[]>
+  deleteSessionMessages(sessionId: string): Promise<number>
+  /** Deletes the session's messages and captures these in order, in one transaction */
+  replaceSessionMessages(sessionId: string, messages: TranscriptMessage[]): Promise<Message[]>
+  getMessage(id: string): Promise<Message | null>
+  /** With leafId, only the branch from the first message to that one */
+  getSessionMessages(
+    sessionId: string,
+    limit?: number,
+    offset?: number,
+    leafId?: string
+  ): Promise<{ messages: Message[]; total: number }>
+  /** Every message's place in the conversation tree, in session order */
+  getMessageLinks(sessionId: string): Promise<MessageLink[]>
+  streamSessionMessages(sessionId: string): AsyncGenerator<Message>
+  /** Every message in id order, a page at a time, for maintenance passes */
+  scanMessages(afterId: string | null, limit: number): Promise<Message[]>
+  /** Overwrites scrubbed text and drops the message's now stale embeddings */
+  redactMessage(id: string, redaction: MessageRedaction): Promise<void>
+
+  // Search
+  searchMessages(
+    query: SearchQuery,
+    options?: MessageSearchOptions
+  ): Promise<{ results: SearchResult[]; total: number }>
+
+  // Embeddings, keyed by provider id so switching providers re-indexes
+  saveEmbedding(provider: string, embedding: MessageEmbedding): Promise<void>
+  getEmbedding(messageId: string, provider: string): Promise<Float32Array | null>
+  streamEmbeddings(
+    provider: string,
+    sessionId?: string,
+    viewer?: Viewer
+  ): AsyncGenerator<MessageEmbedding>
+  listUnembeddedMessages(provider: string, limit: number): Promise<Message[]>
+
+  // Thinking blocks
+  getThinkingBlocks(messageId: string): Promise<ThinkingBlock[]>
+  getThinkingBlock(id: string): Promise<ThinkingBlock | null>
+  searchThinkingBlocks(
+    query: string,
+    options?: ThinkingBlockSearchOptions
+  ): Promise<{ results: ThinkingBlockSearchResult[]; total: number }>
+
+  // Tool calls
+  listToolCalls(filter?: ToolCallFilter): Promise<{ tool_calls: ToolCallRecord[]; total: number }>
+  getToolCall(id: string): Promise<ToolCallRecord | null>
+
+  // Annotations (tags, notes and bookmarks); notes and bookmarks belong to userId
+  /** bookmarked reports userId's bookmark */
+  getAnnotations(target: AnnotationTarget, userId: string | null): Promise<Annotations>
+  addTags(target: AnnotationTarget, tags: string[]): Promise<string[]>
+  removeTags(target: AnnotationTarget, tags: string[]): Promise<string[]>
+  addNote(target: AnnotationTarget, content: string, userId: string | null): Promise<Note>
+  getNote(id: string): Promise<Note | null>
+  updateNote(id: string, content: string): Promise<Note | null>
+  deleteNote(id: string): Promise<boolean>
+  setBookmark(target: AnnotationTarget, bookmarked: boolean, userId: string | null): Promise<void>
+  /** The viewer's own bookmarks; every bookmark for unrestricted callers */
+  listBookmarks(
+    limit?: number,
+    offset?: number,
+    viewer?: Viewer
+  ): Promise<{ bookmarks: Bookmark[]; total: number }>
+
+  // Events for live streams
+  appendEvent(input: StreamEventInput): Promise<StreamEvent>
+  listEvents(afterId: number, sessionId?: string, limit?: number): Promise<StreamEvent[]>
+  /** Calls the listener for each appended event; Postgres also delivers other processes' events */
+  watchEvents(listener: (event: StreamEvent) => void): () => void
+  pruneEvents(before: Date): Promise<number>
+
+  // API keys, looked up by the hash of the presented key
+  createApiKey(input: CreateApiKeyInput): Promise<ApiKey>
+  findApiKeyByHash(keyHash: string): Promise<ApiKey | null>
+  listApiKeys(): Promise<ApiKey[]>
+  revokeApiKey(id: string): Promise<ApiKey | null>
+  touchApiKey(id: string, usedAt: Date): Promise<void>
+
+  // Workspaces and users
+  createWorkspace(name: string): Promise<Workspace>
+  listWorkspaces(): Promise<Workspace[]>
+  createUser(input: CreateUserInput): Promise<User>
+  getUser(id: string): Promise<User | null>
+  listUsers(): Promise<User[]>
+
+  // Retention; sessions matching the exemptions are left whole
+  purgeThinking(
+    before: Date,
+    exemptions: RetentionExemptions,
+    dryRun: boolean
+  ): Promise<ThinkingPurge>
+  /** Deletes sessions with no activity since before, optionally rolling up their daily stats */
+  purgeSessions(
+    before: Date,
+    exemptions: RetentionExemptions,
+    options: { rollup: boolean; dryRun: boolean }
+  ): Promise<SessionPurge>
+
+  // Analytics, limited to the sessions a viewer may count (see visibility.ts)
+  getOverallStats(viewer?: Viewer): Promise<SessionStats>
+  getDailyStats(days?: number, viewer?: Viewer): Promise<DailyStats[]>
+  getToolUsageStats(viewer?: Viewer): Promise<ToolUsageStats[]>
+  getToolTrends(filter?: ToolTrendFilter): Promise<ToolTrend[]>
+  getClientStats(viewer?: Viewer): Promise<ClientStats[]>
+  getUserStats(viewer?: Viewer): Promise<UserStats[]>
+  getTokenUsage(filter?: TokenUsageFilter): Promise<TokenUsage[]>
+  getTagCloud(limit?: number, viewer?: Viewer): Promise<TagCount[]>
+  /** With withDescendants, totals over the session and every sub-session below it */
+  getSessionStats(sessionId: string, withDescendants?: boolean): Promise<SessionUsageStats | null>
+
+  close(): Promise<void>
+}
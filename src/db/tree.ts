@@ -0,0 +1,41 @@
+/**
+ * Conversation trees
+ * Messages link to the message they follow, so edits and retries fork the
+ * conversation into branches that share everything before the fork.
+ */
+
+import type { MessageLink, MessageTree, MessageTreeNode } from '../types/index.js'
+
+/**
+ * Arranges a session's links, in session order, into a tree. A message whose
+ * parent is gone (deleted, or left behind by a split) becomes a root.
+ */
+export function buildMessageTree(sessionId: string, links: MessageLink[]): MessageTree {
+  const nodes = new Map<string, MessageTreeNode>()
+  for (const link of links) nodes.set(link.id, { ...link, children: [] })
+
+  const roots: string[] = []
+  for (const node of nodes.values()) {
+    const parent = node.parent_message_id ? nodes.get(node.parent_message_id) : undefined
+    if (parent) parent.children.push(node.id)
+    else roots.push(node.id)
+  }
+
+  const all = [...nodes.values()]
+  return {
+    session_id: sessionId,
+    roots,
+    leaves: all.filter((node) => node.children.length === 0).map((node) => node.id),
+    nodes: all
+  }
+}
+
+/**
+ * The last message labelled branchId, which ends that branch
+ */
+export function findBranchLeaf(links: MessageLink[], branchId: string): string | null {
+  for (let i = links.length - 1; i >= 0; i--) {
+    if (links[i].branch_id === branchId) return links[i].id
+  }
+  return null
+}
@@ -0,0 +1,60 @@
+/**
+ * Session visibility
+ * A session is always visible to its owner, to members of its workspace when
+ * its visibility is 'workspace', and to everyone when 'public'. Callers pass
+ * a Viewer; leaving it out means an unrestricted caller such as the CLI, the
+ * local stdio MCP server or an API running with API_AUTH=off.
+ */
+
+import type { Session, Viewer } from '../types/index.js'
+
+/**
+ * 'content' limits rows to sessions the viewer may read. 'usage' also counts
+ * private sessions in the viewer's workspace, so analytics can show team-wide
+ * totals without exposing what those sessions contain.
+ */
+export type VisibilityMode = 'content' | 'usage'
+
+type SessionAccess = Pick<Session, 'user_id' | 'workspace_id' | 'visibility'>
+
+export function canView(session: SessionAccess, viewer?: Viewer): boolean {
+  if (!viewer || session.visibility === 'public') return true
+  if (session.user_id && session.user_id === viewer.user_id) return true
+  return (
+    session.visibility === 'workspace' &&
+    !!session.workspace_id &&
+    session.workspace_id === viewer.workspace_id
+  )
+}
+
+/**
+ * Only the owner may change a session; one captured without an owner can be
+ * changed by anyone who can see it
+ */
+export function canEdit(session: SessionAccess, viewer?: Viewer): boolean {
+  if (!viewer) return true
+  if (!session.user_id) return canView(session, viewer)
+  return session.user_id === viewer.user_id
+}
+
+/**
+ * SQL condition limiting `column` (a session id) to the sessions a viewer may
+ * see, or null when the viewer is unrestricted. `bind` adds a parameter and
+ * returns its placeholder, so both backends can share the condition.
+ */
+export function visibilityCondition(
+  viewer: Viewer | undefined,
+  column: string,
+  bind: (value: unknown) => string,
+  mode: VisibilityMode = 'content'
+): string | null {
+  if (!viewer) return null
+  const user = bind(viewer.user_id)
+  const workspace = bind(viewer.workspace_id)
+  const shared =
+    mode === 'usage'
+      ? `workspace_id = ${workspace}`
+      : `(visibility = 'workspace' AND workspace_id = ${workspace})`
+  return `${column} IN (
+    SELECT id FROM sessions WHERE visibility = 'public' OR user_id = ${user} OR ${shared})`
+}
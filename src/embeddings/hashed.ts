@@ -0,0 +1,79 @@
+/**
+ * Offline embedding provider
+ * Feature-hashed TF-IDF: words and adjacent word pairs are hashed into a
+ * fixed number of signed buckets, weighted by sublinear term frequency with
+ * stopwords dropped. The stored vectors hold only the TF part; similarity
+ * search applies each bucket's inverse document frequency over the stored
+ * vectors (see weighByIdf), so the weights follow the corpus as it grows
+ * without re-indexing. No model or network is needed, and messages that
+ * share vocabulary (including identifiers and file names) land close together.
+ */
+
+import { normalize } from './vector.js'
+import type { EmbeddingProvider } from './index.js'
+
+const DIMENSIONS = 512
+
+// Adjacent pairs capture some word order without dominating single terms
+const BIGRAM_WEIGHT = 0.5
+
+const STOPWORDS = new Set(
+  `a about above after again all also am an and any are as at be because been before being
+  below between both but by can could did do does doing down during each few for from further
+  had has have having he her here hers him his how i if in into is it its itself just let me
+  more most my no nor not now of off on once only or other our ours out over own same she
+  should so some such than that the their theirs them then there these they this those through
+  to too under until up us very was we were what when where which while who whom why will with
+  would you your yours`.split(/\s+/)
+)
+
+/**
+ * 32-bit FNV-1a
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * Lowercased words with trailing plural and tense endings trimmed, so
+ * "parsing", "parsed" and "parses" share a bucket
+ */
+function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []
+  return words
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 5 ? word.replace(/(ing|ed|es|s)$/, '') : word))
+}
+
+function embedText(text: string): Float32Array {
+  const counts = new Map<string, number>()
+  const words = tokenize(text)
+  words.forEach((word, index) => {
+    counts.set(word, (counts.get(word) ?? 0) + 1)
+    if (index > 0) {
+      const pair = `${words[index - 1]} ${word}`
+      counts.set(pair, (counts.get(pair) ?? 0) + BIGRAM_WEIGHT)
+    }
+  })
+
+  const vector = new Float32Array(DIMENSIONS)
+  for (const [feature, count] of counts) {
+    const h = hash(feature)
+    // The top bit picks the sign so colliding features tend to cancel out
+    const sign = h & 0x80000000 ? -1 : 1
+    vector[h % DIMENSIONS] += sign * (1 + Math.log(count))
+  }
+  return normalize(vector)
+}
+
+export const hashedProvider: EmbeddingProvider = {
+  id: `hashed-v1-${DIMENSIONS}`,
+  dimensions: DIMENSIONS,
+  weighByIdf: true,
+  embed: async (texts) => texts.map(embedText)
+}
@@ -0,0 +1,397 @@
+/**
+ * Message embeddings and similarity search
+ *   EMBEDDING_PROVIDER=hashed|none (default: hashed)
+ *
+ * Messages are indexed in the background after capture, plus a catch-up pass
+ * at startup for anything captured while no indexer was running (imports,
+ * another process). Similarity is a brute-force cosine scan over the stored
+ * vectors, which stays fast for the tens of thousands of messages a tracker
+ * holds without needing a vector database.
+ */
+
+import { getMessage, getStorage, storageEvents } from '../db/index.js'
+import { parseSearchQuery } from '../search/query.js'
+import { AppError, NotFoundError, formatErrorMessage } from '../utils/errors.js'
+import { hashedProvider } from './hashed.js'
+import { cosineSimilarity, weightedCosineSimilarity } from './vector.js'
+import type {
+  Message,
+  MessageSearchOptions,
+  SearchResult,
+  SimilarMessage,
+  SimilarSearchOptions,
+  Viewer
+} from '../types/index.js'
+
+export interface EmbeddingProvider {
+  /** Stored with each vector; change it whenever output changes so messages are re-indexed */
+  id: string
+  dimensions: number
+  /** Dimensions are hashed term frequencies, so similarity weights them by IDF */
+  weighByIdf?: boolean
+  embed(texts: string[]): Promise<Float32Array[]>
+}
+
+const PROVIDERS: Record<string, EmbeddingProvider> = {
+  hashed: hashedProvider
+}
+
+const INDEX_BATCH_SIZE = 50
+
+// Scores below this are shared stopword-level noise rather than related reasoning
+const MIN_SIMILARITY = 0.05
+
+// How many keyword and vector candidates hybrid search fuses
+const HYBRID_CANDIDATES = 100
+
+// Reciprocal rank fusion constant; larger values flatten the gap between top ranks
+const RRF_K = 60
+
+const SNIPPET_LENGTH = 200
+
+/**
+ * The configured provider, or null when embeddings are disabled
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  const name = process.env.EMBEDDING_PROVIDER || 'hashed'
+  if (name === 'none') return null
+  const provider = PROVIDERS[name]
+  if (!provider) {
+    const supported = [...Object.keys(PROVIDERS), 'none'].join(', ')
+    throw new Error(`Unknown EMBEDDING_PROVIDER '${name}'. Must be: ${supported}`)
+  }
+  return provider
+}
+
+function requireProvider(): EmbeddingProvider {
+  const provider = getEmbeddingProvider()
+  if (!provider) {
+    throw new AppError('Similarity search is disabled (EMBEDDING_PROVIDER=none)', 503, 'DISABLED')
+  }
+  return provider
+}
+
+function messageText(message: Message): string {
+  return [message.content, message.thinking_content].filter(Boolean).join('\n\n')
+}
+
+/**
+ * Embeds and stores a batch of messages, returning their vectors in order
+ */
+async function indexMessages(
+  provider: EmbeddingProvider,
+  messages: Message[]
+): Promise<Float32Array[]> {
+  const storage = await getStorage()
+  const vectors = await provider.embed(messages.map(messageText))
+  for (const [index, message] of messages.entries()) {
+    await storage.saveEmbedding(provider.id, {
+      message_id: message.id,
+      session_id: message.session_id,
+      vector: vectors[index]
+    })
+  }
+  countIndexed(provider, vectors)
+  return vectors
+}
+
+// =============================================================================
+// Term Weighting
+// =============================================================================
+
+interface DocumentFrequencies {
+  documents: number
+  /** How many stored vectors have a non-zero value in each dimension */
+  counts: Float64Array
+}
+
+const documentFrequencies = new Map<string, Promise<DocumentFrequencies>>()
+
+function countDocument(frequencies: DocumentFrequencies, vector: Float32Array): void {
+  frequencies.documents++
+  vector.forEach((value, index) => {
+    if (value !== 0) frequencies.counts[index]++
+  })
+}
+
+/**
+ * Document frequencies over every stored vector of the provider, counted on
+ * first use and then kept current as messages are indexed. Deleted messages
+ * stay counted until the process restarts, which only softens the weights.
+ */
+function getDocumentFrequencies(provider: EmbeddingProvider): Promise<DocumentFrequencies> {
+  let frequencies = documentFrequencies.get(provider.id)
+  if (!frequencies) {
+    frequencies = (async () => {
+      const storage = await getStorage()
+      const counted = { documents: 0, counts: new Float64Array(provider.dimensions) }
+      for await (const embedding of storage.streamEmbeddings(provider.id)) {
+        countDocument(counted, embedding.vector)
+      }
+      return counted
+    })()
+    documentFrequencies.set(provider.id, frequencies)
+    frequencies.catch(() => documentFrequencies.delete(provider.id))
+  }
+  return frequencies
+}
+
+function countIndexed(provider: EmbeddingProvider, vectors: Float32Array[]): void {
+  const frequencies = documentFrequencies.get(provider.id)
+  if (!frequencies) return
+  frequencies.then(
+    (counted) => vectors.forEach((vector) => countDocument(counted, vector)),
+    () => undefined
+  )
+}
+
+/**
+ * Smoothed inverse document frequency per dimension, as scikit-learn's
+ * TfidfTransformer computes it, or null when the provider is not term based
+ */
+async function idfWeights(provider: EmbeddingProvider): Promise<Float32Array | null> {
+  if (!provider.weighByIdf) return null
+  const { documents, counts } = await getDocumentFrequencies(provider)
+  return Float32Array.from(counts, (count) => Math.log((1 + documents) / (1 + count)) + 1)
+}
+
+// =============================================================================
+// Background Indexer
+// =============================================================================
+
+let pending: Message[] = []
+let draining = false
+
+async function drain(provider: EmbeddingProvider): Promise<void> {
+  try {
+    while (pending.length > 0) {
+      const batch = pending.splice(0, INDEX_BATCH_SIZE)
+      try {
+        await indexMessages(provider, batch)
+      } catch (error) {
+        // e.g. the message was deleted before it was indexed; misses are caught up at startup
+        console.error('Embedding indexing failed:', formatErrorMessage(error))
+      }
+    }
+  } finally {
+    draining = false
+  }
+}
+
+/**
+ * Indexes every message that has no vector from the current provider
+ */
+async function catchUp(provider: EmbeddingProvider): Promise<number> {
+  const storage = await getStorage()
+  let indexed = 0
+  while (true) {
+    const batch = await storage.listUnembeddedMessages(provider.id, INDEX_BATCH_SIZE)
+    if (batch.length === 0) break
+    await indexMessages(provider, batch)
+    indexed += batch.length
+  }
+  return indexed
+}
+
+/**
+ * Subscribes to captured messages and indexes them off the request path.
+ * Returns a function that stops listening; a no-op when embeddings are disabled.
+ */
+export function startEmbeddingIndexer(): () => void {
+  const provider = getEmbeddingProvider()
+  if (!provider) return () => undefined
+
+  const onCaptured = (message: Message) => {
+    pending.push(message)
+    if (draining) return
+    draining = true
+    setImmediate(() => void drain(provider))
+  }
+  storageEvents.on('message-captured', onCaptured)
+
+  catchUp(provider)
+    .then((indexed) => {
+      if (indexed > 0) console.error(`Indexed ${indexed} message(s) for similarity search`)
+    })
+    .catch((error) => console.error('Embedding catch-up failed:', formatErrorMessage(error)))
+
+  return () => {
+    storageEvents.off('message-captured', onCaptured)
+    pending = []
+  }
+}
+
+// =============================================================================
+// Similarity Search
+// =============================================================================
+
+interface Neighbor {
+  message_id: string
+  similarity: number
+}
+
+/**
+ * Scans stored vectors for the closest matches, keeping a sorted top list
+ */
+async function nearest(
+  provider: EmbeddingProvider,
+  vector: Float32Array,
+  options: { sessionId?: string; excludeId?: string; limit: number; viewer?: Viewer }
+): Promise<Neighbor[]> {
+  const storage = await getStorage()
+  const weights = await idfWeights(provider)
+  const top: Neighbor[] = []
+  const embeddings = storage.streamEmbeddings(provider.id, options.sessionId, options.viewer)
+
+  for await (const embedding of embeddings) {
+    if (embedding.message_id === options.excludeId) continue
+    const similarity = weights
+      ? weightedCosineSimilarity(vector, embedding.vector, weights)
+      : cosineSimilarity(vector, embedding.vector)
+    if (similarity < MIN_SIMILARITY) continue
+    if (top.length === options.limit && similarity <= top[top.length - 1].similarity) continue
+
+    const index = top.findIndex((neighbor) => similarity > neighbor.similarity)
+    const neighbor = { message_id: embedding.message_id, similarity }
+    top.splice(index === -1 ? top.length : index, 0, neighbor)
+    if (top.length > options.limit) top.pop()
+  }
+  return top
+}
+
+function snippet(text: string | null | undefined): string {
+  return (text ?? '').slice(0, SNIPPET_LENGTH)
+}
+
+async function toSimilarMessages(neighbors: Neighbor[]): Promise<SimilarMessage[]> {
+  const storage = await getStorage()
+  const sessionNames = new Map<string, string>()
+  const results: SimilarMessage[] = []
+
+  for (const { message_id, similarity } of neighbors) {
+    const message = await storage.getMessage(message_id)
+    if (!message) continue
+    if (!sessionNames.has(message.session_id)) {
+      const session = await storage.getSession(message.session_id)
+      sessionNames.set(message.session_id, session?.name ?? '')
+    }
+    results.push({
+      id: message.id,
+      session_id: message.session_id,
+      session_name: sessionNames.get(message.session_id)!,
+      role: message.role,
+      content_snippet: snippet(message.content),
+      thinking_snippet: message.thinking_content ? snippet(message.thinking_content) : undefined,
+      created_at: message.created_at,
+      similarity: Math.round(similarity * 1000) / 1000
+    })
+  }
+  return results
+}
+
+/**
+ * Messages whose content and thinking are closest to the given message.
+ * A message captured moments ago is indexed on demand.
+ */
+export async function findSimilarMessages(
+  messageId: string,
+  options: SimilarSearchOptions = {}
+): Promise<SimilarMessage[]> {
+  const provider = requireProvider()
+  const storage = await getStorage()
+
+  const message = await getMessage(messageId, options.viewer)
+  if (!message) throw new NotFoundError('Message', messageId)
+
+  const vector =
+    (await storage.getEmbedding(message.id, provider.id)) ??
+    (await indexMessages(provider, [message]))[0]
+
+  const neighbors = await nearest(provider, vector, {
+    sessionId: options.sessionId,
+    excludeId: message.id,
+    limit: options.limit ?? 10,
+    viewer: options.viewer
+  })
+  return toSimilarMessages(neighbors)
+}
+
+/**
+ * Messages closest to free text, such as a description of a problem
+ */
+export async function findSimilarToText(
+  text: string,
+  options: SimilarSearchOptions = {}
+): Promise<SimilarMessage[]> {
+  const provider = requireProvider()
+  const [vector] = await provider.embed([text])
+  const neighbors = await nearest(provider, vector, {
+    sessionId: options.sessionId,
+    limit: options.limit ?? 10,
+    viewer: options.viewer
+  })
+  return toSimilarMessages(neighbors)
+}
+
+// =============================================================================
+// Hybrid Search
+// =============================================================================
+
+/**
+ * Keyword search fused with vector similarity by reciprocal rank fusion, so
+ * messages that discuss the query in other words still surface. Vector
+ * candidates must pass the query's filters and exclusions; results are
+ * drawn from the top candidates of each list, and `rank` is the fused score.
+ */
+export async function hybridSearchMessages(
+  query: string,
+  options: MessageSearchOptions = {}
+): Promise<{ results: SearchResult[]; total: number }> {
+  const provider = requireProvider()
+  const storage = await getStorage()
+  const parsed = parseSearchQuery(query)
+  const { limit = 50, offset = 0 } = options
+  const candidates = { ...options, limit: HYBRID_CANDIDATES, offset: 0 }
+
+  const keyword = await storage.searchMessages(parsed, candidates)
+
+  const text = parsed.include.flat().map((term) => term.text).join(' ')
+  let vectorResults: SearchResult[] = []
+  const neighbors = text
+    ? await nearest(provider, (await provider.embed([text]))[0], {
+        sessionId: options.sessionId,
+        limit: HYBRID_CANDIDATES,
+        viewer: options.viewer
+      })
+    : []
+
+  if (neighbors.length > 0) {
+    const similarity = new Map(neighbors.map((n) => [n.message_id, n.similarity]))
+
+    // Re-check the candidates against everything except the search terms themselves
+    const filtered = await storage.searchMessages(
+      { ...parsed, include: [] },
+      { ...candidates, ids: [...similarity.keys()] }
+    )
+    vectorResults = filtered.results.sort(
+      (a, b) => similarity.get(b.id)! - similarity.get(a.id)!
+    )
+  }
+
+  const fused = new Map<string, SearchResult>()
+  for (const list of [keyword.results, vectorResults]) {
+    list.forEach((result, index) => {
+      const score = 1 / (RRF_K + index + 1)
+      const existing = fused.get(result.id)
+      // Keep the keyword result's highlighted snippets when a message is in both lists
+      if (existing) existing.rank += score
+      else fused.set(result.id, { ...result, rank: score })
+    })
+  }
+
+  const ranked = [...fused.values()].sort((a, b) => b.rank - a.rank)
+  return {
+    results: ranked.slice(offset, offset + limit),
+    total: Math.max(keyword.total, ranked.length)
+  }
+}
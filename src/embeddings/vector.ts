@@ -0,0 +1,65 @@
+/**
+ * Vector helpers shared by the embedding providers and storage backends.
+ * Vectors are stored as little-endian float32 bytes.
+ */
+
+export function vectorToBytes(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength)
+}
+
+export function bytesToVector(bytes: Uint8Array): Float32Array {
+  // Copy so the vector is aligned and does not share the driver's buffer
+  const copy = new Uint8Array(bytes)
+  return new Float32Array(copy.buffer, 0, copy.byteLength / Float32Array.BYTES_PER_ELEMENT)
+}
+
+/**
+ * Cosine similarity; 0 when either vector is all zeros or the lengths differ
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * Cosine similarity after scaling each dimension of both vectors by its
+ * weight; 0 when either weighted vector is all zeros or the lengths differ
+ */
+export function weightedCosineSimilarity(
+  a: Float32Array,
+  b: Float32Array,
+  weights: Float32Array
+): number {
+  if (a.length !== b.length || a.length !== weights.length) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    const weight = weights[i] * weights[i]
+    dot += a[i] * b[i] * weight
+    normA += a[i] * a[i] * weight
+    normB += b[i] * b[i] * weight
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * Scales a vector to unit length in place
+ */
+export function normalize(vector: Float32Array): Float32Array {
+  let norm = 0
+  for (const value of vector) norm += value * value
+  norm = Math.sqrt(norm)
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm
+  }
+  return vector
+}
@@ -0,0 +1,18 @@
+/**
+ * Formatting helpers shared by the export renderers
+ */
+
+import type { Message } from '../types/index.js'
+
+export function formatTimestamp(value: Date | string | undefined): string {
+  if (!value) return ''
+  return new Date(value).toISOString()
+}
+
+export function formatTokens(message: Message): string {
+  return [
+    `input ${message.input_tokens ?? 0}`,
+    `output ${message.output_tokens ?? 0}`,
+    `thinking ${message.thinking_tokens ?? 0} tokens`
+  ].join(' · ')
+}
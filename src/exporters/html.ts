@@ -0,0 +1,103 @@
+/**
+ * Self-contained HTML session export (inline styles, no scripts or external assets)
+ */
+
+import type { Message, Session, ToolCall } from '../types/index.js'
+import { formatTimestamp, formatTokens } from './format.js'
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    max-width: 960px; margin: 0 auto; padding: 24px; line-height: 1.6; color: #1a1a1a; }
+  header { border-bottom: 1px solid #ddd; margin-bottom: 24px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; }
+  dt { font-weight: 600; }
+  .message { border: 1px solid #ddd; border-radius: 6px; padding: 12px 16px; margin-bottom: 16px; }
+  .message.user { border-left: 4px solid #4a9eff; }
+  .message.assistant { border-left: 4px solid #9b59b6; }
+  .message.system { border-left: 4px solid #999; }
+  .meta { color: #666; font-size: 0.85rem; }
+  .content { white-space: pre-wrap; }
+  details { background: #f6f6f6; border-radius: 4px; padding: 8px 12px; margin: 8px 0; }
+  summary { cursor: pointer; font-weight: 500; }
+  pre { white-space: pre-wrap; word-break: break-word; background: #fff; padding: 8px; border-radius: 4px; }
+  .error { color: #c0392b; }
+`
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function renderToolCall(call: ToolCall): string {
+  const duration = call.duration_ms !== undefined ? ` (${call.duration_ms} ms)` : ''
+  const error = call.error ? ' <span class="error">error</span>' : ''
+  return [
+    `<details class="tool-call"><summary>Tool: <code>${escapeHtml(call.name)}</code>${duration}${error}</summary>`,
+    `<h4>Input</h4><pre>${escapeHtml(JSON.stringify(call.input, null, 2))}</pre>`,
+    call.output ? `<h4>Output</h4><pre>${escapeHtml(call.output)}</pre>` : '',
+    call.error ? `<h4>Error</h4><pre class="error">${escapeHtml(call.error)}</pre>` : '',
+    '</details>'
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+export function renderHtmlHeader(session: Session): string {
+  const rows = [
+    ['Session ID', `<code>${escapeHtml(session.id)}</code>`],
+    session.project_path ? ['Project', `<code>${escapeHtml(session.project_path)}</code>`] : null,
+    ['Started', formatTimestamp(session.started_at)],
+    session.ended_at ? ['Ended', formatTimestamp(session.ended_at)] : null
+  ].filter((row): row is string[] => row !== null)
+
+  const metadata =
+    session.metadata && Object.keys(session.metadata).length > 0
+      ? `<details><summary>Metadata</summary><pre>${escapeHtml(
+          JSON.stringify(session.metadata, null, 2)
+        )}</pre></details>`
+      : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(session.name)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(session.name)}</h1>
+<dl>${rows.map(([label, value]) => `<dt>${label}</dt><dd>${value}</dd>`).join('')}</dl>
+${metadata}
+</header>
+<main>
+`
+}
+
+export function renderHtmlMessage(message: Message, index: number): string {
+  const model = message.model ? ` · ${escapeHtml(message.model)}` : ''
+  return [
+    `<section class="message ${escapeHtml(message.role)}" id="message-${escapeHtml(message.id)}">`,
+    `<h2>${index + 1}. ${escapeHtml(message.role)}${model}</h2>`,
+    `<div class="meta">${formatTimestamp(message.created_at)} · ${formatTokens(message)}</div>`,
+    message.thinking_content
+      ? `<details class="thinking"><summary>Thinking</summary><div class="content">${escapeHtml(
+          message.thinking_content
+        )}</div></details>`
+      : '',
+    message.content ? `<div class="content">${escapeHtml(message.content)}</div>` : '',
+    ...(message.tool_calls ?? []).map(renderToolCall),
+    '</section>\n'
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+export function renderHtmlFooter(): string {
+  return '</main>\n</body>\n</html>\n'
+}
@@ -0,0 +1,64 @@
+/**
+ * Session exporters
+ * Render a session as Markdown, JSON or HTML, one chunk per message
+ */
+
+import { streamSessionMessages } from '../db/index.js'
+import { renderMarkdownHeader, renderMarkdownMessage } from './markdown.js'
+import { renderHtmlHeader, renderHtmlMessage, renderHtmlFooter } from './html.js'
+import type { ExportFormat } from '../utils/constants.js'
+import type { Session } from '../types/index.js'
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8'
+}
+
+/**
+ * Yields the rendered export in chunks as messages are read from the database
+ */
+export async function* exportSession(
+  session: Session,
+  format: ExportFormat
+): AsyncGenerator<string> {
+  const messages = streamSessionMessages(session.id)
+  let index = 0
+
+  if (format === 'json') {
+    yield `{"session":${JSON.stringify(session)},"messages":[`
+    for await (const message of messages) {
+      yield `${index++ > 0 ? ',' : ''}\n${JSON.stringify(message)}`
+    }
+    yield '\n]}\n'
+    return
+  }
+
+  if (format === 'html') {
+    yield renderHtmlHeader(session)
+    for await (const message of messages) {
+      yield renderHtmlMessage(message, index++)
+    }
+    yield renderHtmlFooter()
+    return
+  }
+
+  yield renderMarkdownHeader(session)
+  for await (const message of messages) {
+    yield renderMarkdownMessage(message, index++)
+  }
+}
+
+/**
+ * Collects a full export into a single string
+ */
+export async function exportSessionToString(
+  session: Session,
+  format: ExportFormat
+): Promise<string> {
+  const chunks: string[] = []
+  for await (const chunk of exportSession(session, format)) {
+    chunks.push(chunk)
+  }
+  return chunks.join('')
+}
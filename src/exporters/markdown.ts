@@ -0,0 +1,67 @@
+/**
+ * Markdown session export
+ * Thinking and tool calls render as <details> blocks, which GitHub and most
+ * doc tools display collapsed
+ */
+
+import type { Message, Session, ToolCall } from '../types/index.js'
+import { formatTimestamp, formatTokens } from './format.js'
+
+/**
+ * Wraps text in a code fence longer than any backtick run inside it
+ */
+function fence(text: string, language: string = ''): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const marker = '`'.repeat(longestRun + 1)
+  return `${marker}${language}\n${text}\n${marker}`
+}
+
+function renderToolCall(call: ToolCall): string {
+  const parts = [
+    `<details>\n<summary>Tool: <code>${call.name}</code>${
+      call.duration_ms !== undefined ? ` (${call.duration_ms} ms)` : ''
+    }${call.error ? ' — error' : ''}</summary>\n`,
+    '**Input**\n',
+    fence(JSON.stringify(call.input, null, 2), 'json')
+  ]
+  if (call.output) parts.push('\n**Output**\n', fence(call.output))
+  if (call.error) parts.push('\n**Error**\n', fence(call.error))
+  parts.push('\n</details>')
+  return parts.join('\n')
+}
+
+export function renderMarkdownHeader(session: Session): string {
+  const lines = [`# ${session.name}`, '']
+  lines.push(`- **Session ID:** \`${session.id}\``)
+  if (session.project_path) lines.push(`- **Project:** \`${session.project_path}\``)
+  lines.push(`- **Started:** ${formatTimestamp(session.started_at)}`)
+  if (session.ended_at) lines.push(`- **Ended:** ${formatTimestamp(session.ended_at)}`)
+  if (session.metadata && Object.keys(session.metadata).length > 0) {
+    lines.push(
+      '',
+      '<details>\n<summary>Metadata</summary>\n',
+      fence(JSON.stringify(session.metadata, null, 2), 'json'),
+      '\n</details>'
+    )
+  }
+  return lines.join('\n') + '\n\n'
+}
+
+/**
+ * Renders one message; the heading is numbered when the message's position is given
+ */
+export function renderMarkdownMessage(message: Message, index?: number): string {
+  const position = index === undefined ? '' : `${index + 1}. `
+  const heading = `## ${position}${message.role}${message.model ? ` (${message.model})` : ''}`
+  const parts = [heading, '', `_${formatTimestamp(message.created_at)} · ${formatTokens(message)}_`, '']
+
+  if (message.thinking_content) {
+    parts.push('<details>\n<summary>Thinking</summary>\n', message.thinking_content, '\n</details>\n')
+  }
+  if (message.content) parts.push(message.content, '')
+  for (const call of message.tool_calls ?? []) {
+    parts.push(renderToolCall(call), '')
+  }
+
+  return parts.join('\n') + '\n'
+}
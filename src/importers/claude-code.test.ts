@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+import { claudeCodeImporter } from './claude-code.js'
+
+const dir = mkdtempSync(join(tmpdir(), 'think-tracker-claude-code-'))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+function transcript(name: string, entries: object[]): string {
+  const file = join(dir, `${name}.jsonl`)
+  writeFileSync(file, entries.map((entry) => JSON.stringify(entry)).join('\n') + '\nnot json\n')
+  return file
+}
+
+const at = (seconds: number) => new Date(Date.UTC(2020, 2, 1, 10, 0, seconds)).toISOString()
+
+describe('claudeCodeImporter', () => {
+  const file = transcript('a1b2c3d4-session', [
+    { type: 'summary', summary: 'Fix the failing build' },
+    {
+      type: 'user',
+      uuid: 'u1',
+      parentUuid: null,
+      timestamp: at(0),
+      cwd: '/repo',
+      gitBranch: 'main',
+      version: '1.0.0',
+      message: { role: 'user', content: 'The build fails' }
+    },
+    {
+      type: 'assistant',
+      uuid: 'a1',
+      parentUuid: 'u1',
+      timestamp: at(1),
+      message: {
+        id: 'msg-1',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [
+          { type: 'thinking', thinking: 'Check the files first', signature: 'sig' },
+          { type: 'text', text: 'Let me look' }
+        ]
+      }
+    },
+    {
+      type: 'assistant',
+      uuid: 'a2',
+      parentUuid: 'a1',
+      timestamp: at(1),
+      message: {
+        id: 'msg-1',
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'ls' } }],
+        usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 50 }
+      }
+    },
+    {
+      type: 'user',
+      uuid: 'u2',
+      parentUuid: 'a2',
+      timestamp: at(3),
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'package.json' }]
+      }
+    },
+    {
+      type: 'assistant',
+      uuid: 's1',
+      parentUuid: 'u2',
+      isSidechain: true,
+      timestamp: at(4),
+      message: { id: 'msg-sub', role: 'assistant', content: 'Subagent work' }
+    },
+    {
+      type: 'assistant',
+      uuid: 'a3',
+      parentUuid: 'u2',
+      timestamp: at(5),
+      message: { id: 'msg-2', role: 'assistant', content: [{ type: 'text', text: 'Fixed' }] }
+    },
+    // The user edited their next prompt, leaving the first version behind
+    {
+      type: 'user',
+      uuid: 'u3',
+      parentUuid: 'a3',
+      timestamp: at(6),
+      message: { role: 'user', content: 'Now run the test' }
+    },
+    {
+      type: 'user',
+      uuid: 'u4',
+      parentUuid: 'a3',
+      timestamp: at(7),
+      message: { role: 'user', content: 'Now run the tests' }
+    },
+    {
+      type: 'assistant',
+      uuid: 'a4',
+      parentUuid: 'u4',
+      timestamp: at(8),
+      message: { id: 'msg-3', role: 'assistant', content: [{ type: 'text', text: 'All pass' }] }
+    }
+  ])
+
+  it('reads the session details', async () => {
+    const parsed = await claudeCodeImporter.parse(file)
+    assert.equal(parsed?.externalId, 'a1b2c3d4-session')
+    assert.equal(parsed?.name, 'Fix the failing build')
+    assert.equal(parsed?.projectPath, '/repo')
+    assert.deepEqual(parsed?.metadata, { git_branch: 'main', client_version: '1.0.0' })
+    // Transcripts of any age are imported with their own times
+    assert.equal(parsed?.startedAt?.toISOString(), at(0))
+    assert.equal(parsed?.endedAt?.toISOString(), at(8))
+  })
+
+  it('merges split assistant lines and folds tool results into their calls', async () => {
+    const parsed = await claudeCodeImporter.parse(file)
+    const [, answer] = parsed?.messages ?? []
+    assert.equal(answer.content, 'Let me look')
+    assert.equal(answer.model, 'claude-sonnet-4-5')
+    assert.deepEqual(answer.thinking_blocks, [
+      { type: 'thinking', content: 'Check the files first', signature: 'sig' }
+    ])
+    assert.deepEqual(answer.tool_calls, [
+      {
+        id: 'tool-1',
+        name: 'Bash',
+        input: { command: 'ls' },
+        output: 'package.json',
+        duration_ms: 2000
+      }
+    ])
+    assert.equal(answer.input_tokens, 100)
+    assert.equal(answer.cache_read_input_tokens, 50)
+  })
+
+  it('links messages to their parents and labels abandoned forks', async () => {
+    const parsed = await claudeCodeImporter.parse(file)
+    assert.deepEqual(
+      parsed?.messages.map((message) => [
+        message.role,
+        message.content,
+        message.parent,
+        message.branch_id
+      ]),
+      [
+        ['user', 'The build fails', undefined, undefined],
+        ['assistant', 'Let me look', 0, undefined],
+        ['assistant', 'Fixed', 1, undefined],
+        ['user', 'Now run the test', 2, 'u3'],
+        ['user', 'Now run the tests', 2, undefined],
+        ['assistant', 'All pass', 4, undefined]
+      ]
+    )
+  })
+
+  it('skips transcripts without messages', async () => {
+    const empty = transcript('empty', [{ type: 'summary', summary: 'Nothing' }])
+    assert.equal(await claudeCodeImporter.parse(empty), null)
+  })
+})
@@ -0,0 +1,268 @@
+/**
+ * Claude Code transcript importer
+ * Parses ~/.claude/projects/<project>/<session>.jsonl files
+ */
+
+import { createReadStream } from 'fs'
+import { createInterface } from 'readline'
+import { homedir } from 'os'
+import { basename, join } from 'path'
+import type { Importer, ParsedMessage, ParsedTranscript } from './index.js'
+import type { ThinkingBlockInput, ToolCall } from '../types/index.js'
+import { parseTimestamp } from '../utils/validation.js'
+
+const SESSION_NAME_LENGTH = 80
+
+type ContentBlock = {
+  type: string
+  text?: string
+  thinking?: string
+  signature?: string
+  data?: string
+  id?: string
+  name?: string
+  input?: Record<string, unknown>
+  tool_use_id?: string
+  content?: string | ContentBlock[]
+  is_error?: boolean
+}
+
+interface TranscriptEntry {
+  type: string
+  uuid?: string
+  parentUuid?: string | null
+  sessionId?: string
+  timestamp?: string
+  cwd?: string
+  gitBranch?: string
+  version?: string
+  isMeta?: boolean
+  isSidechain?: boolean
+  summary?: string
+  content?: string
+  message?: {
+    id?: string
+    role?: string
+    model?: string
+    content?: string | ContentBlock[]
+    usage?: {
+      input_tokens?: number
+      output_tokens?: number
+      cache_creation_input_tokens?: number
+      cache_read_input_tokens?: number
+    }
+  }
+}
+
+type PendingMessage = ParsedMessage & {
+  thinking_blocks: ThinkingBlockInput[]
+  tool_calls: ToolCall[]
+}
+
+/**
+ * Flattens text blocks, including those nested inside tool results
+ */
+function blocksToText(content: string | ContentBlock[] | undefined): string {
+  if (!content) return ''
+  if (typeof content === 'string') return content
+  return content
+    .map((block) => (block.type === 'text' ? block.text ?? '' : ''))
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+/**
+ * Labels the messages off the path to the last one, which are edits and
+ * retries the conversation moved on from. Each abandoned fork is named after
+ * the entry that started it, and the main line keeps no label.
+ */
+function labelBranches(messages: PendingMessage[], entryIds: (string | undefined)[]): void {
+  const parentOf = (index: number) => {
+    const parent = messages[index].parent
+    return parent === undefined ? index - 1 : parent ?? -1
+  }
+
+  const main = new Set<number>()
+  for (let index = messages.length - 1; index >= 0; index = parentOf(index)) main.add(index)
+
+  messages.forEach((message, index) => {
+    if (main.has(index)) return
+    const parent = parentOf(index)
+    message.branch_id =
+      parent >= 0 && !main.has(parent)
+        ? messages[parent].branch_id
+        : entryIds[index] ?? `fork-${index}`
+  })
+}
+
+/**
+ * Builds messages from transcript entries. Claude Code writes one line per
+ * content block, so consecutive assistant lines sharing an API message id are
+ * merged, and tool_result blocks are folded into the tool call that produced them.
+ * Entries link to their parent entry, which gives each message its parent;
+ * entries that are not imported pass their parent on to their children.
+ */
+async function parseTranscript(file: string): Promise<ParsedTranscript | null> {
+  const messages: PendingMessage[] = []
+  const entryIds: (string | undefined)[] = []
+  const indexByUuid = new Map<string, number>()
+  const toolCalls = new Map<string, { call: ToolCall; startedAt?: Date }>()
+  let current: { apiId?: string; index: number } | null = null
+  let summary: string | undefined
+  let firstPrompt: string | undefined
+  let first: TranscriptEntry | undefined
+  let startedAt: Date | undefined
+  let endedAt: Date | undefined
+
+  const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity })
+  for await (const line of lines) {
+    if (!line.trim()) continue
+
+    let entry: TranscriptEntry
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      continue
+    }
+
+    const parent = entry.parentUuid ? indexByUuid.get(entry.parentUuid) : undefined
+    if (entry.uuid && parent !== undefined) indexByUuid.set(entry.uuid, parent)
+    const addMessage = (message: PendingMessage) => {
+      messages.push({ ...message, parent })
+      entryIds.push(entry.uuid)
+      if (entry.uuid) indexByUuid.set(entry.uuid, messages.length - 1)
+      return messages.length - 1
+    }
+
+    if (entry.type === 'summary') {
+      summary = summary ?? entry.summary
+      continue
+    }
+    // Sidechain (subagent) entries interleave with the main thread and are not imported
+    if (entry.isMeta || entry.isSidechain) continue
+    if (!['user', 'assistant', 'system'].includes(entry.type)) continue
+
+    const timestamp = parseTimestamp(entry.timestamp, 'timestamp', { bounded: false })
+    first = first ?? entry
+    if (timestamp) {
+      startedAt = startedAt ?? timestamp
+      endedAt = timestamp
+    }
+
+    if (entry.type === 'system') {
+      if (!entry.content) continue
+      current = null
+      addMessage({
+        role: 'system',
+        content: entry.content,
+        thinking_blocks: [],
+        tool_calls: [],
+        created_at: timestamp
+      })
+      continue
+    }
+
+    const body = entry.message
+    if (!body) continue
+
+    if (entry.type === 'user') {
+      current = null
+      const blocks = typeof body.content === 'string' ? [] : body.content ?? []
+      for (const block of blocks) {
+        if (block.type !== 'tool_result' || !block.tool_use_id) continue
+        const pending = toolCalls.get(block.tool_use_id)
+        if (!pending) continue
+        const output = blocksToText(block.content)
+        if (block.is_error) pending.call.error = output
+        else pending.call.output = output
+        if (pending.startedAt && timestamp) {
+          pending.call.duration_ms = timestamp.getTime() - pending.startedAt.getTime()
+        }
+      }
+
+      const text = blocksToText(body.content)
+      if (!text) continue
+      firstPrompt = firstPrompt ?? text
+      addMessage({
+        role: 'user',
+        content: text,
+        thinking_blocks: [],
+        tool_calls: [],
+        created_at: timestamp
+      })
+      continue
+    }
+
+    // Assistant entry
+    if (!current || !body.id || current.apiId !== body.id) {
+      current = {
+        apiId: body.id,
+        index: addMessage({
+          role: 'assistant',
+          content: '',
+          thinking_blocks: [],
+          tool_calls: [],
+          model: body.model,
+          created_at: timestamp
+        })
+      }
+    } else if (entry.uuid) {
+      indexByUuid.set(entry.uuid, current.index)
+    }
+
+    const message = messages[current.index]
+    const blocks: ContentBlock[] =
+      typeof body.content === 'string' ? [{ type: 'text', text: body.content }] : body.content ?? []
+    for (const block of blocks) {
+      if (block.type === 'text' && block.text) {
+        message.content = message.content ? `${message.content}\n\n${block.text}` : block.text
+      } else if (block.type === 'thinking' && block.thinking) {
+        message.thinking_blocks.push({
+          type: 'thinking',
+          content: block.thinking,
+          signature: block.signature
+        })
+      } else if (block.type === 'redacted_thinking' && block.data) {
+        message.thinking_blocks.push({ type: 'redacted', data: block.data })
+      } else if (block.type === 'tool_use' && block.id && block.name) {
+        const call: ToolCall = { id: block.id, name: block.name, input: block.input ?? {} }
+        message.tool_calls.push(call)
+        toolCalls.set(block.id, { call, startedAt: timestamp })
+      }
+    }
+
+    // Split lines repeat the same usage object, so the latest one wins
+    if (body.usage) {
+      message.input_tokens = body.usage.input_tokens ?? 0
+      message.output_tokens = body.usage.output_tokens ?? 0
+      message.cache_creation_input_tokens = body.usage.cache_creation_input_tokens ?? 0
+      message.cache_read_input_tokens = body.usage.cache_read_input_tokens ?? 0
+    }
+  }
+
+  if (!first || messages.length === 0) return null
+  labelBranches(messages, entryIds)
+
+  const externalId = basename(file, '.jsonl')
+  const title = (summary || firstPrompt || '').replace(/\s+/g, ' ').trim()
+
+  return {
+    externalId,
+    name: title ? title.slice(0, SESSION_NAME_LENGTH) : `Claude Code session ${externalId.slice(0, 8)}`,
+    projectPath: first.cwd,
+    startedAt,
+    endedAt,
+    metadata: {
+      git_branch: first.gitBranch,
+      client_version: first.version
+    },
+    messages
+  }
+}
+
+export const claudeCodeImporter: Importer = {
+  source: 'claude-code',
+  fileExtension: '.jsonl',
+  defaultPath: () => join(homedir(), '.claude', 'projects'),
+  parse: parseTranscript
+}
@@ -0,0 +1,240 @@
+/**
+ * Gemini CLI session importer
+ * Parses saved chats (~/.gemini/tmp/<project>/checkpoint-<tag>.json) and
+ * recorded sessions (~/.gemini/tmp/<project>/chats/session-*.json)
+ */
+
+import { readFile, stat } from 'fs/promises'
+import { homedir } from 'os'
+import { basename, dirname, join } from 'path'
+import type { Importer, ParsedMessage, ParsedTranscript } from './index.js'
+import type { ToolCall } from '../types/index.js'
+import { parseTimestamp } from '../utils/validation.js'
+
+const SESSION_NAME_LENGTH = 80
+
+interface Part {
+  text?: string
+  thought?: boolean
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> }
+  functionResponse?: { id?: string; name: string; response?: Record<string, unknown> }
+}
+
+interface Content {
+  role: 'user' | 'model'
+  parts?: Part[]
+}
+
+interface RecordedToolCall {
+  id: string
+  name: string
+  args?: Record<string, unknown>
+  result?: unknown
+  resultDisplay?: unknown
+  status?: string
+}
+
+interface RecordedMessage {
+  id?: string
+  timestamp?: string
+  type: string
+  content?: string | Part[]
+  model?: string
+  thoughts?: { subject?: string; description?: string }[]
+  tokens?: { input?: number; output?: number; cached?: number; thoughts?: number }
+  toolCalls?: RecordedToolCall[]
+}
+
+interface ConversationRecord {
+  sessionId: string
+  projectHash?: string
+  startTime?: string
+  lastUpdated?: string
+  messages: RecordedMessage[]
+}
+
+function stringify(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function partsToText(content: string | Part[] | undefined): string {
+  if (!content) return ''
+  if (typeof content === 'string') return content
+  return content
+    .filter((part) => part.text && !part.thought)
+    .map((part) => part.text)
+    .join('')
+}
+
+function isCheckpoint(data: unknown): data is Content[] {
+  return (
+    Array.isArray(data) &&
+    data.length > 0 &&
+    data.every((item) => item && (item.role === 'user' || item.role === 'model') && Array.isArray(item.parts))
+  )
+}
+
+function isConversationRecord(data: unknown): data is ConversationRecord {
+  const record = data as ConversationRecord
+  return (
+    !!record &&
+    typeof record === 'object' &&
+    typeof record.sessionId === 'string' &&
+    Array.isArray(record.messages)
+  )
+}
+
+/**
+ * Converts a `/chat save` checkpoint (raw Gemini API history) into messages.
+ * functionResponse parts arrive in the following user turn and are folded
+ * into the matching functionCall.
+ */
+function parseCheckpoint(history: Content[]): ParsedMessage[] {
+  const messages: ParsedMessage[] = []
+  const pending: ToolCall[] = []
+
+  history.forEach((content, index) => {
+    const parts = content.parts ?? []
+
+    if (content.role === 'user') {
+      for (const part of parts) {
+        if (!part.functionResponse) continue
+        const { id, name, response } = part.functionResponse
+        const call = pending.find((c) => (id ? c.id === id : c.name === name && c.output === undefined))
+        if (!call) continue
+        if (response && 'error' in response) call.error = stringify(response.error)
+        else call.output = stringify(response?.output ?? response ?? '')
+        pending.splice(pending.indexOf(call), 1)
+      }
+
+      const text = partsToText(parts)
+      if (text) messages.push({ role: 'user', content: text })
+      return
+    }
+
+    const toolCalls: ToolCall[] = parts
+      .filter((part) => part.functionCall)
+      .map((part, callIndex) => ({
+        id: part.functionCall!.id ?? `${index}-${callIndex}`,
+        name: part.functionCall!.name,
+        input: part.functionCall!.args ?? {}
+      }))
+    pending.push(...toolCalls)
+
+    messages.push({
+      role: 'assistant',
+      content: partsToText(parts),
+      thoughts: parts.filter((part) => part.thought && part.text).map((part) => part.text!),
+      tool_calls: toolCalls
+    })
+  })
+
+  return messages
+}
+
+/**
+ * Converts a recorded chat session, which already carries timestamps,
+ * token counts and resolved tool calls, into messages.
+ */
+function parseConversationRecord(record: ConversationRecord): ParsedMessage[] {
+  const messages: ParsedMessage[] = []
+
+  for (const entry of record.messages) {
+    const created_at = parseTimestamp(entry.timestamp, 'timestamp', { bounded: false })
+    const content = partsToText(entry.content)
+
+    if (entry.type === 'user') {
+      if (content) messages.push({ role: 'user', content, created_at })
+      continue
+    }
+
+    if (entry.type === 'gemini') {
+      messages.push({
+        role: 'assistant',
+        content,
+        thoughts: (entry.thoughts ?? [])
+          .map(({ subject, description }) =>
+            subject && description ? `${subject}: ${description}` : subject || description || ''
+          )
+          .filter(Boolean),
+        thoughts_token_count: entry.tokens?.thoughts,
+        input_tokens: entry.tokens?.input,
+        output_tokens: entry.tokens?.output,
+        cache_read_input_tokens: entry.tokens?.cached,
+        model: entry.model,
+        tool_calls: (entry.toolCalls ?? []).map((call) => {
+          const output = stringify(call.resultDisplay ?? call.result ?? '')
+          return {
+            id: call.id,
+            name: call.name,
+            input: call.args ?? {},
+            ...(call.status === 'error' ? { error: output } : { output })
+          }
+        }),
+        created_at
+      })
+      continue
+    }
+
+    // info, warning and error entries are client notices
+    if (content) messages.push({ role: 'system', content, created_at })
+  }
+
+  return messages
+}
+
+async function parseSessionFile(file: string): Promise<ParsedTranscript | null> {
+  let data: unknown
+  try {
+    data = JSON.parse(await readFile(file, 'utf-8'))
+  } catch {
+    return null
+  }
+
+  let externalId: string
+  let messages: ParsedMessage[]
+  let startedAt: Date | undefined
+  let endedAt: Date | undefined
+  const metadata: Record<string, unknown> = {}
+
+  if (isConversationRecord(data)) {
+    externalId = data.sessionId
+    messages = parseConversationRecord(data)
+    startedAt = parseTimestamp(data.startTime, 'startTime', { bounded: false })
+    endedAt = parseTimestamp(data.lastUpdated, 'lastUpdated', { bounded: false })
+    metadata.project_hash = data.projectHash
+  } else if (isCheckpoint(data)) {
+    // Checkpoints carry no ids or timestamps; the tag is unique per project directory
+    const projectHash = basename(dirname(file))
+    externalId = `${projectHash}/${basename(file, '.json')}`
+    messages = parseCheckpoint(data)
+    const info = await stat(file)
+    startedAt = info.birthtimeMs > 0 ? info.birthtime : info.mtime
+    endedAt = info.mtime
+    metadata.project_hash = projectHash
+    metadata.checkpoint_tag = basename(file, '.json').replace(/^checkpoint-/, '')
+  } else {
+    return null
+  }
+
+  if (messages.length === 0) return null
+
+  const firstPrompt = messages.find((message) => message.role === 'user')?.content ?? ''
+  const title = firstPrompt.replace(/\s+/g, ' ').trim()
+
+  return {
+    externalId,
+    name: title ? title.slice(0, SESSION_NAME_LENGTH) : `Gemini CLI session ${basename(file, '.json')}`,
+    startedAt,
+    endedAt,
+    metadata,
+    messages
+  }
+}
+
+export const geminiCliImporter: Importer = {
+  source: 'gemini-cli',
+  fileExtension: '.json',
+  defaultPath: () => join(homedir(), '.gemini', 'tmp'),
+  parse: parseSessionFile
+}
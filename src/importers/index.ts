@@ -0,0 +1,179 @@
+/**
+ * Transcript importers
+ * Walks saved client transcripts and replays them through captureMessage
+ */
+
+import { readdir, stat } from 'fs/promises'
+import { join } from 'path'
+import {
+  createSession,
+  updateSession,
+  findSessionBySource,
+  replaceSessionMessages
+} from '../db/index.js'
+import { ValidationError, formatErrorMessage } from '../utils/errors.js'
+import { claudeCodeImporter } from './claude-code.js'
+import { geminiCliImporter } from './gemini-cli.js'
+import type {
+  ImportOptions,
+  ImportResult,
+  ImportSource,
+  TranscriptMessage,
+  Viewer
+} from '../types/index.js'
+
+/**
+ * Bump when parsing changes so previously imported files are re-imported
+ */
+const IMPORTER_VERSION = 4
+
+/** A transcript message; parent indexes the transcript's messages */
+export type ParsedMessage = TranscriptMessage
+
+export interface ParsedTranscript {
+  externalId: string
+  name: string
+  projectPath?: string
+  startedAt?: Date
+  endedAt?: Date
+  metadata: Record<string, unknown>
+  messages: ParsedMessage[]
+}
+
+export interface Importer {
+  source: ImportSource
+  fileExtension: string
+  defaultPath(): string
+  parse(file: string): Promise<ParsedTranscript | null>
+}
+
+const IMPORTERS: Record<ImportSource, Importer> = {
+  'claude-code': claudeCodeImporter,
+  'gemini-cli': geminiCliImporter
+}
+
+export const IMPORT_SOURCES = Object.keys(IMPORTERS) as ImportSource[]
+
+export function isImportSource(source: string): source is ImportSource {
+  return IMPORT_SOURCES.includes(source as ImportSource)
+}
+
+/**
+ * Recursively collects files with the given extension, sorted for stable ordering
+ */
+async function collectFiles(path: string, extension: string): Promise<string[]> {
+  const info = await stat(path)
+  if (info.isFile()) return [path]
+
+  const files: string[] = []
+  const entries = await readdir(path, { withFileTypes: true })
+  for (const entry of entries) {
+    const fullPath = join(path, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...(await collectFiles(fullPath, extension)))
+    } else if (entry.isFile() && entry.name.endsWith(extension)) {
+      files.push(fullPath)
+    }
+  }
+  return files.sort()
+}
+
+/**
+ * Imports a single transcript. The owner's session with the same source and
+ * external id is rebuilt in place when the file has changed since the last
+ * import, so repeated runs never duplicate sessions or messages. Sessions
+ * belong to `owner`; another user's import of the same file is left alone.
+ */
+async function importFile(
+  importer: Importer,
+  file: string,
+  force: boolean,
+  owner?: Viewer
+): Promise<{ status: 'created' | 'updated' | 'skipped'; messages: number }> {
+  const info = await stat(file)
+  const fingerprint = `${IMPORTER_VERSION}:${info.size}:${Math.floor(info.mtimeMs)}`
+
+  const parsed = await importer.parse(file)
+  if (!parsed || parsed.messages.length === 0) return { status: 'skipped', messages: 0 }
+
+  const existing = await findSessionBySource(importer.source, parsed.externalId, owner)
+  if (existing && existing.metadata?.import_fingerprint === fingerprint && !force) {
+    return { status: 'skipped', messages: 0 }
+  }
+
+  let sessionId = existing?.id
+  if (!sessionId) {
+    const session = await createSession(
+      {
+        name: parsed.name,
+        project_path: parsed.projectPath,
+        metadata: { source: importer.source, external_id: parsed.externalId },
+        started_at: parsed.startedAt
+      },
+      owner
+    )
+    sessionId = session.id
+  }
+  await replaceSessionMessages(sessionId, parsed.messages)
+
+  // The fingerprint is written last so an interrupted import is retried on the next run
+  await updateSession(sessionId, {
+    name: parsed.name,
+    project_path: parsed.projectPath,
+    started_at: parsed.startedAt,
+    ended_at: parsed.endedAt,
+    metadata: {
+      ...parsed.metadata,
+      source: importer.source,
+      external_id: parsed.externalId,
+      transcript_path: file,
+      import_fingerprint: fingerprint,
+      imported_at: new Date().toISOString()
+    }
+  })
+
+  return { status: existing ? 'updated' : 'created', messages: parsed.messages.length }
+}
+
+/**
+ * Imports every transcript found under the given path (or the source's default location)
+ */
+export async function importTranscripts(options: ImportOptions): Promise<ImportResult> {
+  const { source, force = false, owner } = options
+  const importer = IMPORTERS[source]
+  if (!importer) {
+    throw new ValidationError(`Unknown import source. Must be: ${IMPORT_SOURCES.join(', ')}`)
+  }
+
+  const root = options.path || importer.defaultPath()
+  let files: string[]
+  try {
+    files = await collectFiles(root, importer.fileExtension)
+  } catch (error) {
+    throw new ValidationError(`Cannot read import path '${root}': ${formatErrorMessage(error)}`)
+  }
+
+  const result: ImportResult = {
+    source,
+    files_scanned: files.length,
+    sessions_created: 0,
+    sessions_updated: 0,
+    sessions_skipped: 0,
+    messages_imported: 0,
+    errors: []
+  }
+
+  for (const file of files) {
+    try {
+      const { status, messages } = await importFile(importer, file, force, owner)
+      result.messages_imported += messages
+      if (status === 'created') result.sessions_created++
+      else if (status === 'updated') result.sessions_updated++
+      else result.sessions_skipped++
+    } catch (error) {
+      result.errors.push({ file, error: formatErrorMessage(error) })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,140 @@
+/**
+ * MCP over Streamable HTTP
+ * One shared tracker serves many agents: each client session gets its own
+ * transport and server instance, looked up by the Mcp-Session-Id header.
+ * Sessions end on DELETE or after sitting idle for MCP_SESSION_IDLE_MINUTES.
+ * Every request carries an API key, checked against the scope of each
+ * JSON-RPC message it contains. A session sees what the key that initialized
+ * it may see, and only that key can use it.
+ */
+
+import { randomUUID } from 'crypto'
+import { Router, Request, Response } from 'express'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import { ADMIN_TOOLS, CAPTURE_TOOLS, createMcpServer } from './server.js'
+import { requireApiKey } from '../auth/middleware.js'
+import { formatErrorMessage } from '../utils/errors.js'
+import type { ApiKeyScope } from '../types/index.js'
+
+const SESSION_HEADER = 'mcp-session-id'
+
+const IDLE_TIMEOUT_MS = (parseInt(process.env.MCP_SESSION_IDLE_MINUTES || '', 10) || 30) * 60 * 1000
+
+const SWEEP_INTERVAL_MS = 60 * 1000
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport
+  lastSeen: number
+  /** The key that initialized the session; unset when API_AUTH=off */
+  apiKeyId?: string
+}
+
+// Methods under these prefixes expose stored sessions and messages
+const READ_METHOD_PREFIXES = ['resources/', 'prompts/', 'completion/']
+
+function messageScope(message: unknown): ApiKeyScope | null {
+  if (!message || typeof message !== 'object') return null
+  const { method, params } = message as { method?: unknown; params?: { name?: unknown } }
+  if (typeof method !== 'string') return null
+  if (method === 'tools/call') {
+    const name = String(params?.name)
+    if (ADMIN_TOOLS.has(name)) return 'admin'
+    return CAPTURE_TOOLS.has(name) ? 'capture' : 'read'
+  }
+  return READ_METHOD_PREFIXES.some((prefix) => method.startsWith(prefix)) ? 'read' : null
+}
+
+/**
+ * The scopes a request needs: those of every JSON-RPC message in it, read for
+ * the notification stream, and none beyond a valid key for lifecycle messages
+ */
+function mcpScopes(req: Request): ApiKeyScope[] {
+  if (req.method === 'GET') return ['read']
+  const messages: unknown[] = Array.isArray(req.body) ? req.body : [req.body]
+  const scopes = messages.map(messageScope).filter((scope): scope is ApiKeyScope => !!scope)
+  return [...new Set(scopes)]
+}
+
+/**
+ * Responds with a JSON-RPC error, as MCP clients expect from this endpoint
+ */
+function sendRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code: -32000, message }, id: null })
+}
+
+/**
+ * Router serving the MCP endpoint at its mount point: POST for client
+ * messages, GET for the server-to-client stream and DELETE to end a session
+ */
+export function createMcpHttpRouter(): Router {
+  const router = Router()
+  const sessions = new Map<string, McpSession>()
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - IDLE_TIMEOUT_MS
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        sessions.delete(id)
+        session.transport.close().catch(() => undefined)
+      }
+    }
+  }, SWEEP_INTERVAL_MS)
+  sweep.unref()
+
+  /**
+   * The existing session named by the request header, or a new one when the
+   * request is an initialize call without a session id
+   */
+  async function resolveTransport(
+    req: Request,
+    res: Response
+  ): Promise<StreamableHTTPServerTransport | null> {
+    const sessionId = req.get(SESSION_HEADER)
+    if (sessionId) {
+      const session = sessions.get(sessionId)
+      // Another key's session is reported as missing so its id reveals nothing
+      if (!session || session.apiKeyId !== req.apiKey?.id) {
+        sendRpcError(res, 404, 'Session not found')
+        return null
+      }
+      session.lastSeen = Date.now()
+      return session.transport
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+      sendRpcError(res, 400, `Missing ${SESSION_HEADER} header`)
+      return null
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      // Registered here rather than after handleRequest so follow-up requests never race it
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, lastSeen: Date.now(), apiKeyId: req.apiKey?.id })
+      }
+    })
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId)
+    }
+    await createMcpServer(req.viewer).connect(transport)
+    return transport
+  }
+
+  const handle = async (req: Request, res: Response) => {
+    try {
+      const transport = await resolveTransport(req, res)
+      if (transport) await transport.handleRequest(req, res, req.body)
+    } catch (error) {
+      console.error('Error handling MCP request:', formatErrorMessage(error))
+      if (!res.headersSent) sendRpcError(res, 500, 'Internal server error')
+    }
+  }
+
+  router.use(requireApiKey(mcpScopes))
+  router.post('/', handle)
+  router.get('/', handle)
+  router.delete('/', handle)
+
+  return router
+}
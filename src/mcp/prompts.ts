@@ -0,0 +1,248 @@
+/**
+ * MCP prompts
+ * Assemble past sessions into ready-made prompts. Each prompt fits within a
+ * token budget (MCP_PROMPT_TOKEN_BUDGET, or the max_tokens argument): thinking
+ * is trimmed first, then message content, and only then are whole messages
+ * left out. Tokens are estimated from character counts.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import { z } from 'zod'
+import { getMessage, getSession, getSessionMessages, searchMessages } from '../db/index.js'
+import { formatTimestamp } from '../exporters/format.js'
+import { completeSessionId } from './resources.js'
+import { NotFoundError } from '../utils/errors.js'
+import { PAGINATION } from '../utils/constants.js'
+import type { Message, Session, Viewer } from '../types/index.js'
+
+const CHARS_PER_TOKEN = 4
+
+const DEFAULT_TOKEN_BUDGET = parseInt(process.env.MCP_PROMPT_TOKEN_BUDGET || '', 10) || 8000
+
+// Search results pulled into recall_prior_reasoning before trimming
+const RECALL_LIMIT = 20
+
+const TRIM_MARKER = ' … [trimmed]'
+
+interface Excerpt {
+  heading: string
+  content: string
+  thinking: string
+}
+
+type TrimmableField = 'thinking' | 'content'
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function renderExcerpt(excerpt: Excerpt): string {
+  const parts = [`### ${excerpt.heading}`, '']
+  if (excerpt.thinking) parts.push('<thinking>', excerpt.thinking, '</thinking>', '')
+  if (excerpt.content) parts.push(excerpt.content, '')
+  return parts.join('\n')
+}
+
+function toExcerpt(message: Message, session?: Session): Excerpt {
+  const source = session ? `${session.name} · ` : ''
+  const model = message.model ? ` (${message.model})` : ''
+  return {
+    heading: `${source}${message.role}${model} · ${formatTimestamp(message.created_at)}`,
+    content: message.content ?? '',
+    thinking: message.thinking_content ?? ''
+  }
+}
+
+/**
+ * The largest length that, applied as a cap to every value, keeps their sum
+ * within the available total
+ */
+function commonCap(lengths: number[], available: number): number {
+  const sorted = [...lengths].sort((a, b) => a - b)
+  let remaining = available
+  for (const [index, length] of sorted.entries()) {
+    const share = remaining / (sorted.length - index)
+    if (length > share) return Math.floor(share)
+    remaining -= length
+  }
+  return Infinity
+}
+
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text
+  return length > 0 ? text.slice(0, length).trimEnd() + TRIM_MARKER : ''
+}
+
+/**
+ * Renders excerpts within the token budget, trimming thinking across all
+ * excerpts evenly before content, then dropping excerpts from the end
+ */
+function fitExcerpts(excerpts: Excerpt[], budget: number): string {
+  const budgetChars = Math.max(0, budget) * CHARS_PER_TOKEN
+  const size = (list: Excerpt[]) => list.reduce((sum, e) => sum + renderExcerpt(e).length, 0)
+  let fitted = excerpts.map((excerpt) => ({ ...excerpt }))
+
+  for (const field of ['thinking', 'content'] as TrimmableField[]) {
+    if (size(fitted) <= budgetChars) break
+    const withoutField = size(fitted.map((excerpt) => ({ ...excerpt, [field]: '' })))
+    const cap = commonCap(
+      fitted.map((excerpt) => excerpt[field].length),
+      budgetChars - withoutField - fitted.length * TRIM_MARKER.length
+    )
+    fitted = fitted.map((excerpt) => ({
+      ...excerpt,
+      [field]: truncate(excerpt[field], Math.max(0, cap))
+    }))
+  }
+
+  let omitted = 0
+  while (fitted.length > 0 && size(fitted) > budgetChars) {
+    fitted.pop()
+    omitted++
+  }
+
+  const rendered = fitted.map(renderExcerpt).join('\n')
+  if (omitted === 0) return rendered
+  return `${rendered}\n_${omitted} more message(s) omitted to fit the token budget._\n`
+}
+
+function parseBudget(maxTokens: string | undefined): number {
+  return maxTokens ? parseInt(maxTokens, 10) : DEFAULT_TOKEN_BUDGET
+}
+
+async function findSession(id: string, viewer?: Viewer): Promise<Session> {
+  const session = await getSession(id, viewer)
+  if (!session) throw new NotFoundError('Session', id)
+  return session
+}
+
+async function loadAllMessages(sessionId: string, viewer?: Viewer): Promise<Message[]> {
+  const messages: Message[] = []
+  while (true) {
+    const page = await getSessionMessages(
+      sessionId,
+      PAGINATION.MESSAGES_MAX_LIMIT,
+      messages.length,
+      viewer
+    )
+    messages.push(...page.messages)
+    if (page.messages.length === 0 || messages.length >= page.total) return messages
+  }
+}
+
+function describeSession(session: Session, messageCount: number): string {
+  const details = [`started ${formatTimestamp(session.started_at)}`, `${messageCount} messages`]
+  if (session.project_path) details.push(`project \`${session.project_path}\``)
+  return `"${session.name}" (${details.join(', ')})`
+}
+
+function userPrompt(text: string) {
+  return { messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }] }
+}
+
+const maxTokensArg = z
+  .string()
+  .regex(/^\d+$/, 'max_tokens must be a whole number')
+  .optional()
+  .describe(`Approximate token budget for the prompt (default ${DEFAULT_TOKEN_BUDGET})`)
+
+export function registerPrompts(server: McpServer, viewer?: Viewer): void {
+  const sessionIdArg = (description: string) =>
+    completable(z.string().uuid().describe(description), completeSessionId(viewer))
+
+  server.registerPrompt(
+    'recall_prior_reasoning',
+    {
+      title: 'Recall Prior Reasoning',
+      description: 'Pull reasoning about a topic from past sessions into the conversation',
+      argsSchema: {
+        topic: z.string().min(2).describe('Topic to search for; supports the search query syntax'),
+        max_tokens: maxTokensArg
+      }
+    },
+    async ({ topic, max_tokens }) => {
+      const { results } = await searchMessages(topic, { limit: RECALL_LIMIT, viewer })
+      const sessions = new Map<string, Session | null>()
+      const excerpts: Excerpt[] = []
+      for (const result of results) {
+        const message = await getMessage(result.id, viewer)
+        if (!message) continue
+        if (!sessions.has(message.session_id)) {
+          sessions.set(message.session_id, await getSession(message.session_id, viewer))
+        }
+        excerpts.push(toExcerpt(message, sessions.get(message.session_id) ?? undefined))
+      }
+
+      const intro =
+        excerpts.length > 0
+          ? `Below is reasoning from ${sessions.size} past session(s) about "${topic}", most ` +
+            'relevant first. Use it to inform the current task: reuse conclusions that still ' +
+            'apply, note where earlier assumptions may no longer hold, and say which session ' +
+            'an idea came from.\n\n'
+          : `No past messages matched "${topic}". Say so, then continue without prior context.\n`
+      const body = fitExcerpts(excerpts, parseBudget(max_tokens) - estimateTokens(intro))
+      return userPrompt(intro + body)
+    }
+  )
+
+  server.registerPrompt(
+    'summarize_session',
+    {
+      title: 'Summarize Session',
+      description: 'Summarize the goals, decisions and open questions of a session',
+      argsSchema: {
+        session_id: sessionIdArg('Session to summarize'),
+        max_tokens: maxTokensArg
+      }
+    },
+    async ({ session_id, max_tokens }) => {
+      const session = await findSession(session_id, viewer)
+      const messages = await loadAllMessages(session.id, viewer)
+
+      const intro =
+        `Summarize the session ${describeSession(session, messages.length)}. Cover the goal, ` +
+        'the approach taken and why, key decisions and the reasoning behind them, problems ' +
+        'hit along the way, and anything left unresolved.\n\n'
+      const body = fitExcerpts(
+        messages.map((message) => toExcerpt(message)),
+        parseBudget(max_tokens) - estimateTokens(intro)
+      )
+      return userPrompt(intro + body)
+    }
+  )
+
+  server.registerPrompt(
+    'compare_approaches',
+    {
+      title: 'Compare Approaches',
+      description: 'Compare how two sessions approached their problems',
+      argsSchema: {
+        session_a: sessionIdArg('First session'),
+        session_b: sessionIdArg('Second session'),
+        max_tokens: maxTokensArg
+      }
+    },
+    async ({ session_a, session_b, max_tokens }) => {
+      const sessions = [await findSession(session_a, viewer), await findSession(session_b, viewer)]
+      const transcripts = await Promise.all(
+        sessions.map((session) => loadAllMessages(session.id, viewer))
+      )
+
+      const intro =
+        'Compare the approaches taken in two sessions. Describe what each tried and why, where ' +
+        'their reasoning diverged, the trade-offs of each, and which ideas are worth carrying ' +
+        'forward.\n\n'
+      // Each session gets an equal share so a long one cannot crowd out the other
+      const share = Math.floor((parseBudget(max_tokens) - estimateTokens(intro)) / 2)
+      const sections = sessions.map((session, index) => {
+        const label = index === 0 ? 'A' : 'B'
+        const description = describeSession(session, transcripts[index].length)
+        const heading = `## Session ${label}: ${description}\n\n`
+        const excerpts = transcripts[index].map((message) => toExcerpt(message))
+        return heading + fitExcerpts(excerpts, share - estimateTokens(heading))
+      })
+      return userPrompt(intro + sections.join('\n'))
+    }
+  )
+}
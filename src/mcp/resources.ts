@@ -0,0 +1,211 @@
+/**
+ * MCP resources
+ *   tracker://sessions                     recent sessions
+ *   tracker://sessions/{id}                session details and usage
+ *   tracker://sessions/{id}/transcript     full transcript
+ *   tracker://messages/{id}                a single message
+ * Everything renders as markdown. Clients that subscribe to a session or its
+ * transcript are notified as messages are captured into it.
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js'
+import { getSession, listSessions, getMessage, getSessionStats } from '../db/index.js'
+import { exportSessionToString } from '../exporters/index.js'
+import { renderMarkdownHeader, renderMarkdownMessage } from '../exporters/markdown.js'
+import { formatTimestamp } from '../exporters/format.js'
+import { subscribe } from '../streams/index.js'
+import { isValidUUID } from '../utils/validation.js'
+import { NotFoundError, formatErrorMessage } from '../utils/errors.js'
+import type { Session, StreamEvent, Viewer } from '../types/index.js'
+
+const SCHEME = 'tracker://'
+
+// How many recent sessions are listed and offered as completions
+const RECENT_SESSIONS = 100
+
+const MARKDOWN = 'text/markdown'
+
+const sessionUri = (id: string) => `${SCHEME}sessions/${id}`
+const transcriptUri = (id: string) => `${SCHEME}sessions/${id}/transcript`
+
+async function findSession(id: string, viewer?: Viewer): Promise<Session> {
+  const session = isValidUUID(id) ? await getSession(id, viewer) : null
+  if (!session) throw new NotFoundError('Session', id)
+  return session
+}
+
+function markdown(uri: URL, text: string) {
+  return { contents: [{ uri: uri.href, mimeType: MARKDOWN, text }] }
+}
+
+/**
+ * Template variables arrive as string | string[]; only single values are meaningful here
+ */
+function single(value: string | string[]): string {
+  return Array.isArray(value) ? value[0] ?? '' : value
+}
+
+async function recentSessions(viewer?: Viewer): Promise<Session[]> {
+  return (await listSessions(RECENT_SESSIONS, 0, { viewer })).sessions
+}
+
+/**
+ * Completer for session ids, drawn from the viewer's recent sessions
+ */
+export function completeSessionId(viewer?: Viewer) {
+  return async (value: string): Promise<string[]> =>
+    (await recentSessions(viewer))
+      .map((session) => session.id)
+      .filter((id) => id.startsWith(value))
+}
+
+export function registerResources(server: McpServer, viewer?: Viewer): void {
+  server.registerResource(
+    'sessions',
+    `${SCHEME}sessions`,
+    {
+      title: 'Recent Sessions',
+      description: `The ${RECENT_SESSIONS} most recently started tracking sessions`,
+      mimeType: MARKDOWN
+    },
+    async (uri) => {
+      const { sessions, total } = await listSessions(RECENT_SESSIONS, 0, { viewer })
+      const lines = [`# Sessions`, '', `Showing ${sessions.length} of ${total}.`, '']
+      for (const session of sessions) {
+        const details = [formatTimestamp(session.started_at)]
+        if (session.project_path) details.push(`\`${session.project_path}\``)
+        if (!session.ended_at) details.push('in progress')
+        lines.push(`- [${session.name}](${sessionUri(session.id)}) — ${details.join(' · ')}`)
+      }
+      return markdown(uri, lines.join('\n') + '\n')
+    }
+  )
+
+  server.registerResource(
+    'session',
+    new ResourceTemplate(`${SCHEME}sessions/{id}`, {
+      list: async () => ({
+        resources: (await recentSessions(viewer)).map((session) => ({
+          uri: sessionUri(session.id),
+          name: session.name,
+          mimeType: MARKDOWN
+        }))
+      }),
+      complete: { id: completeSessionId(viewer) }
+    }),
+    {
+      title: 'Session',
+      description: 'Session details, token usage and cost',
+      mimeType: MARKDOWN
+    },
+    async (uri, { id }) => {
+      const session = await findSession(single(id), viewer)
+      const stats = await getSessionStats(session.id, viewer)
+      const lines = [renderMarkdownHeader(session).trimEnd(), '', '## Usage', '']
+      if (stats) {
+        lines.push(
+          `- **Messages:** ${stats.message_count}`,
+          `- **Tokens:** input ${stats.input_tokens} · output ${stats.output_tokens} · ` +
+            `thinking ${stats.thinking_tokens}`,
+          `- **Tool calls:** ${stats.tool_calls}`,
+          `- **Estimated cost:** $${stats.cost_usd.toFixed(4)}`
+        )
+      }
+      lines.push('', `Transcript: ${transcriptUri(session.id)}`)
+      return markdown(uri, lines.join('\n') + '\n')
+    }
+  )
+
+  server.registerResource(
+    'session-transcript',
+    new ResourceTemplate(`${SCHEME}sessions/{id}/transcript`, {
+      list: undefined,
+      complete: { id: completeSessionId(viewer) }
+    }),
+    {
+      title: 'Session Transcript',
+      description: 'Every message in a session with its thinking and tool calls',
+      mimeType: MARKDOWN
+    },
+    async (uri, { id }) => {
+      const session = await findSession(single(id), viewer)
+      return markdown(uri, await exportSessionToString(session, 'md'))
+    }
+  )
+
+  server.registerResource(
+    'message',
+    new ResourceTemplate(`${SCHEME}messages/{id}`, { list: undefined }),
+    {
+      title: 'Message',
+      description: 'A single message with its thinking and tool calls',
+      mimeType: MARKDOWN
+    },
+    async (uri, { id }) => {
+      const messageId = single(id)
+      const message = isValidUUID(messageId) ? await getMessage(messageId, viewer) : null
+      if (!message) throw new NotFoundError('Message', messageId)
+      const session = await getSession(message.session_id)
+      const link = `[${session?.name ?? message.session_id}](${sessionUri(message.session_id)})`
+      return markdown(uri, `Session: ${link}\n\n${renderMarkdownMessage(message)}`)
+    }
+  )
+
+  registerSubscriptions(server, viewer)
+}
+
+// Session ids of the session and transcript URIs, the ones updates are sent for
+const SESSION_URI = new RegExp(`^${SCHEME}sessions/([^/]+)(?:/transcript)?$`)
+
+/**
+ * Tracks the URIs this client subscribed to and sends resources/updated for
+ * them as events arrive. Only sessions the viewer can read may be subscribed
+ * to. The event subscription ends when the connection closes.
+ */
+function registerSubscriptions(server: McpServer, viewer?: Viewer): void {
+  const subscribed = new Set<string>()
+  let subscription: Promise<() => void> | null = null
+
+  const notify = (event: StreamEvent) => {
+    const uris =
+      event.type === 'session-created'
+        ? [`${SCHEME}sessions`]
+        : [sessionUri(event.session_id), transcriptUri(event.session_id)]
+    if (event.type === 'session-created') server.sendResourceListChanged()
+
+    for (const uri of uris) {
+      if (!subscribed.has(uri)) continue
+      server.server
+        .sendResourceUpdated({ uri })
+        .catch((error) =>
+          console.error('Failed to send resource update:', formatErrorMessage(error))
+        )
+    }
+  }
+
+  server.server.registerCapabilities({ resources: { subscribe: true } })
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const sessionId = SESSION_URI.exec(request.params.uri)?.[1]
+    if (sessionId) await findSession(sessionId, viewer)
+    subscribed.add(request.params.uri)
+    subscription ??= subscribe(undefined, notify)
+    await subscription
+    return {}
+  })
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribed.delete(request.params.uri)
+    return {}
+  })
+
+  const onclose = server.server.onclose
+  server.server.onclose = () => {
+    subscription?.then((unsubscribe) => unsubscribe())
+    onclose?.()
+  }
+}
@@ -0,0 +1,908 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import {
+  createSession,
+  endSession,
+  updateSession,
+  mergeSessions,
+  splitSession,
+  captureMessage,
+  captureMessages,
+  getSession,
+  listSessions,
+  getSessionMessages,
+  getMessageTree,
+  searchMessages,
+  getOverallStats,
+  getSessionStats,
+  getAnnotations,
+  addTags,
+  removeTags,
+  addNote,
+  setBookmark
+} from '../db/index.js'
+import { exportSessionToString } from '../exporters/index.js'
+import { registerResources } from './resources.js'
+import { registerPrompts } from './prompts.js'
+import {
+  findSimilarMessages,
+  findSimilarToText,
+  hybridSearchMessages
+} from '../embeddings/index.js'
+import { mcpSuccess, mcpText, mcpError, mcpNotFound } from '../utils/mcp-response.js'
+import { hasMore } from '../utils/api-response.js'
+import { parseTimestamp, validateTags } from '../utils/validation.js'
+import { ValidationError } from '../utils/errors.js'
+import {
+  VALIDATION,
+  PAGINATION,
+  EXPORT_FORMATS,
+  THINKING_BLOCK_TYPES,
+  SEARCH_MODES,
+  SESSION_VISIBILITIES
+} from '../utils/constants.js'
+import type { Viewer } from '../types/index.js'
+
+// =============================================================================
+// Schema Definitions
+// =============================================================================
+
+// Event times are checked against the server clock by parseTimestamp
+const TimestampSchema = z.union([z.string(), z.number()])
+
+const CreateSessionSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1)
+      .max(VALIDATION.SESSION_NAME_MAX_LENGTH)
+      .describe('Name for this coding session'),
+    project_path: z.string().optional().describe('Path to the project directory'),
+    metadata: z.record(z.unknown()).optional().describe('Additional metadata'),
+    visibility: z
+      .enum(SESSION_VISIBILITIES)
+      .optional()
+      .describe('Who can see the session: private, workspace (default for users) or public'),
+    parent_session_id: z
+      .string()
+      .uuid()
+      .optional()
+      .describe('Session that spawned this one, e.g. the main agent of a subagent'),
+    started_at: TimestampSchema.optional().describe(
+      'When the session started: ISO 8601 or epoch milliseconds (default: now)'
+    ),
+    ended_at: TimestampSchema.optional().describe('When the session ended, if it already has')
+  })
+  .strict()
+
+const SessionIdSchema = z
+  .object({
+    session_id: z.string().uuid().describe('UUID of the session')
+  })
+  .strict()
+
+const EndSessionSchema = z
+  .object({
+    session_id: z.string().uuid().describe('UUID of the session'),
+    ended_at: TimestampSchema.optional().describe(
+      'When the session ended: ISO 8601 or epoch milliseconds (default: now)'
+    )
+  })
+  .strict()
+
+const UpdateSessionSchema = z
+  .object({
+    session_id: z.string().uuid().describe('UUID of the session'),
+    name: z.string().min(1).max(VALIDATION.SESSION_NAME_MAX_LENGTH).optional(),
+    project_path: z.string().optional(),
+    metadata: z
+      .record(z.unknown())
+      .optional()
+      .describe('Merged into the stored metadata; a key set to null is removed'),
+    visibility: z.enum(SESSION_VISIBILITIES).optional(),
+    started_at: TimestampSchema.optional(),
+    ended_at: TimestampSchema.optional()
+  })
+  .strict()
+
+const MergeSessionsSchema = z
+  .object({
+    session_id: z.string().uuid().describe('Session that receives the messages'),
+    source_ids: z
+      .array(z.string().uuid())
+      .min(1)
+      .describe('Sessions whose messages move into it; they are deleted afterwards')
+  })
+  .strict()
+
+const SplitSessionSchema = z
+  .object({
+    session_id: z.string().uuid().describe('UUID of the session'),
+    message_id: z
+      .string()
+      .uuid()
+      .describe('First message of the new session; it and every later message move'),
+    name: z
+      .string()
+      .min(1)
+      .max(VALIDATION.SESSION_NAME_MAX_LENGTH)
+      .optional()
+      .describe('Name of the new session (default: the original name with "(split)")')
+  })
+  .strict()
+
+const CaptureMessageSchema = z
+  .object({
+    session_id: z.string().uuid().describe('UUID of the session'),
+    role: z
+      .enum(['user', 'assistant', 'system'])
+      .describe('Role of the message sender'),
+    content: z.string().describe('The message content'),
+    thinking_content: z.string().optional().describe('Extended thinking content'),
+    thinking_text: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .describe('Alternate field for thinking text (Gemini CLI)'),
+    thinking: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .describe('Alternate field for thinking text (Gemini CLI)'),
+    thoughts: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .describe('Alternate field for thinking text (Gemini CLI)'),
+    thinking_blocks: z
+      .array(
+        z.object({
+          type: z.enum(THINKING_BLOCK_TYPES).optional().describe('Defaults to thinking'),
+          content: z.string().optional().describe('Thinking text (required for thinking blocks)'),
+          data: z.string().optional().describe('Opaque payload of a redacted block'),
+          signature: z.string().optional().describe('Signature returned by the API'),
+          token_count: z.number().int().min(0).optional().describe('Tokens in this block')
+        })
+      )
+      .optional()
+      .describe('Ordered thinking blocks; takes precedence over the text fields'),
+    thinking_tokens: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Tokens used in thinking'),
+    thinking_token_count: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Alternate field for thinking token count (Gemini CLI)'),
+    thoughts_token_count: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Alternate field for thinking token count (Gemini CLI)'),
+    model: z.string().optional().describe('Model used'),
+    input_tokens: z.number().int().min(0).optional().describe('Input tokens'),
+    output_tokens: z.number().int().min(0).optional().describe('Output tokens'),
+    cache_creation_input_tokens: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Input tokens written to the prompt cache'),
+    cache_read_input_tokens: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Input tokens read from the prompt cache'),
+    tool_calls: z
+      .array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          input: z.record(z.unknown()),
+          output: z.string().optional(),
+          error: z.string().optional(),
+          duration_ms: z.number().optional()
+        })
+      )
+      .optional()
+      .describe('Tool calls made'),
+    parent_message_id: z
+      .string()
+      .uuid()
+      .nullable()
+      .optional()
+      .describe(
+        'Message this one follows, to fork an edit or retry (default: the latest); ' +
+          'null starts a new conversation'
+      ),
+    branch_id: z
+      .string()
+      .min(1)
+      .max(VALIDATION.BRANCH_ID_MAX_LENGTH)
+      .optional()
+      .describe('Label of the branch the message is on (default: its parent\'s branch)'),
+    timestamp: TimestampSchema.optional().describe(
+      'When the message was sent: ISO 8601 or epoch milliseconds (default: now)'
+    ),
+    external_id: z
+      .string()
+      .min(1)
+      .max(VALIDATION.EXTERNAL_ID_MAX_LENGTH)
+      .optional()
+      .describe(
+        'Your own id for the message; capturing it again returns the stored message ' +
+          'instead of a duplicate'
+      )
+  })
+  .strict()
+
+const CaptureMessagesSchema = z
+  .object({
+    messages: z
+      .array(z.record(z.unknown()))
+      .min(1)
+      .max(VALIDATION.MAX_CAPTURE_BATCH)
+      .describe('Messages in conversation order, each with the fields of tracker_capture_message')
+  })
+  .strict()
+
+const ListSessionsSchema = z
+  .object({
+    tags: z.array(z.string()).optional().describe('Only sessions carrying every one of these tags'),
+    bookmarked: z
+      .boolean()
+      .optional()
+      .describe('Only bookmarked (true) or unbookmarked (false) sessions'),
+    parent_session_id: z
+      .string()
+      .uuid()
+      .optional()
+      .describe('Only the sub-sessions of this session'),
+    top_level: z.boolean().optional().describe('Only sessions that are not sub-sessions'),
+    limit: z.number().int().min(1).max(PAGINATION.MAX_LIMIT).default(PAGINATION.DEFAULT_LIMIT),
+    offset: z.number().int().min(0).default(PAGINATION.DEFAULT_OFFSET)
+  })
+  .strict()
+
+const GetMessagesSchema = z
+  .object({
+    session_id: z.string().uuid().describe('UUID of the session'),
+    leaf_message_id: z
+      .string()
+      .uuid()
+      .optional()
+      .describe('Only the branch from the first message to this one'),
+    branch_id: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Only the branch ending at the latest message with this label'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(PAGINATION.MESSAGES_MAX_LIMIT)
+      .default(PAGINATION.MESSAGES_DEFAULT_LIMIT),
+    offset: z.number().int().min(0).default(PAGINATION.DEFAULT_OFFSET)
+  })
+  .strict()
+
+const SearchSchema = z
+  .object({
+    query: z
+      .string()
+      .min(VALIDATION.SEARCH_QUERY_MIN_LENGTH)
+      .max(VALIDATION.SEARCH_QUERY_MAX_LENGTH)
+      .describe(
+        'Search query. Supports "exact phrases", -excluded terms, a OR b, and filters: ' +
+          'model:<prefix> tool:<name> project:<text> tag:<tag> after:<date> before:<date> ' +
+          'in:thinking|content'
+      ),
+    session_id: z.string().uuid().optional(),
+    role: z.enum(['user', 'assistant', 'system']).optional(),
+    tags: z
+      .array(z.string())
+      .optional()
+      .describe('Only messages where the message or its session carries every one of these tags'),
+    limit: z.number().int().min(1).max(PAGINATION.MAX_LIMIT).default(PAGINATION.DEFAULT_LIMIT),
+    offset: z.number().int().min(0).default(PAGINATION.DEFAULT_OFFSET),
+    search_thinking: z.boolean().default(true),
+    mode: z
+      .enum(SEARCH_MODES)
+      .default('keyword')
+      .describe('keyword, or hybrid to also rank messages with similar meaning')
+  })
+  .strict()
+
+const FindSimilarSchema = z
+  .object({
+    message_id: z.string().uuid().optional().describe('Find messages similar to this one'),
+    text: z
+      .string()
+      .min(1)
+      .max(VALIDATION.SEARCH_QUERY_MAX_LENGTH)
+      .optional()
+      .describe('Or find messages similar to this description'),
+    session_id: z.string().uuid().optional().describe('Only look in this session'),
+    limit: z.number().int().min(1).max(PAGINATION.MAX_LIMIT).default(10)
+  })
+  .strict()
+
+const ExportSessionSchema = z
+  .object({
+    session_id: z.string().uuid().describe('UUID of the session'),
+    format: z.enum(EXPORT_FORMATS).default('md').describe('Export format: md, json or html')
+  })
+  .strict()
+
+const AnnotationTargetShape = {
+  session_id: z.string().uuid().optional().describe('Session to annotate'),
+  message_id: z
+    .string()
+    .uuid()
+    .optional()
+    .describe('Message to annotate; takes precedence over session_id')
+}
+
+const TagSchema = z
+  .object({
+    ...AnnotationTargetShape,
+    add: z.array(z.string()).optional().describe('Tags to add'),
+    remove: z.array(z.string()).optional().describe('Tags to remove')
+  })
+  .strict()
+
+const AnnotateSchema = z
+  .object({
+    ...AnnotationTargetShape,
+    note: z
+      .string()
+      .min(1)
+      .max(VALIDATION.NOTE_MAX_LENGTH)
+      .optional()
+      .describe('Free-text note to attach'),
+    bookmark: z.boolean().optional().describe('Bookmark (true) or remove the bookmark (false)')
+  })
+  .strict()
+
+const GetStatsSchema = z
+  .object({
+    session_id: z.string().uuid().optional()
+  })
+  .strict()
+
+// =============================================================================
+// Server Setup
+// =============================================================================
+
+/**
+ * Tools that write to the tracker; over HTTP they need an API key with the
+ * capture scope, while every other tool, resource and prompt needs read
+ */
+export const CAPTURE_TOOLS = new Set([
+  'tracker_create_session',
+  'tracker_end_session',
+  'tracker_update_session',
+  'tracker_split_session',
+  'tracker_capture_message',
+  'tracker_capture_messages',
+  'tracker_tag',
+  'tracker_annotate'
+])
+
+/**
+ * Tools that delete sessions, which need the admin scope over HTTP as
+ * deleting a session over REST does. Merging deletes its sources.
+ */
+export const ADMIN_TOOLS = new Set(['tracker_merge_sessions'])
+
+/**
+ * Builds an MCP server with every tracker tool registered. A server serves a
+ * single transport connection, so each HTTP session gets its own instance,
+ * scoped to the viewer its API key acts for.
+ */
+export function createMcpServer(viewer?: Viewer): McpServer {
+  const server = new McpServer({ name: 'claude-think-tracker', version: '1.0.0' })
+
+  server.registerTool(
+    'tracker_create_session',
+    {
+      title: 'Create Tracking Session',
+      description: 'Create a new session to track Claude Code interactions.',
+      inputSchema: CreateSessionSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof CreateSessionSchema>) => {
+      try {
+        const session = await createSession(
+          {
+            ...params,
+            started_at: parseTimestamp(params.started_at, 'started_at'),
+            ended_at: parseTimestamp(params.ended_at, 'ended_at')
+          },
+          viewer
+        )
+        return mcpSuccess({ success: true, session })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_end_session',
+    {
+      title: 'End Tracking Session',
+      description: 'Mark a tracking session as ended.',
+      inputSchema: EndSessionSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof EndSessionSchema>) => {
+      try {
+        const endedAt = parseTimestamp(params.ended_at, 'ended_at')
+        const session = await endSession(params.session_id, viewer, endedAt)
+        if (!session) return mcpNotFound('Session')
+        return mcpSuccess({ success: true, session_id: session.id, ended_at: session.ended_at })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_update_session',
+    {
+      title: 'Update Session',
+      description:
+        'Change the name, project path, metadata, visibility or start and end times of a ' +
+        'session. Metadata is merged into what is stored; set a key to null to remove it.',
+      inputSchema: UpdateSessionSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async ({ session_id, started_at, ended_at, ...input }: z.infer<typeof UpdateSessionSchema>) => {
+      try {
+        const session = await updateSession(
+          session_id,
+          {
+            ...input,
+            started_at: parseTimestamp(started_at, 'started_at'),
+            ended_at: parseTimestamp(ended_at, 'ended_at')
+          },
+          viewer
+        )
+        if (!session) return mcpNotFound('Session')
+        return mcpSuccess({ success: true, session })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_merge_sessions',
+    {
+      title: 'Merge Sessions',
+      description:
+        'Move every message of the source sessions into a session, then delete the sources.',
+      inputSchema: MergeSessionsSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof MergeSessionsSchema>) => {
+      try {
+        const session = await mergeSessions(params.session_id, params.source_ids, viewer)
+        if (!session) return mcpNotFound('Session')
+        return mcpSuccess({ success: true, session })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_split_session',
+    {
+      title: 'Split Session',
+      description:
+        'Cut a session at a message: that message and every later one move to a new session.',
+      inputSchema: SplitSessionSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof SplitSessionSchema>) => {
+      try {
+        const session = await splitSession(
+          params.session_id,
+          params.message_id,
+          { name: params.name },
+          viewer
+        )
+        if (!session) return mcpNotFound('Session')
+        return mcpSuccess({ success: true, session })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_capture_message',
+    {
+      title: 'Capture Message',
+      description: 'Capture a message with optional thinking data.',
+      inputSchema: CaptureMessageSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof CaptureMessageSchema>) => {
+      try {
+        const { message, created } = await captureMessage(params, viewer)
+        return mcpSuccess({
+          success: true,
+          message_id: message.id,
+          created,
+          thinking_tokens: message.thinking_tokens
+        })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_capture_messages',
+    {
+      title: 'Capture Messages',
+      description:
+        'Capture many messages in one call. Invalid messages are reported by index ' +
+        'while the rest are stored; messages with a known external_id are not stored twice.',
+      inputSchema: CaptureMessagesSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof CaptureMessagesSchema>) => {
+      try {
+        const result = await captureMessages(params.messages, viewer)
+        return mcpSuccess({ success: true, ...result })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_get_session',
+    {
+      title: 'Get Session',
+      description: 'Retrieve details of a specific tracking session.',
+      inputSchema: SessionIdSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof SessionIdSchema>) => {
+      try {
+        const session = await getSession(params.session_id, viewer)
+        if (!session) return mcpNotFound('Session')
+        return mcpSuccess(session)
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_list_sessions',
+    {
+      title: 'List Sessions',
+      description: 'List all tracking sessions with pagination.',
+      inputSchema: ListSessionsSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof ListSessionsSchema>) => {
+      try {
+        const result = await listSessions(params.limit, params.offset, {
+          tags: params.tags?.length ? validateTags(params.tags) : undefined,
+          bookmarked: params.bookmarked,
+          parent_session_id: params.parent_session_id ?? (params.top_level ? null : undefined),
+          viewer
+        })
+        return mcpSuccess({
+          ...result,
+          has_more: hasMore(result.total, params.offset, result.sessions.length)
+        })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_get_messages',
+    {
+      title: 'Get Session Messages',
+      description: 'Retrieve messages from a tracking session.',
+      inputSchema: GetMessagesSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof GetMessagesSchema>) => {
+      try {
+        const result = await getSessionMessages(
+          params.session_id,
+          params.limit,
+          params.offset,
+          viewer,
+          { leaf_message_id: params.leaf_message_id, branch_id: params.branch_id }
+        )
+        return mcpSuccess({
+          ...result,
+          has_more: hasMore(result.total, params.offset, result.messages.length)
+        })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_get_message_tree',
+    {
+      title: 'Get Message Tree',
+      description:
+        'Show how a session branches through edits and retries. Pass a leaf to ' +
+        'tracker_get_messages as leaf_message_id to read one branch.',
+      inputSchema: SessionIdSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof SessionIdSchema>) => {
+      try {
+        const tree = await getMessageTree(params.session_id, viewer)
+        if (!tree) return mcpNotFound('Session')
+        return mcpSuccess({ success: true, tree })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_search',
+    {
+      title: 'Search Messages',
+      description:
+        'Full-text search across all messages and thinking content, with phrases, exclusions, ' +
+        'OR and field filters. Hybrid mode also surfaces messages that use different words.',
+      inputSchema: SearchSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof SearchSchema>) => {
+      try {
+        const search = params.mode === 'hybrid' ? hybridSearchMessages : searchMessages
+        const result = await search(params.query, {
+          sessionId: params.session_id,
+          role: params.role,
+          tags: params.tags?.length ? validateTags(params.tags) : undefined,
+          limit: params.limit,
+          offset: params.offset,
+          searchThinking: params.search_thinking,
+          viewer
+        })
+        return mcpSuccess({
+          query: params.query,
+          ...result,
+          has_more: hasMore(result.total, params.offset, result.results.length)
+        })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_find_similar',
+    {
+      title: 'Find Similar Reasoning',
+      description:
+        'Find messages whose content and thinking are closest in meaning to a message or a ' +
+        'description, even when they share few keywords.',
+      inputSchema: FindSimilarSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof FindSimilarSchema>) => {
+      try {
+        const { message_id, text, session_id, limit } = params
+        if (!message_id === !text) throw new ValidationError('Provide either message_id or text')
+        const options = { sessionId: session_id, limit, viewer }
+        const results = message_id
+          ? await findSimilarMessages(message_id, options)
+          : await findSimilarToText(text!, options)
+        return mcpSuccess({ results })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_stats',
+    {
+      title: 'Get Statistics',
+      description:
+        'Get usage statistics, including estimated cost in USD, for all sessions or a ' +
+        'specific session.',
+      inputSchema: GetStatsSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof GetStatsSchema>) => {
+      try {
+        if (params.session_id) {
+          const stats = await getSessionStats(params.session_id, viewer)
+          if (!stats) return mcpNotFound('Session')
+          return mcpSuccess({ session_id: params.session_id, ...stats })
+        }
+        const stats = await getOverallStats(viewer)
+        return mcpSuccess(stats)
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_export_session',
+    {
+      title: 'Export Session',
+      description:
+        'Export a session with thinking, tool calls and token counts as Markdown, JSON or HTML.',
+      inputSchema: ExportSessionSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof ExportSessionSchema>) => {
+      try {
+        const session = await getSession(params.session_id, viewer)
+        if (!session) return mcpNotFound('Session')
+        return mcpText(await exportSessionToString(session, params.format))
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_tag',
+    {
+      title: 'Tag Session or Message',
+      description:
+        'Add or remove tags on a session, or on a single message when message_id is given. ' +
+        'Returns the resulting tags.',
+      inputSchema: TagSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof TagSchema>) => {
+      try {
+        const { add, remove, ...ref } = params
+        if (!add?.length && !remove?.length) {
+          throw new ValidationError('Provide tags to add or remove')
+        }
+        let tags = add?.length ? await addTags(ref, add, viewer) : []
+        if (remove?.length) tags = await removeTags(ref, remove, viewer)
+        return mcpSuccess({ success: true, tags })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  server.registerTool(
+    'tracker_annotate',
+    {
+      title: 'Annotate Session or Message',
+      description:
+        'Attach a note to a session or message and/or bookmark it. ' +
+        'Returns its tags, notes and bookmark state.',
+      inputSchema: AnnotateSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false
+      }
+    },
+    async (params: z.infer<typeof AnnotateSchema>) => {
+      try {
+        const { note, bookmark, ...ref } = params
+        if (note === undefined && bookmark === undefined) {
+          throw new ValidationError('Provide a note or a bookmark value')
+        }
+        if (note !== undefined) await addNote(ref, note, viewer)
+        if (bookmark !== undefined) await setBookmark(ref, bookmark, viewer)
+        const annotations = await getAnnotations(ref, viewer)
+        return mcpSuccess({ success: true, annotations })
+      } catch (error) {
+        return mcpError(error)
+      }
+    }
+  )
+
+  registerResources(server, viewer)
+  registerPrompts(server, viewer)
+
+  return server
+}
@@ -0,0 +1,30 @@
+/**
+ * Built-in list prices in USD per million tokens. Override or extend them
+ * with a JSON file of the same shape referenced by PRICING_FILE.
+ *
+ * Anthropic bills thinking as output tokens (already included in
+ * output_tokens), so Claude entries have no separate thinking rate. Gemini
+ * reports thoughts separately from output, so its entries price them.
+ */
+
+import type { ModelPrice } from '../types/index.js'
+
+export const DEFAULT_PRICES: ModelPrice[] = [
+  // Anthropic
+  { model: 'claude-opus-4*', effective_from: '2025-05-22', input: 15, output: 75, cache_write: 18.75, cache_read: 1.5 },
+  { model: 'claude-opus-4-5*', effective_from: '2025-11-24', input: 5, output: 25, cache_write: 6.25, cache_read: 0.5 },
+  { model: 'claude-sonnet-4*', effective_from: '2025-05-22', input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+  { model: 'claude-3-7-sonnet*', effective_from: '2025-02-24', input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+  { model: 'claude-haiku-4-5*', effective_from: '2025-10-15', input: 1, output: 5, cache_write: 1.25, cache_read: 0.1 },
+  { model: 'claude-3-5-sonnet*', effective_from: '2024-06-20', input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+  { model: 'claude-3-5-haiku*', effective_from: '2024-11-04', input: 0.8, output: 4, cache_write: 1, cache_read: 0.08 },
+  { model: 'claude-3-opus*', effective_from: '2024-03-04', input: 15, output: 75, cache_write: 18.75, cache_read: 1.5 },
+  { model: 'claude-3-haiku*', effective_from: '2024-03-13', input: 0.25, output: 1.25, cache_write: 0.3, cache_read: 0.03 },
+
+  // Google
+  { model: 'gemini-2.5-pro*', effective_from: '2025-06-17', input: 1.25, output: 10, cache_read: 0.31, thinking: 10 },
+  { model: 'gemini-2.5-flash*', effective_from: '2025-06-17', input: 0.3, output: 2.5, cache_read: 0.075, thinking: 2.5 },
+  { model: 'gemini-2.0-flash*', effective_from: '2025-02-05', input: 0.1, output: 0.4, cache_read: 0.025, thinking: 0.4 },
+  { model: 'gemini-2.0-flash-lite*', effective_from: '2025-02-25', input: 0.075, output: 0.3, thinking: 0.3 },
+  { model: 'gemini-2.5-flash-lite*', effective_from: '2025-07-22', input: 0.1, output: 0.4, cache_read: 0.025, thinking: 0.4 }
+]
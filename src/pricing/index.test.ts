@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+import { calculateMessageCost, findPrice, summarizeCost } from './index.js'
+import type { Message, TokenUsage } from '../types/index.js'
+
+// The price table is read once, on first use, so the file is in place before any test runs
+const dir = mkdtempSync(join(tmpdir(), 'think-tracker-pricing-'))
+process.env.PRICING_FILE = join(dir, 'prices.json')
+writeFileSync(
+  process.env.PRICING_FILE,
+  JSON.stringify([
+    { model: 'local-llm*', input: 0, output: 0 },
+    { model: 'claude-sonnet-4-20250514', effective_from: '2025-05-22', input: 2, output: 10 }
+  ])
+)
+
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+function message(overrides: Partial<Message>): Message {
+  return {
+    id: 'message',
+    session_id: 'session',
+    role: 'assistant',
+    content: '',
+    created_at: new Date('2025-12-01T12:00:00Z'),
+    ...overrides
+  }
+}
+
+function usage(overrides: Partial<TokenUsage>): TokenUsage {
+  return {
+    date: '2025-12-01',
+    model: 'claude-sonnet-4-5',
+    project_path: null,
+    user_name: null,
+    messages: 1,
+    input_tokens: 0,
+    output_tokens: 0,
+    thinking_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    ...overrides
+  }
+}
+
+describe('findPrice', () => {
+  it('prefers the longest matching prefix', () => {
+    assert.equal(findPrice('claude-opus-4-5-20251101', '2025-12-01')?.model, 'claude-opus-4-5*')
+    assert.equal(findPrice('gemini-2.0-flash-lite', '2025-12-01')?.model, 'gemini-2.0-flash-lite*')
+  })
+
+  it('falls back to a shorter prefix before the longer one takes effect', () => {
+    const price = findPrice('claude-opus-4-5-20251101', '2025-11-01')
+    assert.equal(price?.model, 'claude-opus-4*')
+    assert.equal(price?.input, 15)
+  })
+
+  it('returns null for unknown models and dates before any price', () => {
+    assert.equal(findPrice('gpt-4o', '2025-12-01'), null)
+    assert.equal(findPrice('claude-opus-4-1', '2025-01-01'), null)
+    assert.equal(findPrice(null, '2025-12-01'), null)
+  })
+
+  it('adds the pricing file, whose exact ids beat prefixes', () => {
+    assert.equal(findPrice('claude-sonnet-4-20250514', '2025-12-01')?.input, 2)
+    assert.equal(findPrice('claude-sonnet-4-5', '2025-12-01')?.input, 3)
+    assert.equal(findPrice('local-llm-7b', '2000-01-01')?.effective_from, '1970-01-01')
+  })
+})
+
+describe('calculateMessageCost', () => {
+  it('prices input, output and cache tokens', () => {
+    const cost = calculateMessageCost(
+      message({
+        model: 'claude-sonnet-4-5',
+        input_tokens: 1000,
+        output_tokens: 2000,
+        cache_creation_input_tokens: 4000,
+        cache_read_input_tokens: 10000,
+        // Included in output_tokens, which is what Anthropic bills
+        thinking_tokens: 1500
+      })
+    )
+    assert.equal(cost, (1000 * 3 + 2000 * 15 + 4000 * 3.75 + 10000 * 0.3) / 1_000_000)
+  })
+
+  it('prices thinking for providers that bill it apart from output', () => {
+    const cost = calculateMessageCost(
+      message({
+        model: 'gemini-2.5-pro',
+        input_tokens: 1000,
+        output_tokens: 100,
+        thinking_tokens: 500,
+        cache_creation_input_tokens: 200
+      })
+    )
+    // Without a cache write rate, cache writes cost as much as input
+    assert.equal(cost, (1000 * 1.25 + 100 * 10 + 500 * 10 + 200 * 1.25) / 1_000_000)
+  })
+
+  it('uses the price in effect when the message was sent', () => {
+    const sent = (created_at: string) =>
+      calculateMessageCost(
+        message({
+          model: 'claude-opus-4-5',
+          input_tokens: 1_000_000,
+          created_at: new Date(created_at)
+        })
+      )
+    assert.equal(sent('2025-11-01T00:00:00Z'), 15)
+    assert.equal(sent('2025-12-01T00:00:00Z'), 5)
+  })
+
+  it('returns null for messages without a priced model', () => {
+    assert.equal(calculateMessageCost(message({ input_tokens: 100 })), null)
+    assert.equal(calculateMessageCost(message({ model: 'gpt-4o', input_tokens: 100 })), null)
+  })
+})
+
+describe('summarizeCost', () => {
+  const rows = [
+    usage({ date: '2025-11-20', model: 'claude-opus-4-5', input_tokens: 1_000_000 }),
+    usage({ date: '2025-12-01', model: 'claude-opus-4-5', input_tokens: 1_000_000 }),
+    usage({ date: '2025-12-01', model: 'claude-haiku-4-5', output_tokens: 1_000_000 }),
+    usage({ date: '2025-12-01', model: 'gpt-4o', messages: 2, input_tokens: 1_000_000 }),
+    usage({ date: '2025-12-01', model: null, output_tokens: 1_000_000 })
+  ]
+
+  it('groups by model, most expensive first, and lists unpriced models', () => {
+    const summary = summarizeCost(rows, 'model')
+    assert.equal(summary.total_cost_usd, 25)
+    assert.deepEqual(
+      summary.groups.map((group) => [group.key, group.cost_usd]),
+      [
+        ['claude-opus-4-5', 20],
+        ['claude-haiku-4-5', 5],
+        ['gpt-4o', 0],
+        [null, 0]
+      ]
+    )
+    assert.deepEqual(summary.unpriced_models, ['gpt-4o', 'unknown'])
+  })
+
+  it('groups by day, newest first, adding up the tokens', () => {
+    const summary = summarizeCost(rows, 'day')
+    assert.deepEqual(
+      summary.groups.map((group) => [
+        group.key,
+        group.messages,
+        group.input_tokens,
+        group.cost_usd
+      ]),
+      [
+        ['2025-12-01', 5, 2_000_000, 10],
+        ['2025-11-20', 1, 1_000_000, 15]
+      ]
+    )
+  })
+
+  it('accepts the string totals Postgres returns for bigint sums', () => {
+    const row = usage({ input_tokens: '1000000' as unknown as number })
+    assert.equal(summarizeCost([row], 'model').total_cost_usd, 3)
+  })
+})
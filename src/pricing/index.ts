@@ -0,0 +1,193 @@
+/**
+ * Token cost calculation
+ * Prices come from the built-in table plus an optional PRICING_FILE (a JSON
+ * array of ModelPrice entries). The most specific model pattern wins, and
+ * among its entries the latest effective_from on or before the usage date.
+ */
+
+import { readFileSync } from 'fs'
+import { z } from 'zod'
+import { DEFAULT_PRICES } from './defaults.js'
+import { ValidationError, formatErrorMessage } from '../utils/errors.js'
+import type { CostGroupBy } from '../utils/constants.js'
+import type {
+  CostGroup,
+  CostSummary,
+  Message,
+  ModelPrice,
+  TokenUsage
+} from '../types/index.js'
+
+const TOKENS_PER_UNIT = 1_000_000
+
+const rate = z.number().min(0)
+
+const PriceFileSchema = z.array(
+  z
+    .object({
+      model: z.string().min(1),
+      effective_from: z.string().date().default('1970-01-01'),
+      input: rate,
+      output: rate,
+      cache_write: rate.optional(),
+      cache_read: rate.optional(),
+      thinking: rate.optional()
+    })
+    .strict()
+)
+
+let priceTable: ModelPrice[] | null = null
+
+/**
+ * Built-in prices merged with PRICING_FILE; file entries replace built-ins
+ * with the same model pattern and effective date
+ */
+export function getPriceTable(): ModelPrice[] {
+  if (priceTable) return priceTable
+
+  const table = new Map<string, ModelPrice>()
+  for (const price of DEFAULT_PRICES) {
+    table.set(`${price.model}@${price.effective_from}`, price)
+  }
+
+  const file = process.env.PRICING_FILE
+  if (file) {
+    let custom: ModelPrice[]
+    try {
+      custom = PriceFileSchema.parse(JSON.parse(readFileSync(file, 'utf-8')))
+    } catch (error) {
+      throw new ValidationError(`Invalid pricing file '${file}': ${formatErrorMessage(error)}`)
+    }
+    for (const price of custom) {
+      table.set(`${price.model}@${price.effective_from}`, price)
+    }
+  }
+
+  priceTable = [...table.values()]
+  return priceTable
+}
+
+function matchesModel(pattern: string, model: string): boolean {
+  return pattern.endsWith('*') ? model.startsWith(pattern.slice(0, -1)) : model === pattern
+}
+
+/**
+ * Finds the price in effect for a model on a given date (YYYY-MM-DD)
+ */
+export function findPrice(model: string | null | undefined, date: string): ModelPrice | null {
+  if (!model) return null
+
+  const candidates = getPriceTable().filter(
+    (price) => matchesModel(price.model, model) && price.effective_from <= date
+  )
+  if (candidates.length === 0) return null
+
+  // Exact ids beat prefixes; longer prefixes beat shorter ones
+  const specificity = (price: ModelPrice) =>
+    price.model.endsWith('*') ? price.model.length : Number.MAX_SAFE_INTEGER
+  candidates.sort(
+    (a, b) =>
+      specificity(b) - specificity(a) || b.effective_from.localeCompare(a.effective_from)
+  )
+  return candidates[0]
+}
+
+type Usage = Pick<
+  TokenUsage,
+  | 'input_tokens'
+  | 'output_tokens'
+  | 'thinking_tokens'
+  | 'cache_creation_input_tokens'
+  | 'cache_read_input_tokens'
+>
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000
+}
+
+function costForPrice(price: ModelPrice, usage: Usage): number {
+  const cost =
+    Number(usage.input_tokens) * price.input +
+    Number(usage.output_tokens) * price.output +
+    Number(usage.cache_creation_input_tokens) * (price.cache_write ?? price.input) +
+    Number(usage.cache_read_input_tokens) * (price.cache_read ?? price.input) +
+    (price.thinking !== undefined ? Number(usage.thinking_tokens) * price.thinking : 0)
+  return cost / TOKENS_PER_UNIT
+}
+
+/**
+ * Cost of a single message, or null when its model has no price
+ */
+export function calculateMessageCost(message: Message): number | null {
+  const price = findPrice(message.model, new Date(message.created_at).toISOString().slice(0, 10))
+  if (!price) return null
+  return roundUsd(
+    costForPrice(price, {
+      input_tokens: message.input_tokens ?? 0,
+      output_tokens: message.output_tokens ?? 0,
+      thinking_tokens: message.thinking_tokens ?? 0,
+      cache_creation_input_tokens: message.cache_creation_input_tokens ?? 0,
+      cache_read_input_tokens: message.cache_read_input_tokens ?? 0
+    })
+  )
+}
+
+export function withMessageCost(message: Message): Message {
+  return { ...message, cost_usd: calculateMessageCost(message) }
+}
+
+function groupKey(row: TokenUsage, groupBy: CostGroupBy): string | null {
+  if (groupBy === 'day') return row.date
+  if (groupBy === 'model') return row.model
+  if (groupBy === 'user') return row.user_name
+  return row.project_path
+}
+
+/**
+ * Prices daily per-model usage rows and rolls them up by the requested dimension
+ */
+export function summarizeCost(rows: TokenUsage[], groupBy: CostGroupBy): CostSummary {
+  const groups = new Map<string | null, CostGroup>()
+  const unpriced = new Set<string>()
+  let total = 0
+
+  for (const row of rows) {
+    const price = findPrice(row.model, row.date)
+    const cost = price ? costForPrice(price, row) : 0
+    if (!price) unpriced.add(row.model ?? 'unknown')
+    total += cost
+
+    const key = groupKey(row, groupBy)
+    const group = groups.get(key) ?? {
+      key,
+      messages: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      thinking_tokens: 0,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+      cost_usd: 0
+    }
+    group.messages += Number(row.messages)
+    group.input_tokens += Number(row.input_tokens)
+    group.output_tokens += Number(row.output_tokens)
+    group.thinking_tokens += Number(row.thinking_tokens)
+    group.cache_creation_input_tokens += Number(row.cache_creation_input_tokens)
+    group.cache_read_input_tokens += Number(row.cache_read_input_tokens)
+    group.cost_usd += cost
+    groups.set(key, group)
+  }
+
+  const sorted = [...groups.values()]
+    .map((group) => ({ ...group, cost_usd: roundUsd(group.cost_usd) }))
+    .sort((a, b) =>
+      groupBy === 'day' ? String(b.key).localeCompare(String(a.key)) : b.cost_usd - a.cost_usd
+    )
+
+  return {
+    group_by: groupBy,
+    total_cost_usd: roundUsd(total),
+    groups: sorted,
+    unpriced_models: [...unpriced].sort()
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Secret and PII redaction
+ *   REDACTION=on|off (default: on)
+ *   REDACTION_RULES_FILE=<path> (optional JSON, see below)
+ *
+ * Message content, thinking and tool call input, output and errors are
+ * scrubbed before they are stored. Each match becomes [REDACTED:<rule>], and
+ * the number of matches per rule is recorded in the message's
+ * metadata.redactions. The rules file disables built-in rules by id and adds
+ * regex rules, which may name a `secret` group to replace only that part:
+ *   { "disable": ["email"], "rules": [{ "id": "customer-id", "pattern": "CUST-\\d{6}" }] }
+ */
+
+import { readFileSync } from 'fs'
+import { z } from 'zod'
+import { BUILTIN_RULES, RedactionRule } from './rules.js'
+import { normalizeCaptureInput } from '../db/normalize.js'
+import { ValidationError, formatErrorMessage } from '../utils/errors.js'
+import type {
+  CaptureMessageInput,
+  Message,
+  MessageRedaction,
+  ThinkingBlock,
+  ToolCall
+} from '../types/index.js'
+
+export type RedactionCounts = Record<string, number>
+
+const PLACEHOLDER_PREFIX = '[REDACTED:'
+
+const RulesFileSchema = z
+  .object({
+    disable: z.array(z.string()).default([]),
+    rules: z
+      .array(
+        z
+          .object({
+            id: z
+              .string()
+              .regex(/^[a-z0-9][a-z0-9-]*$/, 'id must be lowercase letters, digits and -'),
+            pattern: z.string().min(1),
+            flags: z.string().regex(/^[imsu]*$/, 'flags may only be i, m, s and u').optional()
+          })
+          .strict()
+      )
+      .default([])
+  })
+  .strict()
+
+let ruleSet: RedactionRule[] | null = null
+
+export function isRedactionEnabled(): boolean {
+  const value = process.env.REDACTION || 'on'
+  if (value !== 'on' && value !== 'off') {
+    throw new Error(`Unknown REDACTION '${value}'. Must be: on, off`)
+  }
+  return value === 'on'
+}
+
+/**
+ * Built-in rules minus those the rules file disables, followed by its own rules
+ */
+export function getRedactionRules(): RedactionRule[] {
+  if (ruleSet) return ruleSet
+
+  const file = process.env.REDACTION_RULES_FILE
+  if (!file) {
+    ruleSet = BUILTIN_RULES
+    return ruleSet
+  }
+
+  let custom: RedactionRule[]
+  let disabled: Set<string>
+  try {
+    const config = RulesFileSchema.parse(JSON.parse(readFileSync(file, 'utf-8')))
+    const unknown = config.disable.filter((id) => !BUILTIN_RULES.some((rule) => rule.id === id))
+    if (unknown.length > 0) {
+      throw new Error(`unknown built-in rule(s) to disable: ${unknown.join(', ')}`)
+    }
+    disabled = new Set(config.disable)
+    custom = config.rules.map((rule) => ({
+      id: rule.id,
+      pattern: new RegExp(rule.pattern, `g${rule.flags ?? ''}`)
+    }))
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid redaction rules file '${file}': ${formatErrorMessage(error)}`
+    )
+  }
+
+  ruleSet = [...BUILTIN_RULES.filter((rule) => !disabled.has(rule.id)), ...custom]
+  return ruleSet
+}
+
+function applyRule(text: string, rule: RedactionRule, counts: RedactionCounts): string {
+  return text.replace(rule.pattern, (match: string, ...rest: unknown[]) => {
+    // Named groups, when the pattern has any, are the last replacer argument
+    const groups = rest[rest.length - 1]
+    const secret =
+      typeof groups === 'object' && groups !== null
+        ? (groups as Record<string, string | undefined>).secret
+        : undefined
+    const target = secret ?? match
+    if (target.startsWith(PLACEHOLDER_PREFIX)) return match
+    if (rule.accept && !rule.accept(target)) return match
+
+    counts[rule.id] = (counts[rule.id] ?? 0) + 1
+    const placeholder = `${PLACEHOLDER_PREFIX}${rule.id}]`
+    if (secret === undefined) return placeholder
+    const start = match.lastIndexOf(secret)
+    return match.slice(0, start) + placeholder + match.slice(start + secret.length)
+  })
+}
+
+/**
+ * Replaces every match of the current rules, adding to counts per rule
+ */
+export function redactText(text: string, counts: RedactionCounts = {}): string {
+  return getRedactionRules().reduce((result, rule) => applyRule(result, rule, counts), text)
+}
+
+/**
+ * Redacts every string inside a JSON value, such as a tool call's input
+ */
+function redactValue(value: unknown, counts: RedactionCounts): unknown {
+  if (typeof value === 'string') return redactText(value, counts)
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, counts))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, counts)])
+    )
+  }
+  return value
+}
+
+function redactToolCall(call: ToolCall, counts: RedactionCounts): ToolCall {
+  return {
+    ...call,
+    input: redactValue(call.input ?? {}, counts) as Record<string, unknown>,
+    output: call.output ? redactText(call.output, counts) : call.output,
+    error: call.error ? redactText(call.error, counts) : call.error
+  }
+}
+
+function redactionMetadata(
+  counts: RedactionCounts,
+  metadata: Record<string, unknown> = {}
+): Record<string, unknown> {
+  if (Object.keys(counts).length === 0) return metadata
+  const previous = (metadata.redactions ?? {}) as RedactionCounts
+  const redactions = { ...previous }
+  for (const [id, count] of Object.entries(counts)) {
+    redactions[id] = (redactions[id] ?? 0) + count
+  }
+  return { ...metadata, redactions }
+}
+
+/**
+ * The capture input with secrets scrubbed and metadata recording the rules
+ * that fired. Client-supplied metadata is always dropped. Thinking is resolved
+ * from its client-specific aliases into blocks first, so each text is scanned
+ * and counted once.
+ */
+export function redactCaptureInput(input: CaptureMessageInput): CaptureMessageInput {
+  if (!isRedactionEnabled()) return { ...input, metadata: {} }
+
+  const counts: RedactionCounts = {}
+  const { thinking_blocks, thinking_tokens } = normalizeCaptureInput(input)
+  const content = redactText(input.content, counts)
+  const blocks = thinking_blocks.map((block) => ({
+    type: block.type,
+    content: block.content !== null ? redactText(block.content, counts) : undefined,
+    data: block.data ?? undefined,
+    signature: block.signature ?? undefined,
+    token_count: block.token_count
+  }))
+  const toolCalls = input.tool_calls?.map((call) => redactToolCall(call, counts))
+
+  return {
+    ...input,
+    content,
+    thinking_content: undefined,
+    thinking_text: undefined,
+    thinking: undefined,
+    thoughts: undefined,
+    thinking_blocks: blocks,
+    thinking_tokens,
+    tool_calls: toolCalls,
+    metadata: redactionMetadata(counts)
+  }
+}
+
+/**
+ * Applies the current rules to a stored message and its thinking blocks.
+ * Returns the values to write back with the matches made by this pass, or
+ * null when nothing matched.
+ */
+export function redactStoredMessage(
+  message: Message,
+  blocks: ThinkingBlock[]
+): { redaction: MessageRedaction; counts: RedactionCounts } | null {
+  const counts: RedactionCounts = {}
+  const content = redactText(message.content, counts)
+  const thinking = message.thinking_content ? redactText(message.thinking_content, counts) : null
+  const toolCalls = (message.tool_calls ?? []).map((call) => redactToolCall(call, counts))
+  if (Object.keys(counts).length === 0) return null
+
+  // Blocks repeat thinking_content, so their matches are not counted again
+  const thinkingBlocks = blocks
+    .filter((block) => block.content)
+    .map((block) => ({ position: block.position, content: redactText(block.content!) }))
+
+  return {
+    redaction: {
+      content,
+      thinking_content: thinking,
+      thinking_blocks: thinkingBlocks,
+      tool_calls: toolCalls,
+      metadata: redactionMetadata(counts, message.metadata)
+    },
+    counts
+  }
+}
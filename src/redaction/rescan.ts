@@ -0,0 +1,46 @@
+/**
+ * Re-scans stored messages with the current redaction rules, for data
+ * captured before redaction was enabled or before a rule was added. Scrubbed
+ * messages lose their embeddings, which the indexer rebuilds from the new text.
+ */
+
+import { getStorage } from '../db/index.js'
+import { redactStoredMessage } from './index.js'
+import type { RedactionScanResult } from '../types/index.js'
+
+const SCAN_BATCH_SIZE = 100
+
+export async function rescanMessages(
+  options: { dryRun?: boolean } = {}
+): Promise<RedactionScanResult> {
+  const storage = await getStorage()
+  const result: RedactionScanResult = {
+    dry_run: options.dryRun ?? false,
+    messages_scanned: 0,
+    messages_redacted: 0,
+    redactions: {}
+  }
+
+  let afterId: string | null = null
+  while (true) {
+    const batch = await storage.scanMessages(afterId, SCAN_BATCH_SIZE)
+    if (batch.length === 0) break
+
+    for (const message of batch) {
+      const blocks = await storage.getThinkingBlocks(message.id)
+      const scrubbed = redactStoredMessage(message, blocks)
+      if (!scrubbed) continue
+
+      if (!result.dry_run) await storage.redactMessage(message.id, scrubbed.redaction)
+      result.messages_redacted++
+      for (const [id, count] of Object.entries(scrubbed.counts)) {
+        result.redactions[id] = (result.redactions[id] ?? 0) + count
+      }
+    }
+
+    result.messages_scanned += batch.length
+    afterId = batch[batch.length - 1].id
+  }
+
+  return result
+}
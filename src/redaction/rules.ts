@@ -0,0 +1,101 @@
+/**
+ * Built-in redaction rules, applied in order so specific formats are named
+ * before the generic high-entropy catch-all sees them. A rule with a named
+ * `secret` group replaces only that group, keeping labels such as
+ * `PASSWORD=` readable. Disable or extend them with REDACTION_RULES_FILE.
+ */
+
+export interface RedactionRule {
+  id: string
+  /** Global pattern; matches are replaced with a placeholder naming the rule */
+  pattern: RegExp
+  /** Matches this rejects are kept as they are */
+  accept?: (secret: string) => boolean
+}
+
+// Below this many bits per character a long token reads as an identifier or hex hash
+const MIN_ENTROPY_BITS = 4.5
+
+/**
+ * Shannon entropy of the characters in a string, in bits per character
+ */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>()
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1)
+  let entropy = 0
+  for (const count of counts.values()) {
+    const p = count / text.length
+    entropy -= p * Math.log2(p)
+  }
+  return entropy
+}
+
+function looksRandom(token: string): boolean {
+  return /[A-Za-z]/.test(token) && /\d/.test(token) && shannonEntropy(token) >= MIN_ENTROPY_BITS
+}
+
+// References to a secret rather than the secret itself
+function isLiteralValue(value: string): boolean {
+  return !/^(?:\$|process\.env|os\.environ|<)/.test(value)
+}
+
+// .env style names such as DB_PASSWORD; MAX_TOKENS and the like are not secrets
+const ENV_NAMES = 'SECRET|PASSWORD|PASSWD|TOKEN(?!S)|API_?KEY|PRIVATE_KEY'
+const ENV_KEY = String.raw`\b[A-Z0-9_]*(?:${ENV_NAMES})[A-Z0-9_]*`
+
+// Config and JSON fields such as "password": "..."
+const CREDENTIAL_FIELDS = [
+  'password',
+  'passwd',
+  'client_secret',
+  'api_?key',
+  'access_token',
+  'refresh_token',
+  'auth_token'
+]
+
+const ASSIGNED_VALUE = String.raw`["']?\s*[=:]\s*["']?(?<secret>[^\s"',;]{8,})`
+
+export const BUILTIN_RULES: RedactionRule[] = [
+  {
+    id: 'private-key',
+    // An unterminated key (e.g. cut off in tool output) is redacted to the end of the text
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY[A-Z ]*-----|$)/g
+  },
+  { id: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    id: 'aws-secret-key',
+    pattern: /aws_secret_access_key["']?\s*[=:]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})/gi
+  },
+  {
+    id: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g
+  },
+  { id: 'anthropic-api-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { id: 'openai-api-key', pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { id: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { id: 'stripe-key', pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { id: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { id: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    id: 'connection-string-password',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:(?<secret>[^\s@/]+)@/gi,
+    accept: isLiteralValue
+  },
+  {
+    id: 'env-secret',
+    pattern: new RegExp(ENV_KEY + ASSIGNED_VALUE, 'g'),
+    accept: isLiteralValue
+  },
+  {
+    id: 'credential-field',
+    pattern: new RegExp(`["']?\\b(?:${CREDENTIAL_FIELDS.join('|')})` + ASSIGNED_VALUE, 'gi'),
+    accept: isLiteralValue
+  },
+  {
+    id: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g
+  },
+  // Without `/`, so a file path is judged a segment at a time rather than as one token
+  { id: 'high-entropy', pattern: /[A-Za-z0-9+=_-]{32,}/g, accept: looksRandom }
+]
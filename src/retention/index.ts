@@ -0,0 +1,121 @@
+/**
+ * Retention policies
+ *   RETENTION_THINKING_DAYS      Clear thinking from messages older than this
+ *   RETENTION_SESSION_DAYS       Delete sessions with no activity for this long
+ *   RETENTION_EXEMPT_TAGS        Comma-separated tags whose sessions are kept whole ('*' for any)
+ *   RETENTION_EXEMPT_BOOKMARKED  true to keep sessions their owner has bookmarked
+ *   RETENTION_ROLLUP             off to skip preserving daily stats of deleted sessions
+ *   RETENTION_INTERVAL_HOURS     How often the server applies the policy (default: 24)
+ *
+ * With neither day limit set nothing is ever removed. Deleted sessions are
+ * first folded into daily_stats_rollup so daily statistics keep their history.
+ */
+
+import { getStorage } from '../db/index.js'
+import { formatErrorMessage } from '../utils/errors.js'
+import type { RetentionPolicy, RetentionResult } from '../types/index.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const INTERVAL_MS =
+  (parseInt(process.env.RETENTION_INTERVAL_HOURS || '', 10) || 24) * 60 * 60 * 1000
+
+// The first run waits for startup work, such as the embedding catch-up, to settle
+const STARTUP_DELAY_MS = 60 * 1000
+
+function parseDays(name: string): number | null {
+  const value = process.env[name]
+  if (!value) return null
+  const days = Number(value)
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`${name} must be a whole number of days, at least 1`)
+  }
+  return days
+}
+
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    thinking_days: parseDays('RETENTION_THINKING_DAYS'),
+    session_days: parseDays('RETENTION_SESSION_DAYS'),
+    exemptions: {
+      tags: (process.env.RETENTION_EXEMPT_TAGS || '')
+        .split(',')
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean),
+      bookmarked: process.env.RETENTION_EXEMPT_BOOKMARKED === 'true'
+    },
+    rollup: process.env.RETENTION_ROLLUP !== 'off'
+  }
+}
+
+export function hasRetentionRules(policy: RetentionPolicy): boolean {
+  return policy.thinking_days !== null || policy.session_days !== null
+}
+
+/**
+ * Applies the policy now, or with dryRun only counts what it would remove.
+ * Thinking goes first, so a dry run counts exactly what a real run removes.
+ */
+export async function applyRetention(
+  options: { dryRun?: boolean; policy?: RetentionPolicy } = {}
+): Promise<RetentionResult> {
+  const storage = await getStorage()
+  const policy = options.policy ?? getRetentionPolicy()
+  const dryRun = options.dryRun ?? false
+  const result: RetentionResult = { dry_run: dryRun, thinking: null, sessions: null }
+
+  if (policy.thinking_days !== null) {
+    const before = new Date(Date.now() - policy.thinking_days * DAY_MS)
+    const purged = await storage.purgeThinking(before, policy.exemptions, dryRun)
+    result.thinking = { ...purged, before }
+  }
+
+  if (policy.session_days !== null) {
+    const before = new Date(Date.now() - policy.session_days * DAY_MS)
+    const purged = await storage.purgeSessions(before, policy.exemptions, {
+      rollup: policy.rollup,
+      dryRun
+    })
+    result.sessions = { ...purged, before }
+  }
+
+  return result
+}
+
+/**
+ * Applies the policy shortly after startup and then every RETENTION_INTERVAL_HOURS.
+ * Returns a function that stops the schedule; a no-op without retention rules.
+ */
+export function startRetentionJob(): () => void {
+  const policy = getRetentionPolicy()
+  if (!hasRetentionRules(policy)) return () => undefined
+
+  let running = false
+  const run = async () => {
+    if (running) return
+    running = true
+    try {
+      const { sessions, thinking } = await applyRetention({ policy })
+      if (thinking?.messages) {
+        console.error(`Retention: cleared thinking from ${thinking.messages} message(s)`)
+      }
+      if (sessions?.sessions) {
+        console.error(
+          `Retention: deleted ${sessions.sessions} session(s) with ${sessions.messages} message(s)`
+        )
+      }
+    } catch (error) {
+      console.error('Retention failed:', formatErrorMessage(error))
+    } finally {
+      running = false
+    }
+  }
+
+  let timer: NodeJS.Timeout = setTimeout(() => {
+    void run()
+    timer = setInterval(() => void run(), INTERVAL_MS)
+    timer.unref()
+  }, STARTUP_DELAY_MS)
+  timer.unref()
+  return () => clearTimeout(timer)
+}
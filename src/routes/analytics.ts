@@ -1,13 +1,23 @@
 import { Router, Request, Response } from 'express'
-import { getOverallStats, getDailyStats, getToolUsageStats } from '../db/index.js'
-import { sendSuccess, sendError } from '../utils/api-response.js'
-import { VALIDATION } from '../utils/constants.js'
+import {
+  getOverallStats,
+  getDailyStats,
+  getToolUsageStats,
+  getToolTrends,
+  getClientStats,
+  getUserStats,
+  getTagCloud,
+  getCostSummary
+} from '../db/index.js'
+import { sendSuccess, sendError, sendValidationError } from '../utils/api-response.js'
+import { parsePagination } from '../utils/validation.js'
+import { VALIDATION, PAGINATION, COST_GROUP_BY, isValidCostGroupBy } from '../utils/constants.js'
 
 const router = Router()
 
-router.get('/overview', async (_req: Request, res: Response) => {
+router.get('/overview', async (req: Request, res: Response) => {
   try {
-    const stats = await getOverallStats()
+    const stats = await getOverallStats(req.viewer)
     sendSuccess(res, { stats })
   } catch (error) {
     sendError(res, error, 'fetching overview stats')
@@ -22,20 +32,92 @@ router.get('/daily', async (req: Request, res: Response) => {
       VALIDATION.MAX_DAILY_STATS_DAYS
     )
 
-    const stats = await getDailyStats(numDays)
+    const stats = await getDailyStats(numDays, req.viewer)
     sendSuccess(res, { stats })
   } catch (error) {
     sendError(res, error, 'fetching daily stats')
   }
 })
 
-router.get('/tools', async (_req: Request, res: Response) => {
+router.get('/tools', async (req: Request, res: Response) => {
   try {
-    const stats = await getToolUsageStats()
+    const stats = await getToolUsageStats(req.viewer)
     sendSuccess(res, { stats })
   } catch (error) {
     sendError(res, error, 'fetching tool stats')
   }
 })
 
+router.get('/tools/trends', async (req: Request, res: Response) => {
+  try {
+    const { name, days = '30' } = req.query
+    const numDays = Math.min(
+      parseInt(days as string, 10) || 30,
+      VALIDATION.MAX_DAILY_STATS_DAYS
+    )
+
+    const stats = await getToolTrends({
+      name: name as string | undefined,
+      days: numDays,
+      viewer: req.viewer
+    })
+    sendSuccess(res, { stats })
+  } catch (error) {
+    sendError(res, error, 'fetching tool trends')
+  }
+})
+
+router.get('/clients', async (req: Request, res: Response) => {
+  try {
+    const stats = await getClientStats(req.viewer)
+    sendSuccess(res, { stats })
+  } catch (error) {
+    sendError(res, error, 'fetching client stats')
+  }
+})
+
+router.get('/users', async (req: Request, res: Response) => {
+  try {
+    const stats = await getUserStats(req.viewer)
+    sendSuccess(res, { stats })
+  } catch (error) {
+    sendError(res, error, 'fetching user stats')
+  }
+})
+
+router.get('/tags', async (req: Request, res: Response) => {
+  try {
+    const { limit } = parsePagination(req.query.limit as string, undefined, {
+      maxLimit: PAGINATION.MAX_LIMIT,
+      defaultLimit: PAGINATION.MAX_LIMIT
+    })
+
+    const tags = await getTagCloud(limit, req.viewer)
+    sendSuccess(res, { tags })
+  } catch (error) {
+    sendError(res, error, 'fetching tag cloud')
+  }
+})
+
+router.get('/cost', async (req: Request, res: Response) => {
+  try {
+    const { group_by = 'day', days } = req.query
+
+    if (typeof group_by !== 'string' || !isValidCostGroupBy(group_by)) {
+      sendValidationError(res, `Invalid group_by. Must be: ${COST_GROUP_BY.join(', ')}`)
+      return
+    }
+
+    const numDays =
+      days !== undefined
+        ? Math.min(parseInt(days as string, 10) || 30, VALIDATION.MAX_DAILY_STATS_DAYS)
+        : undefined
+
+    const cost = await getCostSummary(group_by, numDays, req.viewer)
+    sendSuccess(res, { cost })
+  } catch (error) {
+    sendError(res, error, 'fetching cost')
+  }
+})
+
 export default router
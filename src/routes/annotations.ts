@@ -0,0 +1,69 @@
+/**
+ * Tag, note and bookmark endpoints shared by sessions and messages.
+ * Mounted under /api/sessions/:id and /api/messages/:id.
+ */
+
+import { Router, Request, Response } from 'express'
+import { getAnnotations, addTags, removeTags, addNote, setBookmark } from '../db/index.js'
+import { sendSuccess, sendCreated, sendError } from '../utils/api-response.js'
+import type { AnnotationRef } from '../types/index.js'
+
+export function annotationRoutes(refOf: (id: string) => AnnotationRef): Router {
+  const router = Router({ mergeParams: true })
+
+  router.get('/annotations', async (req: Request, res: Response) => {
+    try {
+      const annotations = await getAnnotations(refOf(req.params.id), req.viewer)
+      sendSuccess(res, { annotations })
+    } catch (error) {
+      sendError(res, error, 'fetching annotations')
+    }
+  })
+
+  router.post('/tags', async (req: Request, res: Response) => {
+    try {
+      const tags = await addTags(refOf(req.params.id), req.body.tags, req.viewer)
+      sendSuccess(res, { tags })
+    } catch (error) {
+      sendError(res, error, 'adding tags')
+    }
+  })
+
+  router.delete('/tags/:tag', async (req: Request, res: Response) => {
+    try {
+      const tags = await removeTags(refOf(req.params.id), [req.params.tag], req.viewer)
+      sendSuccess(res, { tags })
+    } catch (error) {
+      sendError(res, error, 'removing tag')
+    }
+  })
+
+  router.post('/notes', async (req: Request, res: Response) => {
+    try {
+      const note = await addNote(refOf(req.params.id), req.body.content, req.viewer)
+      sendCreated(res, { note })
+    } catch (error) {
+      sendError(res, error, 'adding note')
+    }
+  })
+
+  router.put('/bookmark', async (req: Request, res: Response) => {
+    try {
+      await setBookmark(refOf(req.params.id), true, req.viewer)
+      sendSuccess(res, { bookmarked: true })
+    } catch (error) {
+      sendError(res, error, 'adding bookmark')
+    }
+  })
+
+  router.delete('/bookmark', async (req: Request, res: Response) => {
+    try {
+      await setBookmark(refOf(req.params.id), false, req.viewer)
+      sendSuccess(res, { bookmarked: false })
+    } catch (error) {
+      sendError(res, error, 'removing bookmark')
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,27 @@
+import { Router, Request, Response } from 'express'
+import { listBookmarks } from '../db/index.js'
+import { sendSuccess, sendError, hasMore } from '../utils/api-response.js'
+import { parsePagination } from '../utils/validation.js'
+import { PAGINATION } from '../utils/constants.js'
+
+const router = Router()
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { limit, offset } = parsePagination(
+      req.query.limit as string,
+      req.query.offset as string,
+      { maxLimit: PAGINATION.MAX_LIMIT }
+    )
+
+    const result = await listBookmarks(limit, offset, req.viewer)
+    sendSuccess(res, {
+      ...result,
+      has_more: hasMore(result.total, offset, result.bookmarks.length)
+    })
+  } catch (error) {
+    sendError(res, error, 'listing bookmarks')
+  }
+})
+
+export default router
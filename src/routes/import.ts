@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express'
+import { importTranscripts, isImportSource, IMPORT_SOURCES } from '../importers/index.js'
+import { sendSuccess, sendError, sendValidationError } from '../utils/api-response.js'
+
+const router = Router()
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { source = 'claude-code', path, force = false } = req.body
+
+    if (typeof source !== 'string' || !isImportSource(source)) {
+      sendValidationError(res, `Invalid source. Must be: ${IMPORT_SOURCES.join(', ')}`)
+      return
+    }
+
+    if (path !== undefined && typeof path !== 'string') {
+      sendValidationError(res, 'path must be a string')
+      return
+    }
+
+    const result = await importTranscripts({
+      source,
+      path,
+      force: force === true,
+      owner: req.viewer
+    })
+    sendSuccess(res, { result })
+  } catch (error) {
+    sendError(res, error, 'importing transcripts')
+  }
+})
+
+export default router
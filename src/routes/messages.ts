@@ -1,9 +1,11 @@
 import { Router, Request, Response } from 'express'
-import { captureMessage, getMessage } from '../db/index.js'
+import { captureMessage, captureMessages, getMessage, getThinkingBlocks } from '../db/index.js'
+import { findSimilarMessages } from '../embeddings/index.js'
 import { sendSuccess, sendCreated, sendError, sendNotFound } from '../utils/api-response.js'
-import { validateMessageInput } from '../utils/validation.js'
+import { validateMessageInput, parsePagination } from '../utils/validation.js'
 import { ValidationError } from '../utils/errors.js'
 import type { CaptureMessageInput } from '../types/index.js'
+import { annotationRoutes } from './annotations.js'
 
 const router = Router()
 
@@ -21,16 +23,27 @@ router.post('/', async (req: Request, res: Response) => {
       throw error
     }
 
-    const message = await captureMessage(input)
-    sendCreated(res, { message })
+    const { message, created } = await captureMessage(input, req.viewer)
+    // A retry with a stored external_id gets the original message back
+    if (created) sendCreated(res, { message, created })
+    else sendSuccess(res, { message, created })
   } catch (error) {
     sendError(res, error, 'capturing message')
   }
 })
 
+router.post('/batch', async (req: Request, res: Response) => {
+  try {
+    const result = await captureMessages(req.body?.messages, req.viewer)
+    sendSuccess(res, { ...result })
+  } catch (error) {
+    sendError(res, error, 'capturing messages')
+  }
+})
+
 router.get('/:id', async (req: Request, res: Response) => {
   try {
-    const message = await getMessage(req.params.id)
+    const message = await getMessage(req.params.id, req.viewer)
     if (!message) {
       sendNotFound(res, 'Message')
       return
@@ -41,4 +54,35 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 })
 
+router.get('/:id/thinking-blocks', async (req: Request, res: Response) => {
+  try {
+    const message = await getMessage(req.params.id, req.viewer)
+    if (!message) {
+      sendNotFound(res, 'Message')
+      return
+    }
+    const blocks = await getThinkingBlocks(message.id)
+    sendSuccess(res, { blocks })
+  } catch (error) {
+    sendError(res, error, 'fetching thinking blocks')
+  }
+})
+
+router.get('/:id/similar', async (req: Request, res: Response) => {
+  try {
+    const { limit, session_id } = req.query
+    const pagination = parsePagination(limit as string, undefined, { defaultLimit: 10 })
+    const results = await findSimilarMessages(req.params.id, {
+      sessionId: session_id as string | undefined,
+      limit: pagination.limit,
+      viewer: req.viewer
+    })
+    sendSuccess(res, { results })
+  } catch (error) {
+    sendError(res, error, 'finding similar messages')
+  }
+})
+
+router.use('/:id', annotationRoutes((id) => ({ message_id: id })))
+
 export default router
@@ -0,0 +1,33 @@
+import { Router, Request, Response } from 'express'
+import { updateNote, deleteNote } from '../db/index.js'
+import { sendSuccess, sendError, sendNotFound } from '../utils/api-response.js'
+
+const router = Router()
+
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const note = await updateNote(req.params.id, req.body.content, req.viewer)
+    if (!note) {
+      sendNotFound(res, 'Note')
+      return
+    }
+    sendSuccess(res, { note })
+  } catch (error) {
+    sendError(res, error, 'updating note')
+  }
+})
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const deleted = await deleteNote(req.params.id, req.viewer)
+    if (!deleted) {
+      sendNotFound(res, 'Note')
+      return
+    }
+    sendSuccess(res, { message: 'Note deleted' })
+  } catch (error) {
+    sendError(res, error, 'deleting note')
+  }
+})
+
+export default router
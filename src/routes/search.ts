@@ -1,15 +1,30 @@
 import { Router, Request, Response } from 'express'
 import { searchMessages } from '../db/index.js'
+import { hybridSearchMessages } from '../embeddings/index.js'
 import { sendSuccess, sendError } from '../utils/api-response.js'
-import { validateSearchQuery, validateRole, parsePagination } from '../utils/validation.js'
+import {
+  validateSearchQuery,
+  validateRole,
+  parsePagination,
+  parseTagFilter
+} from '../utils/validation.js'
 import { ValidationError } from '../utils/errors.js'
-import { PAGINATION } from '../utils/constants.js'
+import { PAGINATION, SEARCH_MODES, isValidSearchMode } from '../utils/constants.js'
 
 const router = Router()
 
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const { q, session_id, role, limit, offset, search_thinking = 'true' } = req.query
+    const {
+      q,
+      session_id,
+      role,
+      tag,
+      limit,
+      offset,
+      search_thinking = 'true',
+      mode = 'keyword'
+    } = req.query
 
     let query: string
     try {
@@ -34,16 +49,24 @@ router.get('/', async (req: Request, res: Response) => {
       }
     }
 
+    if (typeof mode !== 'string' || !isValidSearchMode(mode)) {
+      sendError(res, new ValidationError(`Invalid mode. Must be: ${SEARCH_MODES.join(', ')}`))
+      return
+    }
+
     const pagination = parsePagination(limit as string, offset as string, {
       maxLimit: PAGINATION.MAX_LIMIT
     })
 
-    const results = await searchMessages(query, {
+    const search = mode === 'hybrid' ? hybridSearchMessages : searchMessages
+    const results = await search(query, {
       sessionId: session_id as string | undefined,
       role: role as 'user' | 'assistant' | 'system' | undefined,
+      tags: parseTagFilter(tag),
       limit: pagination.limit,
       offset: pagination.offset,
-      searchThinking: search_thinking !== 'false'
+      searchThinking: search_thinking !== 'false',
+      viewer: req.viewer
     })
 
     sendSuccess(res, results)
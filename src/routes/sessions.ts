@@ -1,11 +1,16 @@
 import { Router, Request, Response } from 'express'
+import { Readable } from 'stream'
 import {
   createSession,
   getSession,
   listSessions,
   endSession,
   deleteSession,
+  updateSession,
+  mergeSessions,
+  splitSession,
   getSessionMessages,
+  getMessageTree,
   getSessionStats
 } from '../db/index.js'
 import {
@@ -16,8 +21,24 @@ import {
   sendValidationError,
   hasMore
 } from '../utils/api-response.js'
-import { parsePagination, validateSessionName } from '../utils/validation.js'
-import { PAGINATION } from '../utils/constants.js'
+import {
+  isValidUUID,
+  parsePagination,
+  parseTagFilter,
+  parseTimestamp,
+  validateSessionName
+} from '../utils/validation.js'
+import {
+  PAGINATION,
+  EXPORT_FORMATS,
+  SESSION_VISIBILITIES,
+  isValidExportFormat,
+  isValidSessionVisibility
+} from '../utils/constants.js'
+import { exportSession, EXPORT_CONTENT_TYPES } from '../exporters/index.js'
+import { annotationRoutes } from './annotations.js'
+import { streamEvents } from './stream.js'
+import { requireApiKey } from '../auth/middleware.js'
 
 const router = Router()
 
@@ -29,7 +50,22 @@ router.get('/', async (req: Request, res: Response) => {
       { maxLimit: PAGINATION.MAX_LIMIT }
     )
 
-    const result = await listSessions(limit, offset)
+    const { tag, bookmarked, top_level } = req.query
+    if (bookmarked !== undefined && bookmarked !== 'true' && bookmarked !== 'false') {
+      sendValidationError(res, 'Invalid bookmarked. Must be: true, false')
+      return
+    }
+    if (top_level !== undefined && top_level !== 'true' && top_level !== 'false') {
+      sendValidationError(res, 'Invalid top_level. Must be: true, false')
+      return
+    }
+
+    const result = await listSessions(limit, offset, {
+      tags: parseTagFilter(tag),
+      bookmarked: bookmarked === undefined ? undefined : bookmarked === 'true',
+      parent_session_id: top_level === 'true' ? null : undefined,
+      viewer: req.viewer
+    })
     sendSuccess(res, {
       ...result,
       has_more: hasMore(result.total, offset, result.sessions.length)
@@ -41,7 +77,7 @@ router.get('/', async (req: Request, res: Response) => {
 
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { name, project_path, metadata } = req.body
+    const { name, project_path, metadata, visibility, parent_session_id } = req.body
 
     try {
       validateSessionName(name)
@@ -49,8 +85,26 @@ router.post('/', async (req: Request, res: Response) => {
       sendValidationError(res, 'Session name is required')
       return
     }
+    if (
+      parent_session_id !== undefined &&
+      (typeof parent_session_id !== 'string' || !isValidUUID(parent_session_id))
+    ) {
+      sendValidationError(res, 'parent_session_id must be a session id')
+      return
+    }
 
-    const session = await createSession({ name, project_path, metadata })
+    const session = await createSession(
+      {
+        name,
+        project_path,
+        metadata,
+        visibility,
+        parent_session_id,
+        started_at: parseTimestamp(req.body.started_at, 'started_at'),
+        ended_at: parseTimestamp(req.body.ended_at, 'ended_at')
+      },
+      req.viewer
+    )
     sendCreated(res, { session })
   } catch (error) {
     sendError(res, error, 'creating session')
@@ -59,7 +113,7 @@ router.post('/', async (req: Request, res: Response) => {
 
 router.get('/:id', async (req: Request, res: Response) => {
   try {
-    const session = await getSession(req.params.id)
+    const session = await getSession(req.params.id, req.viewer)
     if (!session) {
       sendNotFound(res, 'Session')
       return
@@ -70,9 +124,37 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 })
 
+router.get('/:id/children', async (req: Request, res: Response) => {
+  try {
+    const { limit, offset } = parsePagination(
+      req.query.limit as string,
+      req.query.offset as string,
+      { maxLimit: PAGINATION.MAX_LIMIT }
+    )
+
+    const session = await getSession(req.params.id, req.viewer)
+    if (!session) {
+      sendNotFound(res, 'Session')
+      return
+    }
+
+    const result = await listSessions(limit, offset, {
+      parent_session_id: session.id,
+      viewer: req.viewer
+    })
+    sendSuccess(res, {
+      ...result,
+      has_more: hasMore(result.total, offset, result.sessions.length)
+    })
+  } catch (error) {
+    sendError(res, error, 'listing sub-sessions')
+  }
+})
+
 router.post('/:id/end', async (req: Request, res: Response) => {
   try {
-    const session = await endSession(req.params.id)
+    const endedAt = parseTimestamp(req.body?.ended_at, 'ended_at')
+    const session = await endSession(req.params.id, req.viewer, endedAt)
     if (!session) {
       sendNotFound(res, 'Session')
       return
@@ -83,9 +165,106 @@ router.post('/:id/end', async (req: Request, res: Response) => {
   }
 })
 
-router.delete('/:id', async (req: Request, res: Response) => {
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { name, project_path, metadata, visibility } = req.body
+    if (project_path !== undefined && typeof project_path !== 'string') {
+      sendValidationError(res, 'project_path must be a string')
+      return
+    }
+    if (
+      metadata !== undefined &&
+      (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))
+    ) {
+      sendValidationError(res, 'metadata must be an object')
+      return
+    }
+    if (
+      visibility !== undefined &&
+      (typeof visibility !== 'string' || !isValidSessionVisibility(visibility))
+    ) {
+      sendValidationError(res, `Invalid visibility. Must be: ${SESSION_VISIBILITIES.join(', ')}`)
+      return
+    }
+
+    const session = await updateSession(
+      req.params.id,
+      {
+        name,
+        project_path,
+        metadata,
+        visibility,
+        started_at: parseTimestamp(req.body.started_at, 'started_at'),
+        ended_at: parseTimestamp(req.body.ended_at, 'ended_at')
+      },
+      req.viewer
+    )
+    if (!session) {
+      sendNotFound(res, 'Session')
+      return
+    }
+    sendSuccess(res, { session })
+  } catch (error) {
+    sendError(res, error, 'updating session')
+  }
+})
+
+// Merging deletes the source sessions, so it needs the scope deleting one does
+router.post('/:id/merge', requireApiKey('admin'), async (req: Request, res: Response) => {
+  try {
+    const session = await mergeSessions(req.params.id, req.body.source_ids, req.viewer)
+    if (!session) {
+      sendNotFound(res, 'Session')
+      return
+    }
+    sendSuccess(res, { session })
+  } catch (error) {
+    sendError(res, error, 'merging sessions')
+  }
+})
+
+router.post('/:id/split', async (req: Request, res: Response) => {
+  try {
+    const { message_id, name } = req.body
+    if (typeof message_id !== 'string' || !isValidUUID(message_id)) {
+      sendValidationError(res, 'message_id must be a message id')
+      return
+    }
+
+    const session = await splitSession(req.params.id, message_id, { name }, req.viewer)
+    if (!session) {
+      sendNotFound(res, 'Session')
+      return
+    }
+    sendCreated(res, { session })
+  } catch (error) {
+    sendError(res, error, 'splitting session')
+  }
+})
+
+router.put('/:id/visibility', async (req: Request, res: Response) => {
   try {
-    const deleted = await deleteSession(req.params.id)
+    const { visibility } = req.body
+    if (typeof visibility !== 'string' || !isValidSessionVisibility(visibility)) {
+      sendValidationError(res, `Invalid visibility. Must be: ${SESSION_VISIBILITIES.join(', ')}`)
+      return
+    }
+
+    const session = await updateSession(req.params.id, { visibility }, req.viewer)
+    if (!session) {
+      sendNotFound(res, 'Session')
+      return
+    }
+    sendSuccess(res, { session })
+  } catch (error) {
+    sendError(res, error, 'changing session visibility')
+  }
+})
+
+// Deleting a session discards its messages, so it needs more than removing an annotation
+router.delete('/:id', requireApiKey('admin'), async (req: Request, res: Response) => {
+  try {
+    const deleted = await deleteSession(req.params.id, req.viewer)
     if (!deleted) {
       sendNotFound(res, 'Session')
       return
@@ -96,6 +275,19 @@ router.delete('/:id', async (req: Request, res: Response) => {
   }
 })
 
+router.get('/:id/stream', async (req: Request, res: Response) => {
+  try {
+    const session = await getSession(req.params.id, req.viewer)
+    if (!session) {
+      sendNotFound(res, 'Session')
+      return
+    }
+    await streamEvents(req, res, session.id)
+  } catch (error) {
+    sendError(res, error, 'streaming session')
+  }
+})
+
 router.get('/:id/messages', async (req: Request, res: Response) => {
   try {
     const { limit, offset } = parsePagination(
@@ -104,7 +296,23 @@ router.get('/:id/messages', async (req: Request, res: Response) => {
       { maxLimit: PAGINATION.MESSAGES_MAX_LIMIT, defaultLimit: PAGINATION.MESSAGES_DEFAULT_LIMIT }
     )
 
-    const result = await getSessionMessages(req.params.id, limit, offset)
+    const { leaf_message_id, branch_id } = req.query
+    if (
+      leaf_message_id !== undefined &&
+      (typeof leaf_message_id !== 'string' || !isValidUUID(leaf_message_id))
+    ) {
+      sendValidationError(res, 'leaf_message_id must be a message id')
+      return
+    }
+    if (branch_id !== undefined && (typeof branch_id !== 'string' || !branch_id)) {
+      sendValidationError(res, 'branch_id must be a branch label')
+      return
+    }
+
+    const result = await getSessionMessages(req.params.id, limit, offset, req.viewer, {
+      leaf_message_id,
+      branch_id
+    })
     sendSuccess(res, {
       ...result,
       has_more: hasMore(result.total, offset, result.messages.length)
@@ -114,9 +322,22 @@ router.get('/:id/messages', async (req: Request, res: Response) => {
   }
 })
 
+router.get('/:id/tree', async (req: Request, res: Response) => {
+  try {
+    const tree = await getMessageTree(req.params.id, req.viewer)
+    if (!tree) {
+      sendNotFound(res, 'Session')
+      return
+    }
+    sendSuccess(res, { tree })
+  } catch (error) {
+    sendError(res, error, 'getting message tree')
+  }
+})
+
 router.get('/:id/stats', async (req: Request, res: Response) => {
   try {
-    const stats = await getSessionStats(req.params.id)
+    const stats = await getSessionStats(req.params.id, req.viewer)
     if (!stats) {
       sendNotFound(res, 'Session')
       return
@@ -127,4 +348,35 @@ router.get('/:id/stats', async (req: Request, res: Response) => {
   }
 })
 
+router.get('/:id/export', async (req: Request, res: Response) => {
+  try {
+    const { format = 'md' } = req.query
+    if (typeof format !== 'string' || !isValidExportFormat(format)) {
+      sendValidationError(res, `Invalid format. Must be: ${EXPORT_FORMATS.join(', ')}`)
+      return
+    }
+
+    const session = await getSession(req.params.id, req.viewer)
+    if (!session) {
+      sendNotFound(res, 'Session')
+      return
+    }
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format])
+    res.setHeader('Content-Disposition', `attachment; filename="session-${session.id}.${format}"`)
+
+    // Headers are already sent once streaming starts, so a failure can only abort the response
+    Readable.from(exportSession(session, format))
+      .on('error', (error) => {
+        console.error('Error exporting session:', error)
+        res.destroy(error)
+      })
+      .pipe(res)
+  } catch (error) {
+    sendError(res, error, 'exporting session')
+  }
+})
+
+router.use('/:id', annotationRoutes((id) => ({ session_id: id })))
+
 export default router
@@ -0,0 +1,94 @@
+import { Router, Request, Response } from 'express'
+import { subscribe, replayEvents, loadEventData } from '../streams/index.js'
+import { sendError, sendValidationError } from '../utils/api-response.js'
+import { formatErrorMessage } from '../utils/errors.js'
+import type { StreamEvent } from '../types/index.js'
+
+const HEARTBEAT_INTERVAL_MS = 15000
+
+// Tells EventSource how long to wait before reconnecting
+const RECONNECT_DELAY_MS = 3000
+
+const router = Router()
+
+/**
+ * Streams events as Server-Sent Events. A Last-Event-ID header (sent by
+ * EventSource on reconnect) or last_event_id query parameter first replays
+ * the events after that id; live events arriving meanwhile are held back so
+ * the client sees each event once, in order.
+ */
+export async function streamEvents(req: Request, res: Response, sessionId?: string) {
+  const resumeFrom = req.get('Last-Event-ID') ?? (req.query.last_event_id as string | undefined)
+  if (resumeFrom !== undefined && !/^\d+$/.test(resumeFrom)) {
+    sendValidationError(res, 'Invalid Last-Event-ID. Must be a non-negative integer')
+    return
+  }
+
+  let closed = false
+  let live = false
+  let lastId = resumeFrom === undefined ? 0 : parseInt(resumeFrom, 10)
+  const held: StreamEvent[] = []
+
+  // Events are written one at a time so loading their data never reorders them
+  let writing = Promise.resolve()
+  const send = (event: StreamEvent) => {
+    writing = writing
+      .then(async () => {
+        const data = await loadEventData(event, req.viewer)
+        if (!data || closed) return
+        const payload = JSON.stringify({ ...event, ...data })
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${payload}\n\n`)
+      })
+      .catch((error) => console.error('Error streaming event:', formatErrorMessage(error)))
+  }
+
+  // Subscribe before replaying so nothing appended in between is missed
+  const unsubscribe = await subscribe(sessionId, (event) => {
+    if (live) send(event)
+    else held.push(event)
+  })
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no'
+  })
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+  req.on('close', () => {
+    closed = true
+    clearInterval(heartbeat)
+    unsubscribe()
+  })
+
+  try {
+    if (resumeFrom !== undefined) {
+      for await (const event of replayEvents(lastId, sessionId)) {
+        if (closed) return
+        send(event)
+        lastId = event.id
+      }
+    }
+  } catch (error) {
+    console.error('Error replaying events:', formatErrorMessage(error))
+  }
+
+  live = true
+  for (const event of held) {
+    if (event.id > lastId) send(event)
+  }
+  held.length = 0
+}
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    await streamEvents(req, res)
+  } catch (error) {
+    sendError(res, error, 'streaming events')
+  }
+})
+
+export default router
@@ -0,0 +1,55 @@
+import { Router, Request, Response } from 'express'
+import { getThinkingBlock, searchThinkingBlocks } from '../db/index.js'
+import { sendSuccess, sendError, sendNotFound } from '../utils/api-response.js'
+import { validateSearchQuery, parsePagination } from '../utils/validation.js'
+import { ValidationError } from '../utils/errors.js'
+import { PAGINATION } from '../utils/constants.js'
+
+const router = Router()
+
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const { q, session_id, limit, offset } = req.query
+
+    let query: string
+    try {
+      query = validateSearchQuery(q)
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        sendError(res, error)
+        return
+      }
+      throw error
+    }
+
+    const pagination = parsePagination(limit as string, offset as string, {
+      maxLimit: PAGINATION.MAX_LIMIT
+    })
+
+    const results = await searchThinkingBlocks(query, {
+      sessionId: session_id as string | undefined,
+      limit: pagination.limit,
+      offset: pagination.offset,
+      viewer: req.viewer
+    })
+
+    sendSuccess(res, results)
+  } catch (error) {
+    sendError(res, error, 'searching thinking blocks')
+  }
+})
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const block = await getThinkingBlock(req.params.id, req.viewer)
+    if (!block) {
+      sendNotFound(res, 'Thinking block')
+      return
+    }
+    sendSuccess(res, { block })
+  } catch (error) {
+    sendError(res, error, 'fetching thinking block')
+  }
+})
+
+export default router
@@ -0,0 +1,60 @@
+import { Router, Request, Response } from 'express'
+import { listToolCalls, getToolCall } from '../db/index.js'
+import {
+  sendSuccess,
+  sendError,
+  sendNotFound,
+  sendValidationError,
+  hasMore
+} from '../utils/api-response.js'
+import { parsePagination } from '../utils/validation.js'
+import { PAGINATION } from '../utils/constants.js'
+
+const router = Router()
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { name, session_id, has_error } = req.query
+
+    if (has_error !== undefined && has_error !== 'true' && has_error !== 'false') {
+      sendValidationError(res, 'Invalid has_error. Must be: true, false')
+      return
+    }
+
+    const { limit, offset } = parsePagination(
+      req.query.limit as string,
+      req.query.offset as string,
+      { maxLimit: PAGINATION.MAX_LIMIT }
+    )
+
+    const result = await listToolCalls({
+      name: name as string | undefined,
+      sessionId: session_id as string | undefined,
+      hasError: has_error === undefined ? undefined : has_error === 'true',
+      limit,
+      offset,
+      viewer: req.viewer
+    })
+    sendSuccess(res, {
+      ...result,
+      has_more: hasMore(result.total, offset, result.tool_calls.length)
+    })
+  } catch (error) {
+    sendError(res, error, 'listing tool calls')
+  }
+})
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const toolCall = await getToolCall(req.params.id, req.viewer)
+    if (!toolCall) {
+      sendNotFound(res, 'Tool call')
+      return
+    }
+    sendSuccess(res, { tool_call: toolCall })
+  } catch (error) {
+    sendError(res, error, 'fetching tool call')
+  }
+})
+
+export default router
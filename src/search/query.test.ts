@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { escapeLike, parseSearchQuery } from './query.js'
+import { ValidationError } from '../utils/errors.js'
+
+describe('parseSearchQuery', () => {
+  it('groups terms joined by OR and keeps phrases together', () => {
+    const query = parseSearchQuery('cache OR "read through" retry')
+    assert.deepEqual(query.include, [
+      [
+        { phrase: false, text: 'cache' },
+        { phrase: true, text: 'read through' }
+      ],
+      [{ phrase: false, text: 'retry' }]
+    ])
+  })
+
+  it('excludes negated terms and phrases', () => {
+    const query = parseSearchQuery('deploy -staging -"dry run"')
+    assert.deepEqual(query.exclude, [
+      { phrase: false, text: 'staging' },
+      { phrase: true, text: 'dry run' }
+    ])
+  })
+
+  it('collects filters, with quoted values', () => {
+    const query = parseSearchQuery(
+      'model:claude tool:Bash tool:Edit project:"my app" tag:Insight in:thinking'
+    )
+    assert.deepEqual(query.models, ['claude'])
+    assert.deepEqual(query.tools, ['Bash', 'Edit'])
+    assert.deepEqual(query.projects, ['my app'])
+    assert.deepEqual(query.tags, ['insight'])
+    assert.equal(query.in, 'thinking')
+    assert.deepEqual(query.include, [])
+  })
+
+  it('parses dates and timestamps for after: and before:', () => {
+    const query = parseSearchQuery('after:2025-01-01 before:2025-02-01T12:00:00Z')
+    assert.equal(query.after?.toISOString(), '2025-01-01T00:00:00.000Z')
+    assert.equal(query.before?.toISOString(), '2025-02-01T12:00:00.000Z')
+  })
+
+  it('keeps unknown word: prefixes as search text', () => {
+    const query = parseSearchQuery('error:timeout TODO: -http://example.com')
+    assert.deepEqual(query.include, [
+      [{ phrase: false, text: 'error:timeout' }],
+      [{ phrase: false, text: 'TODO:' }]
+    ])
+    assert.deepEqual(query.exclude, [{ phrase: false, text: 'http://example.com' }])
+  })
+
+  it('drops terms without letters or digits', () => {
+    assert.deepEqual(parseSearchQuery('cache --- ...').include, [
+      [{ phrase: false, text: 'cache' }]
+    ])
+  })
+
+  for (const [query, message] of [
+    ['', /no terms or filters/],
+    ['model:', /Missing value for 'model:'/],
+    ['cache tag: retry', /Missing value for 'tag:'/],
+    ['project:""', /Missing value for 'project:'/],
+    ['-model:claude', /cannot be negated/],
+    ['OR cache', /OR must appear between/],
+    ['cache OR', /OR must appear between/],
+    ['"unterminated', /Unterminated quote/],
+    ['after:yesterday', /Invalid date for after/],
+    ['after:2025-02-01 before:2025-01-01', /after: must be earlier/],
+    ['in:everything', /Invalid value for in:/],
+    ['in:thinking in:content', /in: may only be given once/]
+  ] as const) {
+    it(`rejects ${JSON.stringify(query)}`, () => {
+      assert.throws(
+        () => parseSearchQuery(query),
+        (error: unknown) => error instanceof ValidationError && message.test(error.message)
+      )
+    })
+  }
+})
+
+describe('escapeLike', () => {
+  it('escapes wildcards and the escape character', () => {
+    assert.equal(escapeLike('50%_off\\'), '50\\%\\_off\\\\')
+  })
+})
@@ -0,0 +1,202 @@
+/**
+ * Search query language
+ *
+ *   word "exact phrase"     all terms must match
+ *   a OR b                  either term (binds tighter than the implicit AND)
+ *   -word -"phrase"         exclude messages containing the term
+ *   model:claude-sonnet     model id prefix; repeated model: filters match any
+ *   tool:Bash               message made a call to the tool; repeated tool: filters match any
+ *   project:api             project path contains the text; repeated project: filters match any
+ *   tag:insight             message or its session is tagged; repeated tag: filters must all match
+ *   after:2025-01-01        at or after the date or ISO timestamp
+ *   before:2025-02-01       strictly before the date or ISO timestamp
+ *   in:thinking in:content  match text in only one field
+ *
+ * Filter values may be quoted (project:"my app"). The parsed form holds only
+ * values, never SQL; each storage backend compiles it with bound parameters.
+ */
+
+import { ValidationError } from '../utils/errors.js'
+import { validateTags } from '../utils/validation.js'
+import type { SearchQuery, SearchTerm } from '../types/index.js'
+
+export const SEARCH_FILTERS = ['model', 'tool', 'project', 'tag', 'before', 'after', 'in'] as const
+type SearchFilter = (typeof SEARCH_FILTERS)[number]
+
+function isSearchFilter(key: string): key is SearchFilter {
+  return SEARCH_FILTERS.includes(key as SearchFilter)
+}
+
+interface Token {
+  negated: boolean
+  /** Set for field:value tokens */
+  field?: SearchFilter
+  value: string
+  quoted: boolean
+}
+
+/**
+ * Splits a query into tokens, keeping quoted phrases (and quoted filter
+ * values) together. Only the known filter names start a filter; any other
+ * word: prefix (error:, TODO:, http:) stays part of the search text.
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /(-?)(?:([\p{L}_]+):)?(?:"([^"]*)"|(\S+))/gu
+
+  for (const match of query.matchAll(pattern)) {
+    const [, negated, prefix, quoted, bare] = match
+    if (bare?.includes('"')) throw new ValidationError('Unterminated quote in search query')
+
+    const field = prefix?.toLowerCase()
+    if (field !== undefined && !isSearchFilter(field)) {
+      tokens.push({
+        negated: negated === '-',
+        value: `${prefix}:${quoted ?? bare}`,
+        quoted: quoted !== undefined
+      })
+      continue
+    }
+
+    // A filter name followed by whitespace or the end of the query
+    const dangling = bare?.match(/^([\p{L}_]+):$/u)?.[1].toLowerCase()
+    if (dangling && isSearchFilter(dangling)) {
+      throw new ValidationError(`Missing value for '${dangling}:'`)
+    }
+
+    tokens.push({
+      negated: negated === '-',
+      field: field as SearchFilter | undefined,
+      value: quoted ?? bare,
+      quoted: quoted !== undefined
+    })
+  }
+  return tokens
+}
+
+function parseDate(field: string, value: string): Date {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(value)
+  if (!value || isNaN(date.getTime())) {
+    throw new ValidationError(
+      `Invalid date for ${field}: '${value}'. Use YYYY-MM-DD or an ISO timestamp`
+    )
+  }
+  return date
+}
+
+function toTerm(token: Token): SearchTerm | null {
+  // Terms without any letters or digits match nothing and are dropped, as plainto_tsquery does
+  if (!/[\p{L}\p{N}]/u.test(token.value)) return null
+  return { phrase: token.quoted, text: token.value }
+}
+
+/**
+ * Parses a search query, throwing ValidationError when it is malformed
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = {
+    include: [],
+    exclude: [],
+    models: [],
+    tools: [],
+    projects: [],
+    tags: []
+  }
+
+  const tokens = tokenize(query)
+  // Set while the previous token was OR, so the next term joins the last group
+  let pendingOr = false
+
+  tokens.forEach((token, index) => {
+    if (!token.field && !token.quoted && !token.negated && token.value === 'OR') {
+      const previous = parsed.include[parsed.include.length - 1]
+      const next = tokens[index + 1]
+      if (!previous || pendingOr || !next || next.field || next.negated) {
+        throw new ValidationError('OR must appear between two search terms')
+      }
+      pendingOr = true
+      return
+    }
+
+    if (token.field) {
+      if (token.negated) {
+        throw new ValidationError(`Filters cannot be negated: '-${token.field}:'`)
+      }
+      if (!token.value) {
+        throw new ValidationError(`Missing value for '${token.field}:'`)
+      }
+      applyFilter(parsed, token.field, token.value)
+      return
+    }
+
+    const term = toTerm(token)
+    if (!term) return
+
+    if (token.negated) {
+      parsed.exclude.push(term)
+    } else if (pendingOr) {
+      parsed.include[parsed.include.length - 1].push(term)
+    } else {
+      parsed.include.push([term])
+    }
+    pendingOr = false
+  })
+
+  const hasFilter =
+    parsed.models.length > 0 ||
+    parsed.tools.length > 0 ||
+    parsed.projects.length > 0 ||
+    parsed.tags.length > 0 ||
+    parsed.before !== undefined ||
+    parsed.after !== undefined
+  if (parsed.include.length === 0 && parsed.exclude.length === 0 && !hasFilter) {
+    throw new ValidationError('Search query has no terms or filters')
+  }
+
+  if (parsed.before && parsed.after && parsed.after >= parsed.before) {
+    throw new ValidationError('after: must be earlier than before:')
+  }
+
+  return parsed
+}
+
+function applyFilter(parsed: SearchQuery, field: SearchFilter, value: string): void {
+  switch (field) {
+    case 'model':
+      parsed.models.push(value)
+      break
+    case 'tool':
+      parsed.tools.push(value)
+      break
+    case 'project':
+      parsed.projects.push(value)
+      break
+    case 'tag':
+      parsed.tags.push(...validateTags([value]))
+      break
+    case 'before':
+    case 'after': {
+      if (parsed[field]) throw new ValidationError(`${field}: may only be given once`)
+      parsed[field] = parseDate(field, value)
+      break
+    }
+    case 'in': {
+      const scope = value.toLowerCase()
+      if (scope !== 'thinking' && scope !== 'content') {
+        throw new ValidationError(`Invalid value for in: '${value}'. Must be: thinking, content`)
+      }
+      if (parsed.in && parsed.in !== scope) {
+        throw new ValidationError('in: may only be given once')
+      }
+      parsed.in = scope
+      break
+    }
+  }
+}
+
+/**
+ * Escapes LIKE wildcards so filter values match literally (with ESCAPE '\')
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
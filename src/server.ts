@@ -7,33 +7,71 @@ import sessionRoutes from './routes/sessions.js'
 import messageRoutes from './routes/messages.js'
 import searchRoutes from './routes/search.js'
 import analyticsRoutes from './routes/analytics.js'
-import { initializeDatabase } from './db/index.js'
+import importRoutes from './routes/import.js'
+import thinkingBlockRoutes from './routes/thinking-blocks.js'
+import toolCallRoutes from './routes/tool-calls.js'
+import noteRoutes from './routes/notes.js'
+import bookmarkRoutes from './routes/bookmarks.js'
+import streamRoutes from './routes/stream.js'
+import { getPendingMigrations, migrateUp } from './db/migrate.js'
+import { getStorage, getStorageBackend } from './db/index.js'
+import { startEmbeddingIndexer } from './embeddings/index.js'
+import { startRetentionJob } from './retention/index.js'
+import { createMcpHttpRouter } from './mcp/http.js'
+import { isAuthEnabled, listApiKeys } from './auth/index.js'
+import { requireApiKey } from './auth/middleware.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
 const app = express()
 const PORT = parseInt(process.env.PORT || '3000', 10)
-const HOST = process.env.HOST || '0.0.0.0'
+// Only this machine can connect unless HOST names a public interface (e.g. 0.0.0.0)
+const HOST = process.env.HOST || '127.0.0.1'
+// Other origins whose pages may call the API, comma-separated ('*' for any); by default
+// browsers only let the web app served from this server in
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean)
+const AUTO_MIGRATE = process.env.AUTO_MIGRATE === 'true' || process.argv.includes('--auto-migrate')
+// Serve the MCP Streamable HTTP transport at /mcp alongside the API
+const MCP_HTTP = process.env.MCP_HTTP === 'true' || process.argv.includes('--mcp')
 
 // Middleware
-app.use(cors())
+if (CORS_ORIGINS.length > 0) {
+  app.use(cors({ origin: CORS_ORIGINS.includes('*') ? '*' : CORS_ORIGINS }))
+}
 app.use(express.json({ limit: '10mb' }))
 app.use(express.urlencoded({ extended: true }))
 
 // Serve static files
 app.use(express.static(join(__dirname, '../public')))
 
+// Health check, open so load balancers and uptime checks need no key
+app.get('/api/health', (_req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() })
+})
+
+// Every other API route needs a key (API_AUTH=off disables this)
+app.use('/api', requireApiKey())
+
 // API Routes
 app.use('/api/sessions', sessionRoutes)
 app.use('/api/messages', messageRoutes)
 app.use('/api/search', searchRoutes)
 app.use('/api/analytics', analyticsRoutes)
+// Imports read files on the server, so they are limited to admin keys
+app.use('/api/import', requireApiKey('admin'), importRoutes)
+app.use('/api/thinking-blocks', thinkingBlockRoutes)
+app.use('/api/tool-calls', toolCallRoutes)
+app.use('/api/notes', noteRoutes)
+app.use('/api/bookmarks', bookmarkRoutes)
+app.use('/api/stream', streamRoutes)
 
-// Health check
-app.get('/api/health', (_req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() })
-})
+if (MCP_HTTP) {
+  app.use('/mcp', createMcpHttpRouter())
+}
 
 // Catch-all for SPA routing - serve index.html
 app.get('*', (_req, res) => {
@@ -59,10 +97,34 @@ app.use(
 // Start server
 async function main() {
   try {
-    // Initialize database on startup
-    console.log('Initializing database...')
-    await initializeDatabase()
-    console.log('Database initialized')
+    // Refuse to run against a schema this build does not match
+    const pending = getStorageBackend() === 'postgres' ? await getPendingMigrations() : []
+    if (pending.length > 0) {
+      if (!AUTO_MIGRATE) {
+        console.error(
+          `Database has ${pending.length} pending migration(s): ${pending
+            .map((migration) => `${migration.version}_${migration.name}`)
+            .join(', ')}`
+        )
+        console.error('Run `npm run migrate up` or start with AUTO_MIGRATE=true')
+        process.exit(1)
+      }
+      console.log('Applying pending migrations...')
+      for (const migration of await migrateUp()) {
+        console.log(`  applied ${migration.version}_${migration.name}`)
+      }
+    }
+
+    // Open the storage backend so configuration errors surface before listening
+    await getStorage()
+    startEmbeddingIndexer()
+    startRetentionJob()
+
+    if (!isAuthEnabled()) {
+      console.warn('API_AUTH=off: the API is open to anyone who can reach this server')
+    } else if (!(await listApiKeys()).some((key) => !key.revoked_at)) {
+      console.warn('No active API keys; create one with `npm run cli -- keys create <name>`')
+    }
 
     app.listen(PORT, HOST, () => {
       console.log(`Claude Think Tracker server running at http://${HOST}:${PORT}`)
@@ -70,9 +132,23 @@ async function main() {
       console.log(`  - GET  /api/sessions          - List sessions`)
       console.log(`  - POST /api/sessions          - Create session`)
       console.log(`  - GET  /api/sessions/:id      - Get session`)
+      console.log(`  - PATCH /api/sessions/:id     - Update session (also /merge, /split)`)
       console.log(`  - GET  /api/sessions/:id/messages - Get session messages`)
-      console.log(`  - GET  /api/search?q=...      - Search messages`)
+      console.log(`  - GET  /api/sessions/:id/tree  - Get the message tree (branches)`)
+      console.log(`  - GET  /api/sessions/:id/children - List sub-sessions`)
+      console.log(`  - GET  /api/sessions/:id/export?format=md|json|html - Export session`)
+      console.log(`  - GET  /api/sessions/:id/stream - Live session events (SSE)`)
+      console.log(`  - GET  /api/stream            - Live events for all sessions (SSE)`)
+      console.log(`  - GET  /api/search?q=...      - Search messages (mode=hybrid for meaning)`)
+      console.log(`  - POST /api/messages/batch    - Capture many messages at once`)
+      console.log(`  - GET  /api/messages/:id/similar - Find similar messages`)
+      console.log(`  - GET  /api/thinking-blocks/search?q=... - Search thinking blocks`)
+      console.log(`  - GET  /api/tool-calls?name=... - List tool calls`)
+      console.log(`  - POST /api/sessions/:id/tags - Tag a session (also notes, bookmark)`)
+      console.log(`  - GET  /api/bookmarks         - List bookmarks`)
       console.log(`  - GET  /api/analytics/overview - Get statistics`)
+      console.log(`  - POST /api/import            - Import transcripts`)
+      if (MCP_HTTP) console.log(`  - POST /mcp                   - MCP Streamable HTTP transport`)
     })
   } catch (error) {
     console.error('Failed to start server:', error)
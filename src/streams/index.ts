@@ -0,0 +1,94 @@
+/**
+ * Live event streams
+ * Fans storage events out to stream subscribers. A single storage watcher is
+ * shared by every subscriber and started on first use, and events older than
+ * any client would resume from are pruned hourly.
+ */
+
+import { getStorage, getMessage, getSession } from '../db/index.js'
+import { formatErrorMessage } from '../utils/errors.js'
+import type { Message, Session, StreamEvent, Viewer } from '../types/index.js'
+
+const EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+const REPLAY_BATCH_SIZE = 500
+
+interface Subscriber {
+  sessionId?: string
+  listener: (event: StreamEvent) => void
+}
+
+const subscribers = new Set<Subscriber>()
+let watching: Promise<void> | null = null
+
+function startWatching(): Promise<void> {
+  if (!watching) {
+    watching = (async () => {
+      const storage = await getStorage()
+      storage.watchEvents((event) => {
+        for (const subscriber of subscribers) {
+          if (!subscriber.sessionId || subscriber.sessionId === event.session_id) {
+            subscriber.listener(event)
+          }
+        }
+      })
+
+      const prune = () =>
+        storage
+          .pruneEvents(new Date(Date.now() - EVENT_RETENTION_MS))
+          .catch((error) => console.error('Failed to prune events:', formatErrorMessage(error)))
+      void prune()
+      setInterval(prune, PRUNE_INTERVAL_MS).unref()
+    })()
+  }
+  return watching
+}
+
+/**
+ * Calls the listener for every new event, or only those of one session.
+ * Returns a function that unsubscribes.
+ */
+export async function subscribe(
+  sessionId: string | undefined,
+  listener: (event: StreamEvent) => void
+): Promise<() => void> {
+  await startWatching()
+  const subscriber: Subscriber = { sessionId, listener }
+  subscribers.add(subscriber)
+  return () => subscribers.delete(subscriber)
+}
+
+/**
+ * Events after the given id, oldest first, for clients resuming a stream
+ */
+export async function* replayEvents(
+  afterId: number,
+  sessionId?: string
+): AsyncGenerator<StreamEvent> {
+  const storage = await getStorage()
+  let cursor = afterId
+  while (true) {
+    const events = await storage.listEvents(cursor, sessionId, REPLAY_BATCH_SIZE)
+    yield* events
+    if (events.length < REPLAY_BATCH_SIZE) break
+    cursor = events[events.length - 1].id
+  }
+}
+
+/**
+ * Loads the session or message an event refers to, or null once it has been
+ * deleted or when the viewer cannot see it
+ */
+export async function loadEventData(
+  event: StreamEvent,
+  viewer?: Viewer
+): Promise<{ session: Session } | { message: Message } | null> {
+  if (event.message_id) {
+    const message = await getMessage(event.message_id, viewer)
+    return message ? { message } : null
+  }
+  const session = await getSession(event.session_id, viewer)
+  return session ? { session } : null
+}
@@ -1,3 +1,13 @@
+import type {
+  ApiKeyScope,
+  CostGroupBy,
+  SessionVisibility,
+  ThinkingBlockType,
+  StreamEventType
+} from '../utils/constants.js'
+
+export type { ApiKeyScope, SessionVisibility, ThinkingBlockType, StreamEventType }
+
 export interface Session {
   id: string
   name: string
@@ -5,6 +15,12 @@ export interface Session {
   started_at: Date
   ended_at?: Date
   metadata?: Record<string, unknown>
+  /** Owner; null for sessions captured without a user */
+  user_id?: string | null
+  workspace_id?: string | null
+  visibility: SessionVisibility
+  /** The session that spawned this one, such as the main agent of a subagent */
+  parent_session_id?: string | null
 }
 
 export interface Message {
@@ -17,8 +33,22 @@ export interface Message {
   model?: string
   input_tokens?: number
   output_tokens?: number
+  cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
   tool_calls?: ToolCall[]
+  /** Server-recorded details, such as the redaction rules that fired on capture */
+  metadata?: Record<string, unknown>
+  /** The message this one follows; null for the first message of a conversation */
+  parent_message_id?: string | null
+  /** Client label of the branch the message is on; null for the main line */
+  branch_id?: string | null
+  /** Client-supplied id, unique within the session, that makes capture retries safe */
+  external_id?: string | null
+  /** When the message was sent, as reported by the client; messages are ordered by it */
   created_at: Date
+  /** When the server stored the message */
+  ingested_at?: Date
+  cost_usd?: number | null
 }
 
 export interface ToolCall {
@@ -30,25 +60,84 @@ export interface ToolCall {
   duration_ms?: number
 }
 
+/** A stored tool call; call_id is the client's own id for the call */
+export interface ToolCallRecord {
+  id: string
+  message_id: string
+  session_id: string
+  position: number
+  call_id: string
+  name: string
+  input: Record<string, unknown>
+  output: string | null
+  error: string | null
+  duration_ms: number | null
+  created_at: Date
+}
+
 export interface ThinkingBlock {
   id: string
   message_id: string
-  content: string
+  session_id: string
+  position: number
+  type: ThinkingBlockType
+  /** Thinking text; null for redacted blocks */
+  content: string | null
+  /** Opaque encrypted payload of a redacted block */
+  data?: string | null
+  signature?: string | null
   token_count?: number
   created_at: Date
 }
 
+export interface ThinkingBlockInput {
+  type?: ThinkingBlockType
+  content?: string
+  data?: string
+  signature?: string
+  token_count?: number
+}
+
+export interface ThinkingBlockSearchResult {
+  id: string
+  message_id: string
+  session_id: string
+  session_name: string
+  position: number
+  /** Plain text with matches wrapped in <mark>; escape it before rendering as HTML */
+  snippet: string
+  created_at: Date
+  rank: number
+}
+
 export interface SearchResult {
   id: string
   session_id: string
   session_name: string
   role: string
+  /**
+   * Plain text with matches wrapped in <mark>, or the start of the message when
+   * nothing was matched by words; escape it before rendering as HTML
+   */
   content_snippet: string
   thinking_snippet?: string
   created_at: Date
   rank: number
 }
 
+export interface SimilarMessage {
+  id: string
+  session_id: string
+  session_name: string
+  role: string
+  /** The start of the message, as plain text */
+  content_snippet: string
+  thinking_snippet?: string
+  created_at: Date
+  /** Cosine similarity, 0 to 1 */
+  similarity: number
+}
+
 export interface SessionStats {
   total_sessions: number
   total_messages: number
@@ -56,6 +145,21 @@ export interface SessionStats {
   total_input_tokens: number
   total_output_tokens: number
   avg_thinking_tokens_per_message: number
+  total_cost_usd?: number
+}
+
+export interface SessionUsageStats {
+  message_count: number
+  thinking_tokens: number
+  input_tokens: number
+  output_tokens: number
+  tool_calls: number
+  duration_minutes: number
+  cost_usd?: number
+  /** Sub-sessions included in the totals, at any depth */
+  descendant_count?: number
+  /** The same totals over the session and every sub-session below it */
+  with_descendants?: SessionUsageStats
 }
 
 export interface DailyStats {
@@ -65,11 +169,102 @@ export interface DailyStats {
   thinking_tokens: number
 }
 
+export interface UserStats {
+  /** null groups sessions captured without a user */
+  user_id: string | null
+  user_name: string | null
+  sessions: number
+  messages: number
+  thinking_tokens: number
+  input_tokens: number
+  output_tokens: number
+}
+
+export interface ClientStats {
+  client: string
+  sessions: number
+  messages: number
+  thinking_tokens: number
+  input_tokens: number
+  output_tokens: number
+}
+
 export interface ToolUsageStats {
   tool_name: string
   call_count: number
-  avg_duration_ms: number
+  avg_duration_ms: number | null
   error_count: number
+  error_rate: number
+  p50_duration_ms: number | null
+  p95_duration_ms: number | null
+  sessions: number
+  calls_per_session: number
+}
+
+/** Per-tool statistics for one UTC day */
+export interface ToolTrend extends ToolUsageStats {
+  date: string
+}
+
+export interface ToolTrendFilter {
+  name?: string
+  days?: number
+  viewer?: Viewer
+}
+
+// Cost types
+export interface ModelPrice {
+  /** Model id, or a prefix ending in `*` */
+  model: string
+  /** ISO date the price takes effect (inclusive) */
+  effective_from: string
+  /** USD per million tokens */
+  input: number
+  output: number
+  cache_write?: number
+  cache_read?: number
+  /** Only set for providers that bill thinking separately from output tokens */
+  thinking?: number
+}
+
+export interface TokenUsageFilter {
+  sessionId?: string
+  /** Also count the sub-sessions below sessionId */
+  withDescendants?: boolean
+  days?: number
+  viewer?: Viewer
+}
+
+export interface TokenUsage {
+  date: string
+  model: string | null
+  /** Null for sessions the viewer may count but not read */
+  project_path: string | null
+  user_name: string | null
+  messages: number
+  input_tokens: number
+  output_tokens: number
+  thinking_tokens: number
+  cache_creation_input_tokens: number
+  cache_read_input_tokens: number
+}
+
+export interface CostGroup {
+  key: string | null
+  messages: number
+  input_tokens: number
+  output_tokens: number
+  thinking_tokens: number
+  cache_creation_input_tokens: number
+  cache_read_input_tokens: number
+  cost_usd: number
+}
+
+export interface CostSummary {
+  group_by: CostGroupBy
+  total_cost_usd: number
+  groups: CostGroup[]
+  unpriced_models: string[]
 }
 
 // MCP-specific types
@@ -81,19 +276,188 @@ export interface CaptureMessageInput {
   thinking_text?: string | string[]
   thinking?: string | string[]
   thoughts?: string | string[]
+  thinking_blocks?: ThinkingBlockInput[]
   thinking_tokens?: number
   thinking_token_count?: number
   thoughts_token_count?: number
   model?: string
   input_tokens?: number
   output_tokens?: number
+  cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
   tool_calls?: ToolCall[]
+  /** When the message was sent: ISO 8601 or epoch milliseconds (default: now) */
+  timestamp?: string | number
+  /** Trusted event time, set by importers; clients send timestamp */
+  created_at?: Date
+  /**
+   * Defaults to the latest message on the same branch, so linear capture
+   * needs neither field; null starts a new conversation. Without branch_id
+   * the parent's branch is kept.
+   */
+  parent_message_id?: string | null
+  branch_id?: string
+  /**
+   * Client id for the message, such as its id in the client's own log.
+   * Capturing an id the session already has returns the stored message.
+   */
+  external_id?: string
+  /** Set by the server, never taken from clients */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * A message of a session whose messages are replaced as a whole. parent is
+ * the index of the message it follows: the one before it when left out, none
+ * when null.
+ */
+export type TranscriptMessage = Omit<CaptureMessageInput, 'session_id' | 'parent_message_id'> & {
+  parent?: number | null
+}
+
+/** A captured message; created is false when its external_id was already stored */
+export interface CapturedMessage {
+  message: Message
+  created: boolean
+}
+
+/** The outcome of one message in a batch capture, by its position in the batch */
+export interface BatchCaptureItem {
+  index: number
+  status: 'created' | 'existing' | 'invalid'
+  message_id?: string
+  error?: string
+}
+
+export interface BatchCaptureResult {
+  created: number
+  existing: number
+  invalid: number
+  items: BatchCaptureItem[]
+}
+
+/**
+ * Picks one linear branch of a session: the path from the first message to
+ * leaf_message_id, or to the latest message labelled branch_id
+ */
+export interface MessageBranchSelector {
+  leaf_message_id?: string
+  branch_id?: string
+}
+
+/** A message's place in the conversation tree, with the start of its text */
+export interface MessageLink {
+  id: string
+  parent_message_id: string | null
+  branch_id: string | null
+  role: Message['role']
+  preview: string
+  created_at: Date
+}
+
+export interface MessageTreeNode extends MessageLink {
+  children: string[]
+}
+
+/** Nodes are in capture order; leaves are the ends of branches */
+export interface MessageTree {
+  session_id: string
+  roots: string[]
+  leaves: string[]
+  nodes: MessageTreeNode[]
+}
+
+/**
+ * Scrubbed values written over a stored message. Thinking blocks and tool
+ * call rows are matched by position; tool_calls replaces the message's array.
+ */
+export interface MessageRedaction {
+  content: string
+  thinking_content: string | null
+  thinking_blocks: { position: number; content: string }[]
+  tool_calls: ToolCall[]
+  metadata: Record<string, unknown>
 }
 
 export interface CreateSessionInput {
   name: string
   project_path?: string
   metadata?: Record<string, unknown>
+  started_at?: Date
+  ended_at?: Date
+  user_id?: string | null
+  workspace_id?: string | null
+  visibility?: SessionVisibility
+  parent_session_id?: string | null
+}
+
+export interface UpdateSessionInput {
+  name?: string
+  project_path?: string
+  /** JSON merge patch over the stored metadata; null removes a key */
+  metadata?: Record<string, unknown>
+  started_at?: Date
+  ended_at?: Date
+  visibility?: SessionVisibility
+}
+
+export interface ThinkingBlockSearchOptions {
+  sessionId?: string
+  limit?: number
+  offset?: number
+  viewer?: Viewer
+}
+
+export interface ToolCallFilter {
+  name?: string
+  sessionId?: string
+  hasError?: boolean
+  limit?: number
+  offset?: number
+  viewer?: Viewer
+}
+
+export interface MessageSearchOptions {
+  sessionId?: string
+  role?: string
+  /** Restrict results to these message ids */
+  ids?: string[]
+  /** Every tag must be on the message or its session */
+  tags?: string[]
+  limit?: number
+  offset?: number
+  searchThinking?: boolean
+  viewer?: Viewer
+}
+
+export interface SearchTerm {
+  text: string
+  /** Quoted terms match as an exact phrase */
+  phrase: boolean
+}
+
+/** A parsed search query (see search/query.ts for the syntax) */
+export interface SearchQuery {
+  /** Every group must match; a group matches when any of its terms does */
+  include: SearchTerm[][]
+  exclude: SearchTerm[]
+  models: string[]
+  tools: string[]
+  projects: string[]
+  tags: string[]
+  before?: Date
+  after?: Date
+  in?: 'thinking' | 'content'
+}
+
+export interface SessionListFilter {
+  /** Every tag must be on the session */
+  tags?: string[]
+  /** Bookmarked by the viewer, or by anyone for unrestricted callers */
+  bookmarked?: boolean
+  /** Sub-sessions of this session; null for top-level sessions only */
+  parent_session_id?: string | null
+  viewer?: Viewer
 }
 
 export type SearchOptions = {
@@ -104,3 +468,223 @@ export type SearchOptions = {
   offset: number
   search_thinking: boolean
 }
+
+// Importer types
+export type ImportSource = 'claude-code' | 'gemini-cli'
+
+export interface ImportOptions {
+  source: ImportSource
+  path?: string
+  force?: boolean
+  /** Owner of newly imported sessions */
+  owner?: Viewer
+}
+
+export interface ImportFileError {
+  file: string
+  error: string
+}
+
+export interface ImportResult {
+  source: ImportSource
+  files_scanned: number
+  sessions_created: number
+  sessions_updated: number
+  sessions_skipped: number
+  messages_imported: number
+  errors: ImportFileError[]
+}
+
+// Backup types
+export type RestoreMode = 'merge' | 'replace'
+
+export interface BackupHeader {
+  type: 'header'
+  format: 'think-tracker-backup'
+  version: number
+  created_at: string
+  tables: string[]
+}
+
+export interface BackupResult {
+  file: string
+  rows: Record<string, number>
+}
+
+export interface RestoreResult {
+  file: string
+  mode: RestoreMode
+  inserted: Record<string, number>
+  skipped: Record<string, number>
+}
+
+export interface RedactionScanResult {
+  dry_run: boolean
+  messages_scanned: number
+  messages_redacted: number
+  /** Matches per rule across all messages */
+  redactions: Record<string, number>
+}
+
+// Retention types
+/** Sessions retention never touches; '*' in tags matches any tag */
+export interface RetentionExemptions {
+  tags: string[]
+  /** Sessions their owner has bookmarked */
+  bookmarked: boolean
+}
+
+export interface RetentionPolicy {
+  thinking_days: number | null
+  session_days: number | null
+  exemptions: RetentionExemptions
+  /** Fold purged sessions into daily_stats_rollup first */
+  rollup: boolean
+}
+
+export interface ThinkingPurge {
+  messages: number
+  thinking_blocks: number
+}
+
+export interface SessionPurge {
+  sessions: number
+  messages: number
+}
+
+export interface RetentionResult {
+  dry_run: boolean
+  /** Null when the policy has no rule of that kind */
+  thinking: (ThinkingPurge & { before: Date }) | null
+  sessions: (SessionPurge & { before: Date }) | null
+}
+
+// Annotation types
+/** A session, or a message within it when message_id is set */
+export interface AnnotationTarget {
+  session_id: string
+  message_id: string | null
+}
+
+/** Identifies what to annotate: a message when message_id is given, else the session */
+export interface AnnotationRef {
+  session_id?: string
+  message_id?: string
+}
+
+export interface Note {
+  id: string
+  session_id: string
+  message_id: string | null
+  /** The author, who alone may change the note; null for notes added without a user */
+  user_id: string | null
+  content: string
+  created_at: Date
+  updated_at: Date
+}
+
+export interface Annotations {
+  tags: string[]
+  notes: Note[]
+  /** Whether the viewer has bookmarked it; bookmarks are kept per user */
+  bookmarked: boolean
+}
+
+export interface Bookmark {
+  id: string
+  session_id: string
+  session_name: string
+  message_id: string | null
+  user_id: string | null
+  created_at: Date
+}
+
+export interface TagCount {
+  tag: string
+  sessions: number
+  messages: number
+}
+
+// Embedding types
+export interface MessageEmbedding {
+  message_id: string
+  session_id: string
+  vector: Float32Array
+}
+
+export interface SimilarSearchOptions {
+  sessionId?: string
+  limit?: number
+  viewer?: Viewer
+}
+
+// Stream event types
+export interface StreamEvent {
+  /** Increases across all sessions; sent as the SSE event id for resume */
+  id: number
+  type: StreamEventType
+  session_id: string
+  message_id: string | null
+  created_at: Date
+}
+
+export type StreamEventInput = Pick<StreamEvent, 'type' | 'session_id' | 'message_id'>
+
+// Workspace and user types
+export interface Workspace {
+  id: string
+  name: string
+  created_at: Date
+}
+
+export interface User {
+  id: string
+  name: string
+  workspace_id: string
+  created_at: Date
+}
+
+export interface CreateUserInput {
+  name: string
+  workspace_id: string
+}
+
+/**
+ * Who is asking, for visibility checks (see db/visibility.ts). A viewer with
+ * no user sees public sessions only; omitting the viewer means unrestricted.
+ */
+export interface Viewer {
+  user_id: string | null
+  workspace_id: string | null
+}
+
+// API key types
+export interface ApiKey {
+  id: string
+  name: string
+  /** The user the key acts as; null for keys not tied to a user */
+  user_id: string | null
+  /** Leading characters of the key, shown so keys can be told apart */
+  prefix: string
+  scopes: ApiKeyScope[]
+  created_at: Date
+  last_used_at: Date | null
+  revoked_at: Date | null
+}
+
+export interface CreateApiKeyInput {
+  name: string
+  user_id: string | null
+  prefix: string
+  /** SHA-256 of the key; the key itself is never stored */
+  key_hash: string
+  scopes: ApiKeyScope[]
+}
+
+// Migration types
+export interface MigrationStatus {
+  version: number
+  name: string
+  applied: boolean
+  applied_at?: Date
+}
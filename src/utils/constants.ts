@@ -6,7 +6,15 @@ export const VALIDATION = {
   SESSION_NAME_MAX_LENGTH: 255,
   SEARCH_QUERY_MIN_LENGTH: 2,
   SEARCH_QUERY_MAX_LENGTH: 500,
-  MAX_DAILY_STATS_DAYS: 365
+  MAX_DAILY_STATS_DAYS: 365,
+  TAG_MAX_LENGTH: 100,
+  MAX_TAGS_PER_REQUEST: 50,
+  NOTE_MAX_LENGTH: 10000,
+  BRANCH_ID_MAX_LENGTH: 100,
+  EXTERNAL_ID_MAX_LENGTH: 255,
+  MAX_CAPTURE_BATCH: 500,
+  TIMESTAMP_MAX_AGE_DAYS: 365,
+  TIMESTAMP_MAX_SKEW_MINUTES: 5
 } as const
 
 export const PAGINATION = {
@@ -23,3 +31,48 @@ export type Role = (typeof ROLES)[number]
 export function isValidRole(role: string): role is Role {
   return ROLES.includes(role as Role)
 }
+
+export const EXPORT_FORMATS = ['md', 'json', 'html'] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export function isValidExportFormat(format: string): format is ExportFormat {
+  return EXPORT_FORMATS.includes(format as ExportFormat)
+}
+
+export const THINKING_BLOCK_TYPES = ['thinking', 'redacted'] as const
+export type ThinkingBlockType = (typeof THINKING_BLOCK_TYPES)[number]
+
+export function isValidThinkingBlockType(type: string): type is ThinkingBlockType {
+  return THINKING_BLOCK_TYPES.includes(type as ThinkingBlockType)
+}
+
+export const SEARCH_MODES = ['keyword', 'hybrid'] as const
+export type SearchMode = (typeof SEARCH_MODES)[number]
+
+export function isValidSearchMode(mode: string): mode is SearchMode {
+  return SEARCH_MODES.includes(mode as SearchMode)
+}
+
+export const STREAM_EVENT_TYPES = ['session-created', 'message-captured', 'session-ended'] as const
+export type StreamEventType = (typeof STREAM_EVENT_TYPES)[number]
+
+export const COST_GROUP_BY = ['day', 'model', 'project_path', 'user'] as const
+export type CostGroupBy = (typeof COST_GROUP_BY)[number]
+
+export function isValidCostGroupBy(groupBy: string): groupBy is CostGroupBy {
+  return COST_GROUP_BY.includes(groupBy as CostGroupBy)
+}
+
+export const API_KEY_SCOPES = ['read', 'capture', 'admin'] as const
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+export function isValidApiKeyScope(scope: string): scope is ApiKeyScope {
+  return API_KEY_SCOPES.includes(scope as ApiKeyScope)
+}
+
+export const SESSION_VISIBILITIES = ['private', 'workspace', 'public'] as const
+export type SessionVisibility = (typeof SESSION_VISIBILITIES)[number]
+
+export function isValidSessionVisibility(visibility: string): visibility is SessionVisibility {
+  return SESSION_VISIBILITIES.includes(visibility as SessionVisibility)
+}
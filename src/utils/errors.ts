@@ -27,6 +27,20 @@ export class ValidationError extends AppError {
   }
 }
 
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'A valid API key is required') {
+    super(message, 401, 'UNAUTHORIZED')
+    this.name = 'UnauthorizedError'
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(message, 403, 'FORBIDDEN')
+    this.name = 'ForbiddenError'
+  }
+}
+
 export class DatabaseError extends AppError {
   constructor(message: string, public readonly originalError?: Error) {
     super(message, 500, 'DATABASE_ERROR')
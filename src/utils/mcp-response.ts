@@ -17,6 +17,15 @@ export function mcpSuccess<T>(data: T): McpResponse {
   }
 }
 
+/**
+ * Creates a successful MCP response with pre-rendered text
+ */
+export function mcpText(text: string): McpResponse {
+  return {
+    content: [{ type: 'text', text }]
+  }
+}
+
 /**
  * Creates an error MCP response
  */
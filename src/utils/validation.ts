@@ -77,6 +77,51 @@ export function validateSessionName(name: unknown): string {
   return name
 }
 
+const ISO_DATE_PREFIX = /^\d{4}-\d{2}-\d{2}(?:[T ]|$)/
+
+/**
+ * Parses a client-supplied event time, given as an ISO 8601 string or epoch
+ * milliseconds. Times more than TIMESTAMP_MAX_AGE_DAYS old or further ahead of
+ * the server clock than TIMESTAMP_MAX_SKEW_MINUTES are rejected, unless
+ * bounded is false as for imported transcripts, which may be of any age.
+ */
+export function parseTimestamp(
+  value: unknown,
+  field: string,
+  { bounded = true }: { bounded?: boolean } = {}
+): Date | undefined {
+  if (value === undefined || value === null) return undefined
+
+  const valid =
+    (typeof value === 'string' && ISO_DATE_PREFIX.test(value)) ||
+    (typeof value === 'number' && Number.isFinite(value))
+  const date = valid ? new Date(value as string | number) : null
+  if (!date || isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be an ISO 8601 timestamp or epoch milliseconds`)
+  }
+
+  if (!bounded) return date
+  const now = Date.now()
+  if (date.getTime() > now + VALIDATION.TIMESTAMP_MAX_SKEW_MINUTES * 60 * 1000) {
+    throw new ValidationError(`${field} cannot be in the future`)
+  }
+  if (date.getTime() < now - VALIDATION.TIMESTAMP_MAX_AGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new ValidationError(
+      `${field} cannot be more than ${VALIDATION.TIMESTAMP_MAX_AGE_DAYS} days in the past`
+    )
+  }
+  return date
+}
+
+/**
+ * Validates that a session does not end before it starts
+ */
+export function validateTimeRange(startedAt?: Date | null, endedAt?: Date | null): void {
+  if (startedAt && endedAt && endedAt.getTime() < startedAt.getTime()) {
+    throw new ValidationError('ended_at cannot be before started_at')
+  }
+}
+
 /**
  * Validates required message fields
  */
@@ -84,6 +129,10 @@ export function validateMessageInput(input: {
   session_id?: unknown
   role?: unknown
   content?: unknown
+  parent_message_id?: unknown
+  branch_id?: unknown
+  external_id?: unknown
+  timestamp?: unknown
 }): void {
   if (!input.session_id || typeof input.session_id !== 'string') {
     throw new ValidationError('session_id is required')
@@ -98,4 +147,97 @@ export function validateMessageInput(input: {
   if (!input.content || typeof input.content !== 'string') {
     throw new ValidationError('content is required')
   }
+
+  if (
+    input.parent_message_id !== undefined &&
+    input.parent_message_id !== null &&
+    (typeof input.parent_message_id !== 'string' || !isValidUUID(input.parent_message_id))
+  ) {
+    throw new ValidationError('parent_message_id must be a message id or null')
+  }
+
+  if (
+    input.branch_id !== undefined &&
+    (typeof input.branch_id !== 'string' ||
+      !input.branch_id ||
+      input.branch_id.length > VALIDATION.BRANCH_ID_MAX_LENGTH)
+  ) {
+    throw new ValidationError(
+      `branch_id must be between 1 and ${VALIDATION.BRANCH_ID_MAX_LENGTH} characters`
+    )
+  }
+
+  if (
+    input.external_id !== undefined &&
+    (typeof input.external_id !== 'string' ||
+      !input.external_id ||
+      input.external_id.length > VALIDATION.EXTERNAL_ID_MAX_LENGTH)
+  ) {
+    throw new ValidationError(
+      `external_id must be between 1 and ${VALIDATION.EXTERNAL_ID_MAX_LENGTH} characters`
+    )
+  }
+
+  parseTimestamp(input.timestamp, 'timestamp')
+}
+
+const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N}_\-.:/]*$/u
+
+/**
+ * Validates a list of tags, returning them lowercased and deduplicated.
+ * Tags are single words so they can be used as `tag:` search filters.
+ */
+export function validateTags(tags: unknown): string[] {
+  const list = typeof tags === 'string' ? [tags] : tags
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new ValidationError('tags must be a non-empty array of strings')
+  }
+
+  if (list.length > VALIDATION.MAX_TAGS_PER_REQUEST) {
+    throw new ValidationError(`At most ${VALIDATION.MAX_TAGS_PER_REQUEST} tags per request`)
+  }
+
+  const normalized = list.map((tag) => {
+    if (typeof tag !== 'string') {
+      throw new ValidationError('tags must be a non-empty array of strings')
+    }
+    const value = tag.trim().toLowerCase()
+    if (value.length > VALIDATION.TAG_MAX_LENGTH) {
+      throw new ValidationError(`Tags must be at most ${VALIDATION.TAG_MAX_LENGTH} characters`)
+    }
+    if (!TAG_PATTERN.test(value)) {
+      throw new ValidationError(
+        `Invalid tag '${tag}'. Tags start with a letter or digit and contain no spaces`
+      )
+    }
+    return value
+  })
+
+  return [...new Set(normalized)]
+}
+
+/**
+ * Validates note content
+ */
+export function validateNoteContent(content: unknown): string {
+  if (!content || typeof content !== 'string' || !content.trim()) {
+    throw new ValidationError('Note content is required')
+  }
+
+  if (content.length > VALIDATION.NOTE_MAX_LENGTH) {
+    throw new ValidationError(`Notes must be at most ${VALIDATION.NOTE_MAX_LENGTH} characters`)
+  }
+
+  return content
+}
+
+/**
+ * Parses a `tag` query filter, given repeated (?tag=a&tag=b) or comma-separated (?tag=a,b)
+ */
+export function parseTagFilter(value: unknown): string[] | undefined {
+  if (value === undefined || value === '') return undefined
+  const values = (Array.isArray(value) ? value : [value]).flatMap((item) =>
+    typeof item === 'string' ? item.split(',').filter(Boolean) : [item]
+  )
+  return validateTags(values)
 }